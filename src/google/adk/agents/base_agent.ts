@@ -290,6 +290,9 @@ export abstract class BaseAgent {
   /**
    * Creates a new invocation context for this agent.
    * 
+   * Agents only extend a branch that was started by an ancestor, such as a
+   * ParallelAgent, so agents outside of any branch share their history.
+   * 
    * @param parentContext The parent invocation context
    * @returns A new invocation context for this agent
    */
@@ -301,8 +304,6 @@ export abstract class BaseAgent {
     
     if (parentContext.branch) {
       invocationContext.branch = `${parentContext.branch}.${this.name}`;
-    } else {
-      invocationContext.branch = this.name;
     }
     
     return invocationContext;
@@ -0,0 +1,463 @@
+// Graph agent implementation for the Google Agent Development Kit (ADK) in TypeScript
+// Runs agents and functions along the edges of a graph
+
+import { InvocationContext, ReadonlyContext, CallbackContext } from './invocation_context';
+import { Content } from '../models/base_llm';
+import { Event } from '../events/event';
+import { EventActions } from '../events/event_actions';
+import { BaseAgent, BeforeAgentCallback, AfterAgentCallback } from './base_agent';
+import { mergeAgentRun, ParallelErrorMode } from './parallel_agent';
+
+/**
+ * The name of the node every graph starts from, as shown in diagrams.
+ */
+export const GRAPH_START = '__start__';
+
+/**
+ * The name of the node that ends a path through the graph.
+ */
+export const GRAPH_END = '__end__';
+
+/**
+ * A function run as a node of a graph.
+ *
+ * The function can read and write the session state through the context.
+ * Text or content it returns is added to the conversation.
+ *
+ * @param context The callback context of the graph agent
+ * @returns The content of the event generated by the node, if any
+ */
+export type GraphNodeFunction = (
+  context: CallbackContext
+) => Content | string | void | Promise<Content | string | void>;
+
+/**
+ * A node of a graph that runs a function instead of an agent.
+ */
+export interface GraphFunctionNode {
+  /**
+   * The name of the node, unique within the graph.
+   */
+  name: string;
+
+  /**
+   * The function to run.
+   */
+  run: GraphNodeFunction;
+}
+
+/**
+ * A node of a graph: an agent, or a named function.
+ */
+export type GraphNode = BaseAgent | GraphFunctionNode;
+
+/**
+ * Decides whether an edge is followed.
+ *
+ * @param context The context of the graph, with the current session state
+ * @param lastEvent The last event generated by the node the edge starts
+ *   from, or null if it generated none
+ * @returns True to follow the edge
+ */
+export type GraphEdgeCondition = (context: ReadonlyContext, lastEvent: Event | null) => boolean | Promise<boolean>;
+
+/**
+ * An edge between two nodes of a graph.
+ */
+export interface GraphEdge {
+  /**
+   * The node the edge starts from. With several nodes, the edge is a join:
+   * it is followed once all of them have finished.
+   */
+  from: string | string[];
+
+  /**
+   * The node the edge leads to, or GRAPH_END.
+   */
+  to: string;
+
+  /**
+   * Decides whether the edge is followed. Edges without a condition are
+   * always followed.
+   */
+  condition?: GraphEdgeCondition;
+
+  /**
+   * Describes the condition in diagrams.
+   */
+  label?: string;
+}
+
+/**
+ * The progress of a graph, saved in the session state.
+ */
+interface GraphCheckpoint {
+  /**
+   * The nodes of the step that is running.
+   */
+  nodes: string[];
+
+  /**
+   * The sources of each join edge, by index, that have already finished.
+   */
+  joins: Record<number, string[]>;
+}
+
+/**
+ * An agent that runs its nodes along the edges of a graph.
+ *
+ * The graph runs in steps. The first step runs the start node. After each
+ * step, the edges leaving the nodes that ran are evaluated, and the next step
+ * runs every node that an edge leads to. Nodes of the same step run in
+ * parallel, each in its own branch. The graph ends when no edge is followed.
+ *
+ * Edges may form cycles, so the number of steps is limited by `maxSteps`.
+ *
+ * Before each step the nodes about to run are saved in the session state,
+ * under `<name>_checkpoint`. If a run is interrupted, because it failed or a
+ * node is waiting for a long-running tool, the next run of the graph resumes
+ * at those nodes instead of the start node. Nodes of the interrupted step
+ * run again, even if some of them had finished. A checkpoint with nodes the
+ * graph no longer has is replaced by the start node, and a run that exceeds
+ * `maxSteps` clears the checkpoint, so the next run starts over.
+ */
+export class GraphAgent extends BaseAgent {
+  /**
+   * The edges of the graph, evaluated in order.
+   */
+  readonly edges: GraphEdge[];
+
+  /**
+   * The node the graph starts from.
+   */
+  readonly startNode: string;
+
+  /**
+   * The maximum number of steps of a run.
+   */
+  maxSteps: number = 25;
+
+  /**
+   * The nodes of the graph by name.
+   */
+  private readonly nodes = new Map<string, GraphNode>();
+
+  /**
+   * Creates a new GraphAgent.
+   *
+   * Agent nodes become the sub-agents of the graph agent.
+   *
+   * @param options Configuration options for the agent
+   * @param options.startNode The node the graph starts from, defaults to the first node
+   * @throws Error if the nodes or edges do not form a valid graph
+   */
+  constructor(options: {
+    name: string;
+    description?: string;
+    beforeAgentCallback?: BeforeAgentCallback;
+    afterAgentCallback?: AfterAgentCallback;
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+    startNode?: string;
+    maxSteps?: number;
+  }) {
+    super({
+      ...options,
+      subAgents: options.nodes.filter((node): node is BaseAgent => node instanceof BaseAgent)
+    });
+
+    for (const node of options.nodes) {
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(node.name) || node.name === GRAPH_START || node.name === GRAPH_END) {
+        throw new Error(`Invalid node name in graph agent ${this.name}: ${node.name}`);
+      }
+      if (this.nodes.has(node.name)) {
+        throw new Error(`Duplicate node in graph agent ${this.name}: ${node.name}`);
+      }
+      this.nodes.set(node.name, node);
+    }
+
+    for (const edge of options.edges) {
+      for (const name of [...toArray(edge.from), edge.to]) {
+        if (!this.nodes.has(name) && name !== GRAPH_END) {
+          throw new Error(`Edge of graph agent ${this.name} refers to unknown node ${name}`);
+        }
+      }
+      if (toArray(edge.from).length === 0) {
+        throw new Error(`Edge of graph agent ${this.name} to ${edge.to} has no source`);
+      }
+    }
+    this.edges = options.edges;
+
+    const startNode = options.startNode ?? options.nodes[0]?.name;
+    if (!startNode || !this.nodes.has(startNode)) {
+      throw new Error(`Start node of graph agent ${this.name} is not a node of the graph: ${startNode}`);
+    }
+    this.startNode = startNode;
+
+    if (options.maxSteps !== undefined && (!Number.isInteger(options.maxSteps) || options.maxSteps < 1)) {
+      throw new Error(`maxSteps must be a positive integer, got ${options.maxSteps}`);
+    }
+    this.maxSteps = options.maxSteps ?? 25;
+  }
+
+  /**
+   * The session state key the checkpoint of the graph is saved under.
+   */
+  get checkpointKey(): string {
+    return `${this.name}_checkpoint`;
+  }
+
+  /**
+   * Describes the graph as a Mermaid flowchart.
+   *
+   * Conditional edges are drawn dashed.
+   *
+   * @returns The Mermaid source of the flowchart
+   */
+  toMermaid(): string {
+    const lines = ['flowchart TD', `  ${GRAPH_START}([${GRAPH_START}])`];
+    for (const node of this.nodes.values()) {
+      lines.push(node instanceof BaseAgent ? `  ${node.name}[${node.name}]` : `  ${node.name}(${node.name})`);
+    }
+    if (this.edges.some(edge => edge.to === GRAPH_END)) {
+      lines.push(`  ${GRAPH_END}([${GRAPH_END}])`);
+    }
+
+    lines.push(`  ${GRAPH_START} --> ${this.startNode}`);
+    for (const edge of this.edges) {
+      const arrow = edge.condition ? '-.->' : '-->';
+      const label = edge.label ? `|"${edge.label.replace(/"/g, '#quot;')}"|` : '';
+      for (const from of toArray(edge.from)) {
+        lines.push(`  ${from} ${arrow}${label} ${edge.to}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Describes the graph in the Graphviz DOT language.
+   *
+   * Conditional edges are drawn dashed.
+   *
+   * @returns The DOT source of the graph
+   */
+  toDot(): string {
+    const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+    const lines = [`digraph ${quote(this.name)} {`, `  ${quote(GRAPH_START)} [shape=circle];`];
+    for (const node of this.nodes.values()) {
+      lines.push(`  ${quote(node.name)} [shape=${node instanceof BaseAgent ? 'box' : 'ellipse'}];`);
+    }
+    if (this.edges.some(edge => edge.to === GRAPH_END)) {
+      lines.push(`  ${quote(GRAPH_END)} [shape=doublecircle];`);
+    }
+
+    lines.push(`  ${quote(GRAPH_START)} -> ${quote(this.startNode)};`);
+    for (const edge of this.edges) {
+      const attributes = [
+        ...(edge.condition ? ['style=dashed'] : []),
+        ...(edge.label ? [`label=${quote(edge.label)}`] : [])
+      ];
+      const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+      for (const from of toArray(edge.from)) {
+        lines.push(`  ${quote(from)} -> ${quote(edge.to)}${suffix};`);
+      }
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Implementation of the async run method that executes the graph.
+   *
+   * @param ctx The invocation context for the agent execution
+   * @returns An async generator yielding events from the nodes
+   */
+  async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    yield* this.runGraph(ctx, (agent, nodeCtx) => agent.runAsync(nodeCtx));
+  }
+
+  /**
+   * Implementation of the live run method that executes the graph.
+   *
+   * @param ctx The invocation context for the agent execution
+   * @returns An async generator yielding events from the nodes
+   */
+  async *runLiveImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    yield* this.runGraph(ctx, (agent, nodeCtx) => agent.runLive(nodeCtx));
+  }
+
+  /**
+   * Runs the graph step by step, starting from the checkpoint if there is one.
+   *
+   * @param ctx The invocation context for the agent execution
+   * @param startRun Starts the run of an agent node
+   * @returns An async generator yielding events from the nodes and the
+   *   events that save the checkpoint
+   */
+  private async *runGraph(
+    ctx: InvocationContext,
+    startRun: (agent: BaseAgent, nodeCtx: InvocationContext) => AsyncGenerator<Event, void, unknown>
+  ): AsyncGenerator<Event, void, unknown> {
+    let checkpoint = this.loadCheckpoint(ctx);
+    let steps = 0;
+
+    while (checkpoint.nodes.length > 0) {
+      if (steps >= this.maxSteps) {
+        // Do not resume the cycle on the next run
+        yield this.createCheckpointEvent(ctx, null);
+        throw new Error(`Graph agent ${this.name} did not finish within ${this.maxSteps} steps`);
+      }
+      steps += 1;
+
+      yield this.createCheckpointEvent(ctx, checkpoint);
+
+      const nodes = checkpoint.nodes.map(name => this.nodes.get(name)!);
+      const lastEvents = new Map<string, Event>();
+      let paused = false;
+      const runNode = (node: GraphNode): AsyncGenerator<Event, void, unknown> => {
+        // Nodes that run in parallel must not see each other's events. Agents
+        // add their own name to the branch, so only functions need it here.
+        // Within a branch, createInvocationContext already added the graph to it.
+        const parallelBranch = ctx.branch ?? this.name;
+        const nodeCtx = nodes.length === 1
+          ? ctx
+          : ctx.withModifications({
+            branch: node instanceof BaseAgent ? parallelBranch : `${parallelBranch}.${node.name}`
+          });
+        return trackLastEvent(
+          node instanceof BaseAgent ? startRun(node, nodeCtx) : this.runFunctionNode(node, nodeCtx),
+          event => {
+            lastEvents.set(node.name, event);
+            paused = paused || (event.getLongRunningToolIds()?.size ?? 0) > 0;
+          }
+        );
+      };
+
+      if (nodes.length === 1) {
+        yield* runNode(nodes[0]);
+      } else {
+        const options = { maxConcurrency: null, errorMode: ParallelErrorMode.FAIL_FAST, branchTimeoutMs: null };
+        yield* mergeAgentRun(nodes, runNode, options, () => undefined);
+      }
+
+      if (paused || ctx.endInvocation) {
+        // Keep the checkpoint so that the next run resumes at these nodes
+        return;
+      }
+
+      checkpoint = await this.nextStep(ctx, checkpoint, lastEvents);
+    }
+
+    yield this.createCheckpointEvent(ctx, null);
+  }
+
+  /**
+   * Evaluates the edges leaving the nodes of a finished step.
+   *
+   * @returns The checkpoint of the next step
+   */
+  private async nextStep(
+    ctx: InvocationContext,
+    checkpoint: GraphCheckpoint,
+    lastEvents: Map<string, Event>
+  ): Promise<GraphCheckpoint> {
+    const readonlyContext = new ReadonlyContext(ctx);
+    const nodes: string[] = [];
+    const joins: Record<number, string[]> = { ...checkpoint.joins };
+
+    const follow = async (edge: GraphEdge, from: string) => {
+      if (edge.condition && !await edge.condition(readonlyContext, lastEvents.get(from) ?? null)) {
+        return;
+      }
+      if (edge.to !== GRAPH_END && !nodes.includes(edge.to)) {
+        nodes.push(edge.to);
+      }
+    };
+
+    for (const from of checkpoint.nodes) {
+      for (const [index, edge] of this.edges.entries()) {
+        const sources = toArray(edge.from);
+        if (!sources.includes(from)) {
+          continue;
+        }
+
+        if (sources.length === 1) {
+          await follow(edge, from);
+          continue;
+        }
+
+        const finished = joins[index] ?? [];
+        if (!finished.includes(from)) {
+          finished.push(from);
+        }
+        if (sources.every(source => finished.includes(source))) {
+          delete joins[index];
+          await follow(edge, from);
+        } else {
+          joins[index] = finished;
+        }
+      }
+    }
+
+    return { nodes, joins };
+  }
+
+  /**
+   * Runs a function node, and turns its result and state changes into an event.
+   */
+  private async *runFunctionNode(node: GraphFunctionNode, ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    const callbackContext = new CallbackContext(ctx, new EventActions({ stateDelta: {} }));
+    const result = await node.run(callbackContext);
+    const content: Content | null = typeof result === 'string'
+      ? { role: 'model', parts: [{ text: result }] }
+      : result || null;
+
+    if (content || callbackContext.hasStateDelta()) {
+      yield new Event({
+        invocationId: ctx.invocationId,
+        author: this.name,
+        branch: ctx.branch,
+        content,
+        actions: callbackContext.eventActions
+      });
+    }
+  }
+
+  /**
+   * Loads the checkpoint of an interrupted run, or starts at the start node
+   * if there is none or it refers to unknown nodes.
+   */
+  private loadCheckpoint(ctx: InvocationContext): GraphCheckpoint {
+    const saved = ctx.session?.state?.[this.checkpointKey] as GraphCheckpoint | null | undefined;
+    if (saved && saved.nodes?.length > 0 && saved.nodes.every(name => this.nodes.has(name))) {
+      return { nodes: saved.nodes, joins: saved.joins ?? {} };
+    }
+    return { nodes: [this.startNode], joins: {} };
+  }
+
+  private createCheckpointEvent(ctx: InvocationContext, checkpoint: GraphCheckpoint | null): Event {
+    return new Event({
+      invocationId: ctx.invocationId,
+      author: this.name,
+      branch: ctx.branch,
+      actions: new EventActions({ stateDelta: { [this.checkpointKey]: checkpoint } })
+    });
+  }
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+async function* trackLastEvent(
+  events: AsyncGenerator<Event, void, unknown>,
+  onEvent: (event: Event) => void
+): AsyncGenerator<Event, void, unknown> {
+  for await (const event of events) {
+    onEvent(event);
+    yield event;
+  }
+}
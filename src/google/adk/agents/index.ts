@@ -50,10 +50,27 @@ export {
 export { SequentialAgent } from './sequential_agent';
 
 // From parallel_agent.ts
-export { ParallelAgent } from './parallel_agent';
+export { ParallelAgent, ParallelErrorMode } from './parallel_agent';
 
 // From loop_agent.ts
-export { LoopAgent } from './loop_agent';
+export {
+  LoopAgent,
+  LoopStopReason,
+  type LoopStopCondition,
+  type LoopCritic
+} from './loop_agent';
+
+// From graph_agent.ts
+export {
+  GraphAgent,
+  GRAPH_START,
+  GRAPH_END,
+  type GraphNode,
+  type GraphFunctionNode,
+  type GraphNodeFunction,
+  type GraphEdge,
+  type GraphEdgeCondition
+} from './graph_agent';
 
 // From remote_agent.ts
 export { RemoteAgent } from './remote_agent';
\ No newline at end of file
@@ -79,9 +79,16 @@ class AsyncQueue<T> {
    * Gets an item from the queue. If the queue is empty, returns a promise
    * that will be resolved when an item becomes available.
    * 
+   * @param signal Stops waiting for an item, so that the next item is left
+   *   to the other consumers
    * @returns A promise that resolves with the next item from the queue
+   * @throws Error if the signal was aborted before an item became available
    */
-  async get(): Promise<T> {
+  async get(signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      throw new Error('Waiting for the queue was aborted');
+    }
+
     if (this.queue.length > 0) {
       // If there are items in the queue, return one
       return this.queue.shift()!;
@@ -92,8 +99,17 @@ class AsyncQueue<T> {
     }
 
     // Otherwise, return a promise that will be resolved when an item is added
-    return new Promise<T>((resolve) => {
-      this.resolvers.push(resolve);
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.resolvers.splice(this.resolvers.indexOf(resolver), 1);
+        reject(new Error('Waiting for the queue was aborted'));
+      };
+      const resolver = (item: T) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(item);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.resolvers.push(resolver);
     });
   }
 
@@ -167,10 +183,13 @@ export class LiveRequestQueue {
   /**
    * Gets the next request from the queue.
    * 
+   * @param signal Stops waiting for a request, so that the next request is
+   *   left to the other readers of the queue
    * @returns A promise that resolves with the next request from the queue
+   * @throws Error if the signal was aborted before a request arrived
    */
-  async get(): Promise<LiveRequest> {
-    return this.queue.get();
+  async get(signal?: AbortSignal): Promise<LiveRequest> {
+    return this.queue.get(signal);
   }
 
   /**
@@ -4,7 +4,6 @@
 import { BaseAgent, BeforeAgentCallback, AfterAgentCallback } from './base_agent';
 import { InvocationContext, CallbackContext, ReadonlyContext } from './invocation_context';
 import { Event } from '../events/event';
-import { EventActions } from '../events/event_actions';
 import { GenAiContent, LlmRequest, LlmResponse, ChatMessage } from '../models/llm_types';
 import { BaseTool } from '../tools/base_tool';
 import { FunctionTool } from '../tools/function_tool';
@@ -14,6 +13,10 @@ import { BasePlanner } from '../planners/base_planner';
 import { BaseCodeExecutor } from '../code_executors/base_code_executor';
 import { StreamingMode, RunConfig } from './run_config';
 import { LlmRegistry } from '../models/registry';
+import { AgentSchema } from '../models/schema_utils';
+import { BaseLlmFlow } from '../flows/llm_flows/base_llm_flow';
+import { SingleFlow } from '../flows/llm_flows/single_flow';
+import { AutoFlow } from '../flows/llm_flows/auto_flow';
 
 // Type definitions for callbacks
 export type BeforeModelCallback = (
@@ -85,6 +88,8 @@ export class LlmAgent extends BaseAgent {
 
   /**
    * Instructions for the LLM model, guiding the agent's behavior.
+   * Placeholders such as `{key}` or `{artifact.filename}` in string
+   * instructions are filled from the session when the request is built.
    */
   instruction: string | InstructionProvider = '';
 
@@ -121,12 +126,36 @@ export class LlmAgent extends BaseAgent {
   /**
    * The input schema for the agent.
    */
-  inputSchema: unknown = null; // In a real implementation, this would be a proper schema type
+  inputSchema: AgentSchema | null = null;
 
   /**
    * The output schema for the agent.
+   * When set, the model is asked to reply with JSON, and final responses
+   * that do not match the schema are sent back to the model for repair.
    */
-  outputSchema: unknown = null; // In a real implementation, this would be a proper schema type
+  outputSchema: AgentSchema | null = null;
+
+  /**
+   * The session state key the agent's final response is saved under.
+   * With an output schema the parsed object is saved, otherwise the text.
+   */
+  outputKey: string | null = null;
+
+  /**
+   * The number of times a final response that does not match the output
+   * schema is sent back to the model before the run fails.
+   */
+  outputSchemaMaxRetries: number = 2;
+
+  /**
+   * Whether the model is prevented from transferring control to the parent agent.
+   */
+  disallowTransferToParent: boolean = false;
+
+  /**
+   * Whether the model is prevented from transferring control to the peer agents.
+   */
+  disallowTransferToPeers: boolean = false;
 
   /**
    * Callback that is invoked before the model is called.
@@ -169,8 +198,12 @@ export class LlmAgent extends BaseAgent {
     planner?: BasePlanner;
     codeExecutor?: BaseCodeExecutor;
     examples?: unknown[];
-    inputSchema?: unknown;
-    outputSchema?: unknown;
+    inputSchema?: AgentSchema;
+    outputSchema?: AgentSchema;
+    outputKey?: string;
+    outputSchemaMaxRetries?: number;
+    disallowTransferToParent?: boolean;
+    disallowTransferToPeers?: boolean;
     beforeModelCallback?: BeforeModelCallback;
     afterModelCallback?: AfterModelCallback;
     beforeToolCallback?: BeforeToolCallback;
@@ -197,6 +230,10 @@ export class LlmAgent extends BaseAgent {
     this.examples = options.examples || [];
     this.inputSchema = options.inputSchema || null;
     this.outputSchema = options.outputSchema || null;
+    this.outputKey = options.outputKey || null;
+    this.outputSchemaMaxRetries = options.outputSchemaMaxRetries ?? 2;
+    this.disallowTransferToParent = options.disallowTransferToParent ?? false;
+    this.disallowTransferToPeers = options.disallowTransferToPeers ?? false;
     this.beforeModelCallback = options.beforeModelCallback || null;
     this.afterModelCallback = options.afterModelCallback || null;
     this.beforeToolCallback = options.beforeToolCallback || null;
@@ -214,6 +251,33 @@ export class LlmAgent extends BaseAgent {
     }).filter((tool): tool is BaseTool => tool !== null);
   }
 
+  /**
+   * The resolved model of the agent, used by the LLM flows.
+   */
+  get canonicalModel(): BaseLlm {
+    return this.getLlm();
+  }
+
+  /**
+   * The tools of the agent, used by the LLM flows.
+   */
+  get canonicalTools(): BaseTool[] {
+    return this.tools;
+  }
+
+  /**
+   * The flow that runs the agent.
+   *
+   * Agents that can neither transfer to other agents nor be transferred away
+   * from use a SingleFlow, all others use an AutoFlow.
+   */
+  private get llmFlow(): BaseLlmFlow {
+    if (this.disallowTransferToParent && this.disallowTransferToPeers && this.subAgents.length === 0) {
+      return new SingleFlow();
+    }
+    return new AutoFlow();
+  }
+
   /**
    * Gets the LLM model for this agent.
    * If not set, inherits from parent agents.
@@ -316,36 +380,7 @@ export class LlmAgent extends BaseAgent {
   protected override async *runAsyncImpl(
     context: InvocationContext
   ): AsyncGenerator<Event, void, unknown> {
-    // In a real implementation, this would use a flow manager like
-    // SingleFlow or AutoFlow to handle the conversation
-    console.log(`Running LLM agent: ${this.name}`);
-
-    // Basic implementation that just echoes the user's input
-    if (context.userContent) {
-      const content: GenAiContent = {
-        role: this.name,
-        parts: [
-          { text: `Echo from ${this.name}: ${context.userContent?.parts?.[0]?.text || ''}` }
-        ]
-      };
-
-      // Add to chat history
-      this.addMessageToChatHistory({
-        role: this.name,
-        content: content
-      });
-
-      const event = new Event({
-        id: Event.newId(),
-        invocationId: context.invocationId,
-        author: this.name,
-        branch: context.branch,
-        content: content,
-        actions: new EventActions()
-      });
-
-      yield event;
-    }
+    yield* this.llmFlow.runAsync(context);
   }
 
   /**
@@ -357,35 +392,7 @@ export class LlmAgent extends BaseAgent {
   protected override async *runLiveImpl(
     context: InvocationContext
   ): AsyncGenerator<Event, void, unknown> {
-    // In a real implementation, this would handle streaming audio/video
-    console.log(`Running LLM agent in live mode: ${this.name}`);
-
-    // Basic implementation that echoes the user's input
-    if (context.userContent) {
-      const content: GenAiContent = {
-        role: this.name,
-        parts: [
-          { text: `Live echo from ${this.name}: ${context.userContent?.parts?.[0]?.text || ''}` }
-        ]
-      };
-
-      // Add to chat history
-      this.addMessageToChatHistory({
-        role: this.name,
-        content: content
-      });
-
-      const event = new Event({
-        id: Event.newId(),
-        invocationId: context.invocationId,
-        author: this.name,
-        branch: context.branch,
-        content: content,
-        actions: new EventActions()
-      });
-
-      yield event;
-    }
+    yield* this.llmFlow.runLive(context);
   }
 
   // Legacy methods for backward compatibility
@@ -1,15 +1,82 @@
 // Loop agent implementation for the Google Agent Development Kit (ADK) in TypeScript
 // Mirrors the loop agent functionality from the Python SDK
 
-import { InvocationContext } from './invocation_context';
+import { InvocationContext, ReadonlyContext } from './invocation_context';
 import { Event } from '../events/event';
-import { BaseAgent } from './base_agent';
+import { EventActions } from '../events/event_actions';
+import { BaseAgent, BeforeAgentCallback, AfterAgentCallback } from './base_agent';
+
+/**
+ * Why a LoopAgent stopped.
+ */
+export enum LoopStopReason {
+  /**
+   * The loop ran `maxIterations` times.
+   */
+  MAX_ITERATIONS = 'max_iterations',
+
+  /**
+   * A sub-agent escalated.
+   */
+  ESCALATED = 'escalated',
+
+  /**
+   * The stop condition returned true.
+   */
+  STOP_CONDITION = 'stop_condition',
+
+  /**
+   * The critic approved the result.
+   */
+  CRITIC_APPROVED = 'critic_approved',
+
+  /**
+   * An iteration left the session state unchanged.
+   */
+  NO_PROGRESS = 'no_progress',
+
+  /**
+   * The loop ran out of time.
+   */
+  TIME_BUDGET = 'time_budget'
+}
+
+/**
+ * Decides whether a LoopAgent stops after an iteration.
+ *
+ * @param context The context of the loop, with the current session state
+ * @param iteration The number of completed iterations
+ * @returns True to stop the loop
+ */
+export type LoopStopCondition = (context: ReadonlyContext, iteration: number) => boolean | Promise<boolean>;
+
+/**
+ * A sub-agent of a LoopAgent whose final response decides whether the
+ * result of the loop is good enough.
+ */
+export interface LoopCritic {
+  /**
+   * The name of the critic sub-agent.
+   */
+  agentName: string;
+
+  /**
+   * Decides whether the final response of the critic approves the result.
+   * Defaults to checking that the response starts with "APPROVED".
+   */
+  isApproved?: (response: string) => boolean;
+}
 
 /**
  * A shell agent that runs its sub-agents in a loop.
  * 
  * When a sub-agent generates an event with escalate action or max_iterations are
- * reached, the loop agent will stop.
+ * reached, the loop agent will stop. The loop can also stop when a stop
+ * condition holds, when a critic sub-agent approves, when an iteration makes
+ * no progress, or when its time budget is used up.
+ *
+ * The last event of the loop records why it stopped in the session state,
+ * under `<name>_stop_reason`.
  */
 export class LoopAgent extends BaseAgent {
   /**
@@ -18,6 +85,63 @@ export class LoopAgent extends BaseAgent {
    */
   maxIterations: number | null = null;
 
+  /**
+   * Checked after every iteration; the loop stops once it returns true.
+   */
+  stopCondition: LoopStopCondition | null = null;
+
+  /**
+   * The sub-agent whose approval stops the loop.
+   */
+  critic: LoopCritic | null = null;
+
+  /**
+   * Whether the loop stops when an iteration does not change the session state.
+   */
+  stopOnNoProgress: boolean = false;
+
+  /**
+   * The time in milliseconds after which no further sub-agent is started.
+   * A sub-agent that is already running is not interrupted.
+   */
+  maxDurationMs: number | null = null;
+
+  /**
+   * Creates a new LoopAgent.
+   *
+   * @param options Configuration options for the agent
+   */
+  constructor(options: {
+    name: string;
+    description?: string;
+    beforeAgentCallback?: BeforeAgentCallback;
+    afterAgentCallback?: AfterAgentCallback;
+    subAgents?: BaseAgent[];
+    maxIterations?: number;
+    stopCondition?: LoopStopCondition;
+    critic?: LoopCritic;
+    stopOnNoProgress?: boolean;
+    maxDurationMs?: number;
+  }) {
+    super(options);
+
+    if (options.critic && !this.subAgents.some(agent => agent.name === options.critic!.agentName)) {
+      throw new Error(`Critic ${options.critic.agentName} is not a sub-agent of loop agent ${this.name}`);
+    }
+    this.maxIterations = options.maxIterations ?? null;
+    this.stopCondition = options.stopCondition ?? null;
+    this.critic = options.critic ?? null;
+    this.stopOnNoProgress = options.stopOnNoProgress ?? false;
+    this.maxDurationMs = options.maxDurationMs ?? null;
+  }
+
+  /**
+   * The session state key the stop reason is saved under.
+   */
+  get stopReasonKey(): string {
+    return `${this.name}_stop_reason`;
+  }
+
   /**
    * Implementation of the async run method that executes sub-agents in a loop.
    * 
@@ -25,40 +149,98 @@ export class LoopAgent extends BaseAgent {
    * @returns An async generator yielding events from sub-agents
    */
   async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    yield* this.runLoop(ctx, agent => agent.runAsync(ctx));
+  }
+
+  /**
+   * Implementation of the live run method that executes sub-agents in a loop.
+   * 
+   * @param ctx The invocation context for the agent execution
+   * @returns An async generator yielding events from sub-agents
+   */
+  async *runLiveImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    yield* this.runLoop(ctx, agent => agent.runLive(ctx));
+  }
+
+  /**
+   * Runs the sub-agents until one of the stop conditions is met.
+   *
+   * @param ctx The invocation context for the agent execution
+   * @param startRun Starts the run of a sub-agent
+   * @returns An async generator yielding events from sub-agents, followed by
+   *   the event that records the stop reason
+   */
+  private async *runLoop(
+    ctx: InvocationContext,
+    startRun: (agent: BaseAgent) => AsyncGenerator<Event, void, unknown>
+  ): AsyncGenerator<Event, void, unknown> {
+    const startTime = Date.now();
     let timesLooped = 0;
-    
-    while (!this.maxIterations || timesLooped < this.maxIterations) {
+    let stopReason: LoopStopReason | null = null;
+
+    while (!stopReason) {
+      if (this.maxIterations && timesLooped >= this.maxIterations) {
+        stopReason = LoopStopReason.MAX_ITERATIONS;
+        break;
+      }
+
+      const stateBefore = JSON.stringify(ctx.session?.state ?? {});
+
       for (const subAgent of this.subAgents) {
-        const eventGenerator = subAgent.runAsync(ctx);
-        
-        for await (const event of eventGenerator) {
+        if (this.maxDurationMs !== null && Date.now() - startTime >= this.maxDurationMs) {
+          stopReason = LoopStopReason.TIME_BUDGET;
+          break;
+        }
+
+        let finalResponse = '';
+        for await (const event of startRun(subAgent)) {
           yield event;
-          
+
           // Check if the event has escalate action
           if (event.getActions().escalate) {
-            return;
+            stopReason = LoopStopReason.ESCALATED;
+          }
+          if (event.getAuthor() === subAgent.name && event.isFinalResponse()) {
+            finalResponse = getText(event) || finalResponse;
+          }
+        }
+        if (stopReason) {
+          break;
+        }
+
+        if (this.critic && subAgent.name === this.critic.agentName) {
+          const isApproved = this.critic.isApproved ?? (response => /^\s*APPROVED\b/.test(response));
+          if (isApproved(finalResponse)) {
+            stopReason = LoopStopReason.CRITIC_APPROVED;
+            break;
           }
         }
       }
-      
+      if (stopReason) {
+        break;
+      }
+
       timesLooped += 1;
-    }
-  }
 
-  /**
-   * Implementation of the live run method that executes sub-agents in a loop.
-   * 
-   * @param _ctx The invocation context for the agent execution
-   * @returns An async generator yielding events from sub-agents
-   * @throws NotImplementedError This method is not yet implemented
-   */
-  async *runLiveImpl(_ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
-    throw new Error('The behavior for runLive is not defined yet.');
-    // AsyncGenerator requires having at least one yield statement
-    // This code is unreachable but needed for TypeScript
-    // eslint-disable-next-line no-constant-condition
-    if (false) {
-      yield {} as Event;
+      if (this.stopCondition && await this.stopCondition(new ReadonlyContext(ctx), timesLooped)) {
+        stopReason = LoopStopReason.STOP_CONDITION;
+      } else if (this.stopOnNoProgress && JSON.stringify(ctx.session?.state ?? {}) === stateBefore) {
+        stopReason = LoopStopReason.NO_PROGRESS;
+      }
     }
+
+    yield new Event({
+      invocationId: ctx.invocationId,
+      author: this.name,
+      branch: ctx.branch,
+      actions: new EventActions({ stateDelta: { [this.stopReasonKey]: stopReason } })
+    });
   }
-}
\ No newline at end of file
+}
+
+function getText(event: Event): string {
+  return (event.getContent()?.parts || [])
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text)
+    .join('');
+}
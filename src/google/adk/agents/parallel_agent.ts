@@ -3,62 +3,170 @@
 
 import { InvocationContext } from './invocation_context';
 import { Event } from '../events/event';
-import { BaseAgent } from './base_agent';
+import { EventActions } from '../events/event_actions';
+import { BaseAgent, BeforeAgentCallback, AfterAgentCallback } from './base_agent';
 
 /**
- * Sets the branch for the current agent in the invocation context
- * 
- * @param currentAgent The current agent
- * @param invocationContext The invocation context to update
+ * How a ParallelAgent handles sub-agents that fail or time out.
+ */
+export enum ParallelErrorMode {
+  /**
+   * Stop all other sub-agents and fail the run on the first failure.
+   */
+  FAIL_FAST = 'fail_fast',
+
+  /**
+   * Let the other sub-agents finish, and only fail the run if all of them
+   * failed.
+   */
+  COLLECT_ALL = 'collect_all'
+}
+
+/**
+ * Options for merging the runs of the sub-agents.
  */
-function setBranchForCurrentAgent(
-  currentAgent: BaseAgent, 
-  invocationContext: InvocationContext
-): void {
-  invocationContext.branch = invocationContext.branch
-    ? `${invocationContext.branch}.${currentAgent.name}`
-    : currentAgent.name;
+export interface MergeOptions {
+  maxConcurrency: number | null;
+  errorMode: ParallelErrorMode;
+  branchTimeoutMs: number | null;
+}
+
+/**
+ * The outcome of a single step of a sub-agent run.
+ */
+type BranchStep<T> =
+  | { kind: 'event'; branch: Branch<T>; event: Event }
+  | { kind: 'done'; branch: Branch<T> }
+  | { kind: 'error'; branch: Branch<T>; error: unknown };
+
+/**
+ * A running sub-agent.
+ */
+class Branch<T> {
+  /**
+   * The next step of the run.
+   */
+  next: Promise<BranchStep<T>>;
+
+  /**
+   * Resolves with an error step when the run times out.
+   */
+  timeout: Promise<BranchStep<T>> | null = null;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Starts waiting for the first step of a run.
+   *
+   * @param agent The agent that runs
+   * @param generator The run of the agent
+   * @param timeoutMs The time after which the run fails, if any
+   */
+  constructor(
+    readonly agent: T,
+    private readonly generator: AsyncGenerator<Event, void, unknown>,
+    timeoutMs: number | null
+  ) {
+    this.next = this.advance();
+
+    if (timeoutMs) {
+      this.timeout = new Promise(resolve => {
+        this.timer = setTimeout(() => resolve({
+          kind: 'error',
+          branch: this,
+          error: new Error(`timed out after ${timeoutMs} ms`)
+        }), timeoutMs);
+      });
+    }
+  }
+
+  /**
+   * Waits for the next step of the run.
+   */
+  advance(): Promise<BranchStep<T>> {
+    return this.generator.next().then(
+      (result): BranchStep<T> => result.done
+        ? { kind: 'done', branch: this }
+        : { kind: 'event', branch: this, event: result.value },
+      (error): BranchStep<T> => ({ kind: 'error', branch: this, error })
+    );
+  }
+
+  /**
+   * Stops the run and its timeout.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    // The generator may be suspended in an await, so do not wait for it
+    this.generator.return(undefined).catch(() => undefined);
+  }
 }
 
 /**
- * Merges multiple async event generators into a single stream of events.
+ * Merges the runs of multiple agents into a single stream of events.
  * This implementation ensures each agent's events are processed in the order they are generated,
  * while allowing concurrent execution across agents.
+ *
+ * Anything with a name can be run, so that other workflow agents can merge
+ * runs that are not backed by a sub-agent.
  * 
- * @param agentRuns List of async generators yielding events from each agent
+ * @param agents The agents to run
+ * @param startRun Starts the run of an agent
+ * @param options The concurrency, error and timeout options
+ * @param onFailure Called for every agent that failed when errors are collected
  * @returns A merged async generator of events
  */
-async function* mergeAgentRun(
-  agentRuns: AsyncGenerator<Event, void, unknown>[]
+export async function* mergeAgentRun<T extends { name: string }>(
+  agents: T[],
+  startRun: (agent: T) => AsyncGenerator<Event, void, unknown>,
+  options: MergeOptions,
+  onFailure: (agent: T, error: Error) => void
 ): AsyncGenerator<Event, void, unknown> {
-  // Create a promise for each agent run's next event
-  const eventPromises = agentRuns.map(run => {
-    return {
-      generator: run,
-      nextPromise: run.next()
-    };
-  });
-
-  // Continue as long as there are active generators
-  while (eventPromises.length > 0) {
-    // Wait for the first event to be ready from any generator
-    const settledPromises = await Promise.race(
-      eventPromises.map((item, index) => 
-        item.nextPromise.then(result => ({ index, result }))
-      )
-    );
+  const queue = [...agents];
+  const active: Branch<T>[] = [];
+
+  const startBranches = () => {
+    while (queue.length > 0 && (!options.maxConcurrency || active.length < options.maxConcurrency)) {
+      const agent = queue.shift()!;
+      active.push(new Branch(agent, startRun(agent), options.branchTimeoutMs));
+    }
+  };
+
+  const stopBranch = (branch: Branch<T>) => {
+    active.splice(active.indexOf(branch), 1);
+    branch.stop();
+  };
+
+  try {
+    startBranches();
+    while (active.length > 0) {
+      const step = await Promise.race(
+        active.flatMap(branch => branch.timeout ? [branch.next, branch.timeout] : [branch.next])
+      );
+      const branch = step.branch;
+
+      if (step.kind === 'event') {
+        yield step.event;
+        branch.next = branch.advance();
+        continue;
+      }
 
-    const { index, result } = settledPromises;
-
-    if (!result.done) {
-      // Yield the event
-      yield result.value;
-      
-      // Set up the next promise for this generator
-      eventPromises[index].nextPromise = eventPromises[index].generator.next();
-    } else {
-      // Remove the completed generator
-      eventPromises.splice(index, 1);
+      stopBranch(branch);
+      if (step.kind === 'error') {
+        const message = step.error instanceof Error ? step.error.message : String(step.error);
+        const error = new Error(`Sub-agent ${branch.agent.name} failed: ${message}`);
+        if (options.errorMode === ParallelErrorMode.FAIL_FAST) {
+          throw error;
+        }
+        onFailure(branch.agent, error);
+      }
+      startBranches();
+    }
+  } finally {
+    for (const branch of [...active]) {
+      stopBranch(branch);
     }
   }
 }
@@ -71,8 +179,73 @@ async function* mergeAgentRun(
  * 
  * - Running different algorithms simultaneously
  * - Generating multiple responses for review by a subsequent evaluation agent
+ *
+ * Each sub-agent runs in its own branch, so the sub-agents do not see each
+ * other's events. Set `outputKey` to collect their final responses in the
+ * session state for an agent that runs afterwards. When errors are
+ * collected, the failures are saved under `<name>_failures`.
  */
 export class ParallelAgent extends BaseAgent {
+  /**
+   * The maximum number of sub-agents that run at the same time.
+   * If not set, all sub-agents start at once.
+   */
+  maxConcurrency: number | null = null;
+
+  /**
+   * How failing sub-agents are handled.
+   */
+  errorMode: ParallelErrorMode = ParallelErrorMode.FAIL_FAST;
+
+  /**
+   * The time in milliseconds after which a sub-agent that has not finished
+   * is stopped and counted as failed. If not set, sub-agents never time out.
+   */
+  branchTimeoutMs: number | null = null;
+
+  /**
+   * The session state key the final responses of the sub-agents are saved
+   * under, as an object that maps the name of each sub-agent that finished
+   * to the text of its final response.
+   */
+  outputKey: string | null = null;
+
+  /**
+   * Creates a new ParallelAgent.
+   *
+   * @param options Configuration options for the agent
+   */
+  constructor(options: {
+    name: string;
+    description?: string;
+    beforeAgentCallback?: BeforeAgentCallback;
+    afterAgentCallback?: AfterAgentCallback;
+    subAgents?: BaseAgent[];
+    maxConcurrency?: number;
+    errorMode?: ParallelErrorMode;
+    branchTimeoutMs?: number;
+    outputKey?: string;
+  }) {
+    super(options);
+
+    if (options.maxConcurrency !== undefined && (!Number.isInteger(options.maxConcurrency) || options.maxConcurrency < 1)) {
+      throw new Error(`maxConcurrency must be a positive integer, got ${options.maxConcurrency}`);
+    }
+    this.maxConcurrency = options.maxConcurrency ?? null;
+    this.errorMode = options.errorMode ?? ParallelErrorMode.FAIL_FAST;
+    this.branchTimeoutMs = options.branchTimeoutMs ?? null;
+    this.outputKey = options.outputKey ?? null;
+  }
+
+  /**
+   * The session state key the failures of the sub-agents are saved under when
+   * errors are collected, as an object that maps the name of each sub-agent
+   * that failed or timed out to its error message.
+   */
+  get failuresKey(): string {
+    return `${this.name}_failures`;
+  }
+
   /**
    * Implementation of the async run method that executes sub-agents in parallel.
    * 
@@ -80,15 +253,7 @@ export class ParallelAgent extends BaseAgent {
    * @returns An async generator yielding events from sub-agents
    */
   async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
-    setBranchForCurrentAgent(this, ctx);
-    
-    // Start all sub-agents
-    const agentRuns = this.subAgents.map(agent => agent.runAsync(ctx));
-    
-    // Yield events as they become available from any agent
-    for await (const event of mergeAgentRun(agentRuns)) {
-      yield event;
-    }
+    yield* this.runSubAgents(ctx, agent => agent.runAsync(ctx));
   }
 
   /**
@@ -98,14 +263,75 @@ export class ParallelAgent extends BaseAgent {
    * @returns An async generator yielding events from sub-agents
    */
   async *runLiveImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
-    setBranchForCurrentAgent(this, ctx);
-    
-    // Start all sub-agents in live mode
-    const agentRuns = this.subAgents.map(agent => agent.runLive(ctx));
-    
-    // Yield events as they become available from any agent
-    for await (const event of mergeAgentRun(agentRuns)) {
+    yield* this.runSubAgents(ctx, agent => agent.runLive(ctx));
+  }
+
+  /**
+   * Runs the sub-agents and saves their final responses.
+   *
+   * @param ctx The invocation context for the agent execution
+   * @param startRun Starts the run of a sub-agent
+   * @returns An async generator yielding events from sub-agents
+   */
+  private async *runSubAgents(
+    ctx: InvocationContext,
+    startRun: (agent: BaseAgent) => AsyncGenerator<Event, void, unknown>
+  ): AsyncGenerator<Event, void, unknown> {
+    // Within a branch, createInvocationContext already added this agent to it
+    if (!ctx.branch) {
+      ctx.branch = this.name;
+    }
+
+    const subAgentNames = new Set(this.subAgents.map(agent => agent.name));
+    const branchPrefix = `${ctx.branch}.`;
+    const finalResponses: Record<string, string> = {};
+    const failures: Record<string, string> = {};
+
+    const options: MergeOptions = {
+      maxConcurrency: this.maxConcurrency,
+      errorMode: this.errorMode,
+      branchTimeoutMs: this.branchTimeoutMs
+    };
+    const onFailure = (agent: BaseAgent, error: Error) => {
+      failures[agent.name] = error.message;
+      delete finalResponses[agent.name];
+    };
+
+    for await (const event of mergeAgentRun(this.subAgents, startRun, options, onFailure)) {
       yield event;
+
+      // Attribute the event to the sub-agent whose branch it belongs to
+      const subAgentName = event.getBranch()?.startsWith(branchPrefix)
+        ? event.getBranch()!.substring(branchPrefix.length).split('.')[0]
+        : null;
+      const text = (event.getContent()?.parts || [])
+        .filter(part => part.text && !part.thought)
+        .map(part => part.text)
+        .join('');
+      if (subAgentName && subAgentNames.has(subAgentName) && event.isFinalResponse() && text) {
+        finalResponses[subAgentName] = text;
+      }
+    }
+
+    const failureMessages = Object.values(failures);
+    if (this.subAgents.length > 0 && failureMessages.length === this.subAgents.length) {
+      throw new Error(`All sub-agents of parallel agent ${this.name} failed: ${failureMessages.join('; ')}`);
+    }
+
+    const stateDelta: Record<string, unknown> = {};
+    if (this.outputKey) {
+      stateDelta[this.outputKey] = finalResponses;
+    }
+    if (failureMessages.length > 0) {
+      stateDelta[this.failuresKey] = failures;
+    }
+    if (Object.keys(stateDelta).length > 0) {
+      yield new Event({
+        invocationId: ctx.invocationId,
+        author: this.name,
+        branch: ctx.branch,
+        actions: new EventActions({ stateDelta })
+      });
     }
   }
-}
\ No newline at end of file
+}
@@ -11,6 +11,18 @@ export enum StreamingMode {
   BIDI = 'bidi'
 }
 
+/**
+ * MemoryTrigger enum for controlling when the runner saves a session to memory.
+ */
+export enum MemoryTrigger {
+  /** Save the session after every completed run. */
+  RUN_COMPLETE = 'run_complete',
+  /** Save the session after every `memoryTurnInterval` user turns. */
+  EVERY_N_TURNS = 'every_n_turns',
+  /** Save the session only when it is closed through the runner. */
+  SESSION_CLOSE = 'session_close'
+}
+
 /**
  * Speech configuration for the LLM response.
  */
@@ -90,7 +102,19 @@ export class RunConfig {
   saveMemory: boolean = true;
 
   /**
-   * Whether to load from memory service.
+   * When the runner saves the session to the memory service.
+   * Only applies if saveMemory is true.
+   */
+  memoryTrigger: MemoryTrigger = MemoryTrigger.RUN_COMPLETE;
+
+  /**
+   * The number of user turns between saves for MemoryTrigger.EVERY_N_TURNS.
+   */
+  memoryTurnInterval: number = 1;
+
+  /**
+   * Whether to load from memory service. Memory tools return no memories
+   * when this is false.
    */
   loadMemory: boolean = true;
 
@@ -102,6 +126,10 @@ export class RunConfig {
   constructor(options: Partial<RunConfig> = {}) {
     Object.assign(this, options);
 
+    if (!Number.isInteger(this.memoryTurnInterval) || this.memoryTurnInterval < 1) {
+      throw new Error('memoryTurnInterval should be a positive integer.');
+    }
+
     // Validate maxLlmCalls
     if (this.maxLlmCalls === Number.MAX_SAFE_INTEGER) {
       throw new Error(`maxLlmCalls should be less than ${Number.MAX_SAFE_INTEGER}.`);
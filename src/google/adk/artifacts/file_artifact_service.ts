@@ -0,0 +1,344 @@
+// File artifact service module for the Google Agent Development Kit (ADK) in TypeScript
+// Stores artifacts on the local disk so that they survive restarts
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AdkPart } from '../models/base_llm';
+import { BaseArtifactService } from './base_artifact_service';
+
+/**
+ * Metadata stored for each version of an artifact.
+ */
+export interface ArtifactVersionMetadata {
+  /**
+   * The version number of the artifact.
+   */
+  version: number;
+
+  /**
+   * The SHA-256 hash of the blob holding the artifact data.
+   */
+  hash: string;
+
+  /**
+   * The MIME type of the artifact data.
+   */
+  mimeType: string;
+
+  /**
+   * The size of the blob in bytes.
+   */
+  size: number;
+
+  /**
+   * The time the version was saved, in milliseconds since the epoch.
+   */
+  createTime: number;
+
+  /**
+   * The saved Part without its inline data, or undefined if the artifact
+   * was not a Part with inline data and the blob holds the artifact as JSON.
+   */
+  part?: AdkPart;
+}
+
+/**
+ * An artifact service that stores artifacts on the local file system.
+ *
+ * Every version of an artifact is described by a metadata file stored under
+ * `<rootDir>/artifacts/<app>/<user>/sessions/<session>/<filename>/<version>.json`,
+ * or under `<rootDir>/artifacts/<app>/<user>/user/<filename>/` for
+ * `user:`-namespaced artifacts, which are shared across a user's sessions.
+ *
+ * The artifact data itself is stored once per distinct content in
+ * `<rootDir>/blobs/<sha256>`, so saving identical data again does not use
+ * additional space.
+ */
+export class FileArtifactService extends BaseArtifactService {
+  /**
+   * The directory that holds the artifact metadata.
+   */
+  private readonly artifactsDir: string;
+
+  /**
+   * The directory that holds the content-addressed blobs.
+   */
+  private readonly blobsDir: string;
+
+  /**
+   * Creates a new FileArtifactService.
+   *
+   * @param rootDir The directory to store artifacts in, created if missing
+   */
+  constructor(readonly rootDir: string) {
+    super();
+    this.artifactsDir = path.join(rootDir, 'artifacts');
+    this.blobsDir = path.join(rootDir, 'blobs');
+  }
+
+  async saveArtifact(appName: string, userId: string, sessionId: string, filename: string, artifact: unknown): Promise<number> {
+    const { data, mimeType, part } = this.encodeArtifact(artifact);
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    await this.writeBlob(hash, data);
+
+    const dir = this.artifactDir(appName, userId, sessionId, filename);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    // Claim the next version number; retry if a concurrent save took it
+    for (;;) {
+      const versions = await this.readVersions(dir);
+      const version = versions.length > 0 ? versions[versions.length - 1] + 1 : 0;
+      const metadata: ArtifactVersionMetadata = {
+        version,
+        hash,
+        mimeType,
+        size: data.length,
+        createTime: Date.now(),
+        part
+      };
+
+      try {
+        await fs.promises.writeFile(this.versionPath(dir, version), JSON.stringify(metadata), { flag: 'wx' });
+        return version;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async loadArtifact(appName: string, userId: string, sessionId: string, filename: string, version?: number): Promise<unknown> {
+    const metadata = await this.getArtifactMetadata(appName, userId, sessionId, filename, version);
+    if (!metadata) {
+      return null;
+    }
+
+    const data = await fs.promises.readFile(this.blobPath(metadata.hash));
+    if (!metadata.part) {
+      return JSON.parse(data.toString('utf8'));
+    }
+
+    return {
+      ...metadata.part,
+      inlineData: {
+        ...metadata.part.inlineData,
+        mimeType: metadata.mimeType,
+        data: data.toString('base64')
+      }
+    };
+  }
+
+  async listArtifactKeys(appName: string, userId: string, sessionId: string): Promise<string[]> {
+    const sessionDir = path.join(this.userDir(appName, userId), 'sessions', encodeSegment(sessionId));
+    const userNamespaceDir = path.join(this.userDir(appName, userId), 'user');
+
+    const filenames = [
+      ...await this.readFilenames(sessionDir),
+      ...await this.readFilenames(userNamespaceDir)
+    ];
+
+    return filenames.sort();
+  }
+
+  async deleteArtifact(appName: string, userId: string, sessionId: string, filename: string): Promise<void> {
+    const dir = this.artifactDir(appName, userId, sessionId, filename);
+    const hashes = new Set<string>();
+
+    for (const version of await this.readVersions(dir)) {
+      const metadata = await this.readMetadata(dir, version);
+      if (metadata) {
+        hashes.add(metadata.hash);
+      }
+    }
+
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    await this.removeUnreferencedBlobs(hashes);
+  }
+
+  async listVersions(appName: string, userId: string, sessionId: string, filename: string): Promise<number[]> {
+    return this.readVersions(this.artifactDir(appName, userId, sessionId, filename));
+  }
+
+  /**
+   * Gets the metadata of an artifact version without reading its data.
+   *
+   * @param appName The application name
+   * @param userId The user ID
+   * @param sessionId The session ID
+   * @param filename The filename of the artifact
+   * @param version Optional version of the artifact (if undefined, latest version is used)
+   * @returns The metadata, or null if the artifact or version does not exist
+   */
+  async getArtifactMetadata(
+    appName: string,
+    userId: string,
+    sessionId: string,
+    filename: string,
+    version?: number
+  ): Promise<ArtifactVersionMetadata | null> {
+    const dir = this.artifactDir(appName, userId, sessionId, filename);
+
+    if (version === undefined) {
+      const versions = await this.readVersions(dir);
+      if (versions.length === 0) {
+        return null;
+      }
+      version = versions[versions.length - 1];
+    }
+
+    return this.readMetadata(dir, version);
+  }
+
+  private fileHasUserNamespace(filename: string): boolean {
+    return filename.startsWith('user:');
+  }
+
+  private userDir(appName: string, userId: string): string {
+    return path.join(this.artifactsDir, encodeSegment(appName), encodeSegment(userId));
+  }
+
+  private artifactDir(appName: string, userId: string, sessionId: string, filename: string): string {
+    if (this.fileHasUserNamespace(filename)) {
+      return path.join(this.userDir(appName, userId), 'user', encodeSegment(filename));
+    }
+    return path.join(this.userDir(appName, userId), 'sessions', encodeSegment(sessionId), encodeSegment(filename));
+  }
+
+  private versionPath(dir: string, version: number): string {
+    return path.join(dir, `${version}.json`);
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.blobsDir, hash);
+  }
+
+  /**
+   * Splits an artifact into the bytes to store as a blob and its metadata.
+   *
+   * Parts with inline data store the decoded bytes, so that the same file
+   * saved under different names or Part fields shares one blob. Any other
+   * artifact is stored as JSON.
+   */
+  private encodeArtifact(artifact: unknown): { data: Buffer; mimeType: string; part?: AdkPart } {
+    const inlineData = (artifact as AdkPart | null)?.inlineData;
+
+    if (inlineData && typeof inlineData.data === 'string') {
+      const { data, ...inlineMetadata } = inlineData;
+      return {
+        data: Buffer.from(data, 'base64'),
+        mimeType: inlineData.mimeType || 'application/octet-stream',
+        part: { ...(artifact as AdkPart), inlineData: inlineMetadata }
+      };
+    }
+
+    return {
+      data: Buffer.from(JSON.stringify(artifact), 'utf8'),
+      mimeType: 'application/json'
+    };
+  }
+
+  private async writeBlob(hash: string, data: Buffer): Promise<void> {
+    const blobPath = this.blobPath(hash);
+    if (await pathExists(blobPath)) {
+      return;
+    }
+
+    // Write to a temporary file first so a blob is never observed half-written
+    await fs.promises.mkdir(this.blobsDir, { recursive: true });
+    const tmpPath = `${blobPath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(tmpPath, data);
+    await fs.promises.rename(tmpPath, blobPath);
+  }
+
+  private async readMetadata(dir: string, version: number): Promise<ArtifactVersionMetadata | null> {
+    try {
+      const content = await fs.promises.readFile(this.versionPath(dir, version), 'utf8');
+      return JSON.parse(content) as ArtifactVersionMetadata;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async readVersions(dir: string): Promise<number[]> {
+    const entries = await readDirectory(dir);
+    return entries
+      .filter(entry => /^\d+\.json$/.test(entry))
+      .map(entry => parseInt(entry, 10))
+      .sort((a, b) => a - b);
+  }
+
+  private async readFilenames(dir: string): Promise<string[]> {
+    const filenames: string[] = [];
+    for (const entry of await readDirectory(dir)) {
+      if ((await this.readVersions(path.join(dir, entry))).length > 0) {
+        filenames.push(decodeURIComponent(entry));
+      }
+    }
+    return filenames;
+  }
+
+  /**
+   * Removes the blobs with the given hashes that no artifact version refers to.
+   */
+  private async removeUnreferencedBlobs(hashes: Set<string>): Promise<void> {
+    if (hashes.size === 0) {
+      return;
+    }
+
+    const visit = async (dir: string): Promise<void> => {
+      for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await visit(entryPath);
+        } else if (entry.name.endsWith('.json')) {
+          const content = await fs.promises.readFile(entryPath, 'utf8');
+          hashes.delete((JSON.parse(content) as ArtifactVersionMetadata).hash);
+        }
+        if (hashes.size === 0) {
+          return;
+        }
+      }
+    };
+
+    if (await pathExists(this.artifactsDir)) {
+      await visit(this.artifactsDir);
+    }
+
+    for (const hash of hashes) {
+      await fs.promises.rm(this.blobPath(hash), { force: true });
+    }
+  }
+}
+
+/**
+ * Encodes a name so it can be used as a single path segment.
+ */
+function encodeSegment(name: string): string {
+  const encoded = encodeURIComponent(name);
+  return encoded === '.' || encoded === '..' ? encoded.replace(/\./g, '%2E') : encoded;
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readDirectory(dir: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as NodeJS.ErrnoException).code === 'ENOTDIR') {
+      return [];
+    }
+    throw error;
+  }
+}
@@ -2,3 +2,4 @@
 
 export * from './base_artifact_service';
 export * from './in_memory_artifact_service';
+export * from './file_artifact_service';
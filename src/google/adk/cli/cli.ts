@@ -161,7 +161,7 @@ export async function runCli(options: RunCliOptions): Promise<void> {
 
   const artifactService = new InMemoryArtifactService();
   const sessionService = new InMemorySessionService();
-  const session = sessionService.createSession(agentFolderName, 'test_user');
+  const session = await sessionService.createSession(agentFolderName, 'test_user');
 
   try {
     // This is a simplistic approach - in a real implementation,
@@ -241,7 +241,7 @@ export async function runCli(options: RunCliOptions): Promise<void> {
       }
 
       // Fetch the session again to get all the details
-      const updatedSession = sessionService.getSession(
+      const updatedSession = await sessionService.getSession(
         session.appName,
         session.userId,
         session.id
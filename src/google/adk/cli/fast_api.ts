@@ -1,12 +1,19 @@
 // FastAPI implementation for the Google Agent Development Kit (ADK) in TypeScript
-// Mirrors the FastAPI functionality from the Python SDK but adapted for Express/Node.js
+// Mirrors the FastAPI functionality from the Python SDK on top of the Node.js http module
 
+import * as http from 'http';
 import * as path from 'path';
 import * as fs from 'fs';
-import { InMemoryArtifactService } from '../artifacts';
-import { InMemorySessionService, BaseSessionService } from '../sessions'; // Added BaseSessionService import
+import { AddressInfo } from 'net';
+import { Content } from '@google/genai';
+import { WebSocket, WebSocketServer } from 'ws';
+import { BaseAgent } from '../agents/base_agent';
+import { LiveRequest, LiveRequestQueue } from '../agents/live_request_queue';
+import { BaseArtifactService, InMemoryArtifactService } from '../artifacts';
+import { BaseMemoryService, InMemoryMemoryService } from '../memory';
+import { InMemorySessionService, BaseSessionService, DatabaseSessionService } from '../sessions';
 import { Runner } from '../runners';
-import { RunConfig, StreamingMode } from '../agents/run_config'; // Explicitly import RunConfig
+import { RunConfig, StreamingMode } from '../agents/run_config';
 
 /**
  * FastAPI server configuration options
@@ -17,142 +24,618 @@ export interface FastApiOptions {
   allowOrigins?: string[];
   web: boolean;
   traceToCloud: boolean;
-  lifespan?: any; // Would be a properly typed function in a real implementation
+  lifespan?: unknown; // Would be a properly typed function in a real implementation
+
+  /**
+   * The largest request body in bytes the endpoints accept. Defaults to 1 MB.
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * Loads the root agent of an app. Defaults to importing `<agentDir>/<appName>`
+   * and reading its `agent.rootAgent` export.
+   */
+  agentLoader?: (appName: string) => Promise<BaseAgent>;
+}
+
+/**
+ * Request body of the /run and /run_sse endpoints.
+ */
+export interface AgentRunRequest {
+  appName: string;
+  userId: string;
+  sessionId: string;
+  newMessage: Content;
+  streaming?: boolean;
+}
+
+/**
+ * The API server returned by getFastApiApp.
+ */
+export interface FastApiApp {
+  /**
+   * The underlying Node.js HTTP server.
+   */
+  server: http.Server;
+
+  /**
+   * The session service used by the endpoints.
+   */
+  sessionService: BaseSessionService;
+
+  /**
+   * The artifact service used by the endpoints.
+   */
+  artifactService: BaseArtifactService;
+
+  /**
+   * The memory service used by the endpoints.
+   */
+  memoryService: BaseMemoryService;
+
+  /**
+   * Starts listening for requests.
+   *
+   * @param port The port to listen on, 0 picks a free port
+   * @param host The host to bind to
+   * @returns The address the server listens on
+   */
+  listen(port?: number, host?: string): Promise<AddressInfo>;
+
+  /**
+   * Stops the server and releases its resources.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * An error that is reported to the client with the given HTTP status.
+ */
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Context passed to route handlers.
+ */
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+}
+
+/**
+ * A route handler returns the JSON response body, or undefined if it has
+ * written the response itself.
+ */
+type RouteHandler = (ctx: RouteContext) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
 }
 
 /**
  * Creates a FastAPI server application
  *
  * @param options The server configuration options
- * @returns A FastAPI application (in TypeScript we would return an Express app)
+ * @returns The API server, not yet listening
  */
-export function getFastApiApp(options: FastApiOptions): any {
-  const { agentDir, sessionDbUrl, traceToCloud } = options;
-
-  // In a real implementation, we would create an Express application here
-  // For now, we'll just define the structure and main components
+export function getFastApiApp(options: FastApiOptions): FastApiApp {
+  const { agentDir, sessionDbUrl, traceToCloud, allowOrigins } = options;
+  const maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
 
   // Set up session service based on the provided URL
-  const sessionService: BaseSessionService = new InMemorySessionService(); // Initialize by default
+  let sessionService: BaseSessionService = new InMemorySessionService(); // Initialize by default
   if (sessionDbUrl) {
     if (sessionDbUrl.startsWith('agentengine://')) {
       // Use Vertex AI session service for Google Cloud
       const resourceId = sessionDbUrl.replace('agentengine://', '');
       // sessionService = new VertexAiSessionService(resourceId); // Uncomment and implement if needed
-      console.log(`Using Vertex AI session service with resource ID ${resourceId}`);
+      console.log(`Vertex AI session service is not supported yet (resource ID ${resourceId}), using in-memory session service`);
     } else {
       // Use database session service for other database URLs
-      // sessionService = new DatabaseSessionService(sessionDbUrl); // Uncomment and implement if needed
+      sessionService = new DatabaseSessionService(sessionDbUrl);
       console.log(`Using database session service with URL ${sessionDbUrl}`);
     }
+  } else {
+    console.log('Using in-memory session service');
   }
-  console.log('Using in-memory session service'); // This line was duplicated, moved it here
 
-  // Set up artifact service
+  // Set up artifact and memory services
   const artifactService = new InMemoryArtifactService();
+  const memoryService = new InMemoryMemoryService();
 
   // Set up tracing if enabled
-  // const _traceDict: Record<string, any> = {};
   if (traceToCloud) {
     // Set up cloud tracing (implementation would depend on the cloud provider)
     console.log('Cloud tracing enabled');
   }
 
-  // Define API endpoints (in Express this would be with app.get(), app.post(), etc.)
+  const agentLoader = options.agentLoader || (async (appName: string): Promise<BaseAgent> => {
+    const agentModule = await import(path.join(agentDir, appName));
+    return agentModule.agent.rootAgent as BaseAgent;
+  });
 
-  // Health endpoint
-  const healthEndpoint = () => {
-    return { status: 'ok' };
+  // One runner per app, created on first use
+  const runners = new Map<string, Promise<Runner>>();
+  const getRunner = (appName: string): Promise<Runner> => {
+    // App names come from requests, so they must not reach outside of the agent directory
+    if (!appName || /[/\\]/.test(appName) || appName.includes('..')) {
+      return Promise.reject(new HttpError(404, `App not found: ${appName}`));
+    }
+
+    let runner = runners.get(appName);
+    if (!runner) {
+      runner = agentLoader(appName).then(agent => new Runner({
+        appName,
+        agent,
+        artifactService,
+        sessionService,
+        memoryService
+      }));
+      runner.catch(() => runners.delete(appName));
+      runners.set(appName, runner);
+    }
+    return runner;
+  };
+
+  const getSessionOrThrow = async (appName: string, userId: string, sessionId: string) => {
+    const session = await sessionService.getSession(appName, userId, sessionId);
+    if (!session) {
+      throw new HttpError(404, 'Session not found');
+    }
+    return session;
   };
 
-  // List agents endpoint
-  const listAgentsEndpoint = () => {
-    // List all agents in the agent directory
-    const agentFolders = fs.readdirSync(agentDir)
+  const parseRunRequest = async (req: http.IncomingMessage): Promise<AgentRunRequest> => {
+    const body = await readJsonBody(req, maxBodyBytes) as Partial<AgentRunRequest>;
+    for (const field of ['appName', 'userId', 'sessionId'] as const) {
+      if (typeof body[field] !== 'string' || !body[field]) {
+        throw new HttpError(400, `Missing required field: ${field}`);
+      }
+    }
+    if (!body.newMessage || !Array.isArray(body.newMessage.parts)) {
+      throw new HttpError(400, 'Missing required field: newMessage');
+    }
+    return body as AgentRunRequest;
+  };
+
+  const routes: Route[] = [];
+  const route = (method: string, pathPattern: string, handler: RouteHandler) => {
+    routes.push({ method, ...compilePath(pathPattern), handler });
+  };
+
+  const sessionPath = '/apps/:appName/users/:userId/sessions/:sessionId';
+
+  route('GET', '/health', async () => ({ status: 'ok' }));
+
+  route('GET', '/list-apps', async () => {
+    if (!fs.existsSync(agentDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(agentDir)
       .filter(folder => {
         const folderPath = path.join(agentDir, folder);
         return fs.statSync(folderPath).isDirectory() &&
-          fs.existsSync(path.join(folderPath, 'agent.ts'));
+          (fs.existsSync(path.join(folderPath, 'agent.ts')) || fs.existsSync(path.join(folderPath, 'agent.js')));
+      })
+      .sort();
+  });
+
+  route('GET', '/apps/:appName/users/:userId/sessions', async ({ params }) => {
+    const response = await sessionService.listSessions(params.appName, params.userId);
+    return response.sessions;
+  });
+
+  route('POST', '/apps/:appName/users/:userId/sessions', async ({ params, req }) => {
+    const state = await readJsonBody(req, maxBodyBytes, {}) as Record<string, unknown>;
+    return sessionService.createSession(params.appName, params.userId, state);
+  });
+
+  route('POST', sessionPath, async ({ params, req }) => {
+    if (await sessionService.getSession(params.appName, params.userId, params.sessionId)) {
+      throw new HttpError(400, `Session already exists: ${params.sessionId}`);
+    }
+    const state = await readJsonBody(req, maxBodyBytes, {}) as Record<string, unknown>;
+    return sessionService.createSession(params.appName, params.userId, state, params.sessionId);
+  });
+
+  route('GET', sessionPath, async ({ params }) =>
+    getSessionOrThrow(params.appName, params.userId, params.sessionId)
+  );
+
+  route('DELETE', sessionPath, async ({ params }) => {
+    await sessionService.deleteSession(params.appName, params.userId, params.sessionId);
+    return null;
+  });
+
+  route('GET', `${sessionPath}/artifacts`, async ({ params }) =>
+    artifactService.listArtifactKeys(params.appName, params.userId, params.sessionId)
+  );
+
+  route('GET', `${sessionPath}/artifacts/:artifactName`, async ({ params, query }) => {
+    const version = query.has('version') ? parseVersion(query.get('version') || '') : undefined;
+    const artifact = await artifactService.loadArtifact(
+      params.appName, params.userId, params.sessionId, params.artifactName, version
+    );
+    if (artifact === null || artifact === undefined) {
+      throw new HttpError(404, 'Artifact not found');
+    }
+    return artifact;
+  });
+
+  route('GET', `${sessionPath}/artifacts/:artifactName/versions`, async ({ params }) =>
+    artifactService.listVersions(params.appName, params.userId, params.sessionId, params.artifactName)
+  );
+
+  route('GET', `${sessionPath}/artifacts/:artifactName/versions/:versionId`, async ({ params }) => {
+    const artifact = await artifactService.loadArtifact(
+      params.appName, params.userId, params.sessionId, params.artifactName, parseVersion(params.versionId)
+    );
+    if (artifact === null || artifact === undefined) {
+      throw new HttpError(404, 'Artifact not found');
+    }
+    return artifact;
+  });
+
+  route('DELETE', `${sessionPath}/artifacts/:artifactName`, async ({ params }) => {
+    await artifactService.deleteArtifact(params.appName, params.userId, params.sessionId, params.artifactName);
+    return null;
+  });
+
+  route('POST', '/run', async ({ req }) => {
+    const request = await parseRunRequest(req);
+    await getSessionOrThrow(request.appName, request.userId, request.sessionId);
+    const runner = await getRunner(request.appName);
+
+    const events = [];
+    for await (const event of runner.runAsync({
+      userId: request.userId,
+      sessionId: request.sessionId,
+      newMessage: request.newMessage
+    })) {
+      events.push(event);
+    }
+    return events;
+  });
+
+  route('POST', '/run_sse', async ({ req, res }) => {
+    const request = await parseRunRequest(req);
+    await getSessionOrThrow(request.appName, request.userId, request.sessionId);
+    const runner = await getRunner(request.appName);
+
+    const runConfig = new RunConfig({
+      streamingMode: request.streaming ? StreamingMode.SSE : StreamingMode.NONE
+    });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    // Stop running the agent once the client has gone away
+    let clientClosed = false;
+    res.on('close', () => {
+      clientClosed = true;
+    });
+
+    try {
+      for await (const event of runner.runAsync({
+        userId: request.userId,
+        sessionId: request.sessionId,
+        newMessage: request.newMessage,
+        runConfig
+      })) {
+        if (clientClosed) {
+          break;
+        }
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+    } catch (error) {
+      console.error('Error in event generator:', error);
+      if (!clientClosed) {
+        res.write(`data: ${JSON.stringify({ error: errorMessage(error) })}\n\n`);
+      }
+    }
+
+    res.end();
+    return undefined;
+  });
+
+  // Live sessions: /run_live?appName=...&userId=...&sessionId=...&modalities=TEXT,AUDIO
+  // Every message from the client is a JSON LiveRequest, every message to the
+  // client is a JSON event. Closing the socket closes the LiveRequestQueue.
+  const liveServer = new WebSocketServer({ noServer: true });
+
+  const handleLiveSocket = async (ws: WebSocket, query: URLSearchParams): Promise<void> => {
+    const appName = query.get('appName') || '';
+    const userId = query.get('userId') || '';
+    const sessionId = query.get('sessionId') || '';
+    const liveRequestQueue = new LiveRequestQueue();
+
+    // Listen right away so that requests sent before the run starts are queued
+    let socketClosed = false;
+    ws.on('close', () => {
+      socketClosed = true;
+      liveRequestQueue.close();
+    });
+    ws.on('message', data => {
+      let request: LiveRequest;
+      try {
+        request = new LiveRequest(JSON.parse(data.toString()));
+      } catch {
+        ws.close(1007, 'Invalid live request');
+        return;
+      }
+      liveRequestQueue.send(request);
+    });
+
+    try {
+      if (!await sessionService.getSession(appName, userId, sessionId)) {
+        ws.close(1002, 'Session not found');
+        return;
+      }
+
+      const runner = await getRunner(appName);
+      const modalities = query.get('modalities');
+      const runConfig = new RunConfig({
+        responseModalities: modalities ? modalities.split(',') : undefined
       });
 
-    return { agents: agentFolders };
-  };
+      for await (const event of runner.runLive({ userId, sessionId, runConfig, liveRequestQueue })) {
+        if (socketClosed) {
+          break;
+        }
+        ws.send(JSON.stringify(event));
+      }
 
-  // Create session endpoint
-  const createSessionEndpoint = (appName: string, userId: string) => {
-    const session = sessionService.createSession(appName, userId);
-    return {
-      sessionId: session.id,
-      userId: session.userId,
-      appName: session.appName,
-      createdAt: session.lastUpdateTime
-    };
+      if (!socketClosed) {
+        ws.close(1000);
+      }
+    } catch (error) {
+      console.error('Error in live session:', error);
+      if (!socketClosed) {
+        // Close reasons are limited to 123 bytes
+        ws.close(1011, errorMessage(error).substring(0, 120));
+      }
+    }
   };
 
-  // Get session endpoint
-  const getSessionEndpoint = (appName: string, userId: string, sessionId: string) => {
-    const session = sessionService.getSession(appName, userId, sessionId);
-    if (!session) {
-      throw new Error('Session not found');
+  const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    // Only explicitly listed origins may send credentials, a wildcard allows any origin without them
+    const origin = req.headers.origin;
+    if (origin && allowOrigins?.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+      res.setHeader('Vary', 'Origin');
+    } else if (allowOrigins?.includes('*')) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
     }
-    return session;
-  };
 
-  // Send message endpoint
-  const sendMessageEndpoint = async (
-    appName: string,
-    userId: string,
-    sessionId: string,
-    message: string,
-    streamingMode: StreamingMode = StreamingMode.SSE
-  ) => {
+    if (req.method === 'OPTIONS') {
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || 'Content-Type');
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
     try {
-      // Import the agent module
-      const agentModulePath = path.join(agentDir, appName);
-      const agentModule = await import(agentModulePath);
-      const rootAgent = agentModule.agent.rootAgent;
+      const match = matchRoute(routes, req.method || 'GET', url.pathname);
+      const body = await match.route.handler({ params: match.params, query: url.searchParams, req, res });
+      if (body !== undefined) {
+        sendJson(res, 200, body);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { detail: error.message });
+      } else {
+        console.error(`Error handling ${req.method} ${url.pathname}:`, error);
+        sendJson(res, 500, { detail: errorMessage(error) });
+      }
+    }
+  };
 
-      // Create a runner
-      const runner = new Runner({
-        appName,
-        agent: rootAgent,
-        artifactService,
-        sessionService
+  const server = http.createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/run_live' || !isUpgradeOriginAllowed(req, allowOrigins)) {
+      socket.destroy();
+      return;
+    }
+
+    liveServer.handleUpgrade(req, socket, head, ws => {
+      void handleLiveSocket(ws, url.searchParams);
+    });
+  });
+
+  return {
+    server,
+    sessionService,
+    artifactService,
+    memoryService,
+    listen: (port = 8000, host = '127.0.0.1') => new Promise<AddressInfo>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve(server.address() as AddressInfo);
       });
+    }),
+    close: () => new Promise<void>((resolve, reject) => {
+      for (const client of liveServer.clients) {
+        client.terminate();
+      }
+      liveServer.close();
 
-      // Create the message content
-      const content = {
-        role: 'user',
-        parts: [{ text: message }]
-      };
+      server.close(error => {
+        if (sessionService instanceof DatabaseSessionService) {
+          sessionService.close();
+        }
+        if (error && (error as NodeJS.ErrnoException).code !== 'ERR_SERVER_NOT_RUNNING') {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    })
+  };
+}
 
-      // Create a RunConfig instance and set streamingMode
-      const runConfig = new RunConfig();
-      runConfig.streamingMode = streamingMode;
+/**
+ * Checks whether a WebSocket upgrade may open a live session.
+ *
+ * Browsers do not apply CORS to WebSockets, so any page could otherwise open
+ * a live session on the local server. Upgrades are allowed from clients that
+ * send no Origin, which are not browsers, from the server's own origin and
+ * from the allowed origins.
+ */
+function isUpgradeOriginAllowed(req: http.IncomingMessage, allowOrigins?: string[]): boolean {
+  const origin = req.headers.origin;
+  if (!origin || allowOrigins?.includes('*') || allowOrigins?.includes(origin)) {
+    return true;
+  }
 
-      // Run the agent and collect events
-      const events = [];
-      for await (const event of runner.runAsync({ userId, sessionId, newMessage: content, runConfig })) {
-        events.push(event);
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compiles a path pattern like `/apps/:appName` into a regular expression.
+ */
+function compilePath(pathPattern: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = pathPattern
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.substring(1));
+        return '([^/]+)';
       }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+/**
+ * Finds the route for a request.
+ *
+ * @throws HttpError 404 if no route matches the path, 405 if only the method differs,
+ *   400 if a path parameter is not correctly encoded
+ */
+function matchRoute(routes: Route[], method: string, pathname: string): { route: Route; params: Record<string, string> } {
+  let pathMatched = false;
+
+  for (const route of routes) {
+    const match = route.pattern.exec(pathname);
+    if (!match) {
+      continue;
+    }
+    pathMatched = true;
+    if (route.method !== method) {
+      continue;
+    }
 
-      return { events };
+    const params: Record<string, string> = {};
+    try {
+      route.paramNames.forEach((name, i) => {
+        params[name] = decodeURIComponent(match[i + 1]);
+      });
     } catch (error) {
-      console.error('Error sending message:', error);
+      if (error instanceof URIError) {
+        throw new HttpError(400, `Invalid path: ${pathname}`);
+      }
       throw error;
     }
-  };
+    return { route, params };
+  }
 
-  // In a real implementation, we would set up WebSocket endpoints, static file serving, etc.
+  throw pathMatched ? new HttpError(405, 'Method Not Allowed') : new HttpError(404, 'Not Found');
+}
 
-  // Create a mock Express app for the structure
-  const app = {
-    healthEndpoint,
-    listAgentsEndpoint,
-    createSessionEndpoint,
-    getSessionEndpoint,
-    sendMessageEndpoint
-  };
+/**
+ * Reads and parses the JSON body of a request.
+ *
+ * @param req The request
+ * @param maxBytes The largest body to read
+ * @param defaultValue The value to return for an empty body
+ * @throws HttpError 400 if the body is missing or not valid JSON, 413 if it is
+ *   larger than maxBytes
+ */
+async function readJsonBody(req: http.IncomingMessage, maxBytes: number, defaultValue?: unknown): Promise<unknown> {
+  const tooLarge = () => new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+  if (Number(req.headers['content-length']) > maxBytes) {
+    throw tooLarge();
+  }
+
+  const body = await new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Discard the rest of the body, destroying the request would also close the socket of the response
+        req.off('data', onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
 
-  return app;
-}
\ No newline at end of file
+  const text = body.toString('utf8').trim();
+  if (!text) {
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+    throw new HttpError(400, 'Request body is required');
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function parseVersion(value: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new HttpError(400, `Invalid artifact version: ${value}`);
+  }
+  return version;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,7 +1,7 @@
 // Event module for the Google Agent Development Kit (ADK) in TypeScript
 // Mirrors the event functionality from the Python SDK
 
-import { Content } from '../models/base_llm';
+import { Content, LlmUsageMetadata } from '../models/base_llm';
 import { EventActions } from './event_actions';
 
 // Interface for function call part
@@ -12,6 +12,7 @@ export interface FunctionCallPart {
     args: Record<string, unknown>;
   };
   functionResponse?: {
+    id?: string;
     name: string;
     response: Record<string, unknown>;
   };
@@ -39,6 +40,7 @@ export class Event {
   private content: Content | null;
   private actions: EventActions;
   private longRunningToolIds: Set<string> | null;
+  private usageMetadata: LlmUsageMetadata | null;
 
   /**
    * Creates a new Event instance
@@ -55,6 +57,7 @@ export class Event {
     timestamp?: number;
     partial?: boolean;
     longRunningToolIds?: Set<string> | null;
+    usageMetadata?: LlmUsageMetadata | null;
   }) {
     this.id = options.id || Event.newId();
     this.invocationId = options.invocationId || '';
@@ -65,6 +68,7 @@ export class Event {
     this.content = options.content || null;
     this.actions = options.actions || new EventActions();
     this.longRunningToolIds = options.longRunningToolIds || null;
+    this.usageMetadata = options.usageMetadata || null;
   }
 
   /**
@@ -148,12 +152,27 @@ export class Event {
     return this.longRunningToolIds;
   }
 
+  /**
+   * Gets the token usage of the model call that produced the event
+   * 
+   * @returns The usage metadata, or null if the event did not come from a model
+   */
+  getUsageMetadata(): LlmUsageMetadata | null {
+    return this.usageMetadata;
+  }
+
   /**
    * Checks if the event is a final response
    * 
+   * Events that only note a model switch of a fallback chain are never final,
+   * since the response of the next model follows.
+   * 
    * @returns Whether the event is a final response
    */
   isFinalResponse(): boolean {
+    if (this.actions.modelSwitch) {
+      return false;
+    }
     if (this.actions.skipSummarization || (this.longRunningToolIds && this.longRunningToolIds.size > 0)) {
       return true;
     }
@@ -177,6 +196,7 @@ export class Event {
         if (part.functionCall) {
           funcCalls.push({ 
             functionCall: { 
+              id: part.functionCall.id,
               name: part.functionCall.name ?? '', 
               args: part.functionCall.args ?? {} 
             } 
@@ -199,6 +219,7 @@ export class Event {
         if (part.functionResponse) {
           funcResponses.push({ 
             functionResponse: { 
+              id: part.functionResponse.id,
               name: part.functionResponse.name ?? '', 
               response: part.functionResponse.response ?? {} 
             } 
@@ -237,6 +258,7 @@ export class Event {
     content: Content | null;
     actions: EventActions;
     longRunningToolIds: Set<string> | null;
+    usageMetadata: LlmUsageMetadata | null;
   }>): Event {
     return new Event({
       id: modifications.id || this.id,
@@ -248,10 +270,34 @@ export class Event {
       content: modifications.content !== undefined ? modifications.content : this.content,
       actions: modifications.actions || this.actions,
       longRunningToolIds: modifications.longRunningToolIds !== undefined ? 
-        modifications.longRunningToolIds : this.longRunningToolIds
+        modifications.longRunningToolIds : this.longRunningToolIds,
+      usageMetadata: modifications.usageMetadata !== undefined ?
+        modifications.usageMetadata : this.usageMetadata
     });
   }
 
+  /**
+   * Converts the event to a JSON object.
+   * 
+   * The result can be turned back into an event by Session.fromJSON.
+   * 
+   * @returns The JSON representation of the event
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      invocationId: this.invocationId,
+      author: this.author,
+      branch: this.branch,
+      timestamp: this.timestamp,
+      partial: this.partial,
+      content: this.content,
+      actions: this.actions,
+      longRunningToolIds: this.longRunningToolIds ? Array.from(this.longRunningToolIds) : null,
+      usageMetadata: this.usageMetadata
+    };
+  }
+
   /**
    * Generates a new random ID for an event
    * 
@@ -1,6 +1,9 @@
 // Event actions module for the Google Agent Development Kit (ADK) in TypeScript
 // Mirrors the event actions functionality from the Python SDK
 
+import { ToolConfirmation } from '../tools/tool_confirmation';
+import { ModelSwitch } from '../models/base_llm';
+
 /**
  * Represents actions associated with an event.
  * 
@@ -13,6 +16,12 @@ export class EventActions {
    */
   requestedAuthConfigs: Record<string, unknown> = {};
 
+  /**
+   * Confirmations requested during an event, keyed by the function call ID of
+   * the tool call that waits for them
+   */
+  requestedToolConfirmations: Record<string, ToolConfirmation> = {};
+
   /**
    * Name of the agent to transfer control to
    */
@@ -38,6 +47,11 @@ export class EventActions {
    */
   turnComplete?: boolean;
 
+  /**
+   * The switch to another model of a fallback chain after the model failed
+   */
+  modelSwitch?: ModelSwitch;
+
   /**
    * Creates a new EventActions instance
    * 
@@ -45,18 +59,22 @@ export class EventActions {
    */
   constructor(options: {
     requestedAuthConfigs?: Record<string, unknown>;
+    requestedToolConfirmations?: Record<string, ToolConfirmation>;
     transferToAgent?: string;
     stateDelta?: Record<string, unknown>;
     skipSummarization?: boolean;
     escalate?: boolean;
     turnComplete?: boolean;
+    modelSwitch?: ModelSwitch;
   } = {}) {
     this.requestedAuthConfigs = options.requestedAuthConfigs || {};
+    this.requestedToolConfirmations = options.requestedToolConfirmations || {};
     this.transferToAgent = options.transferToAgent;
     this.stateDelta = options.stateDelta;
     this.skipSummarization = options.skipSummarization;
     this.escalate = options.escalate;
     this.turnComplete = options.turnComplete;
+    this.modelSwitch = options.modelSwitch;
   }
 
   /**
@@ -105,6 +123,10 @@ export class EventActions {
       ...this.requestedAuthConfigs,
       ...other.requestedAuthConfigs
     };
+    merged.requestedToolConfirmations = {
+      ...this.requestedToolConfirmations,
+      ...other.requestedToolConfirmations
+    };
 
     // Use the last transfer agent
     merged.transferToAgent = other.transferToAgent || this.transferToAgent;
@@ -124,6 +146,9 @@ export class EventActions {
     merged.escalate = this.escalate || other.escalate;
     merged.turnComplete = this.turnComplete || other.turnComplete;
 
+    // Use the last model switch
+    merged.modelSwitch = other.modelSwitch || this.modelSwitch;
+
     return merged;
   }
 }
\ No newline at end of file
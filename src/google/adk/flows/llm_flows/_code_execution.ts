@@ -0,0 +1,122 @@
+// Code execution LLM processor module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the code execution LLM processor functionality from the Python SDK
+
+import { BaseAgent } from '../../agents/base_agent';
+import { InvocationContext } from '../../agents/invocation_context';
+import { Event } from '../../events/event';
+import { Content, LlmRequest } from '../../models/llm_types';
+import { LlmResponse } from '../../models/llm_response';
+import { BaseCodeExecutor } from '../../code_executors/base_code_executor';
+import { CodeExecutionInput, CodeExecutionUtils } from '../../code_executors/code_execution_utils';
+import { BaseLlmRequestProcessor, BaseLlmResponseProcessor } from './_base_llm_processor';
+
+// Interface for agents that can execute code
+interface AgentWithCodeExecutor extends BaseAgent {
+  codeExecutor?: BaseCodeExecutor | null;
+}
+
+function getCodeExecutor(invocationContext: InvocationContext): BaseCodeExecutor | null {
+  const agent = invocationContext.agent as AgentWithCodeExecutor | undefined;
+  return agent?.codeExecutor instanceof BaseCodeExecutor ? agent.codeExecutor : null;
+}
+
+/**
+ * Converts the executed code and its results in the request contents to
+ * text, so that models without native code execution can read them.
+ */
+class CodeExecutionRequestProcessor extends BaseLlmRequestProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM request.
+   *
+   * @param invocationContext The invocation context
+   * @param llmRequest The LLM request to process
+   * @returns An async generator yielding events
+   */
+  // eslint-disable-next-line require-yield
+  async *runAsync(
+    invocationContext: InvocationContext,
+    llmRequest: LlmRequest
+  ): AsyncGenerator<Event, void, unknown> {
+    const codeExecutor = getCodeExecutor(invocationContext);
+    if (!codeExecutor) {
+      return;
+    }
+
+    for (const content of llmRequest.contents || []) {
+      CodeExecutionUtils.convertCodeExecutionParts(
+        content as Parameters<typeof CodeExecutionUtils.convertCodeExecutionParts>[0],
+        codeExecutor.codeBlockDelimiters[0],
+        codeExecutor.executionResultDelimiters
+      );
+    }
+  }
+}
+
+/**
+ * Executes the first code block in the LLM response.
+ *
+ * The response is truncated after the code block and yielded as an event,
+ * followed by an event with the execution result. The response itself is
+ * then cleared so the flow calls the model again with the result.
+ */
+class CodeExecutionResponseProcessor extends BaseLlmResponseProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM response.
+   *
+   * @param invocationContext The invocation context
+   * @param llmResponse The LLM response to process
+   * @returns An async generator yielding events
+   */
+  async *runAsync(
+    invocationContext: InvocationContext,
+    llmResponse: LlmResponse
+  ): AsyncGenerator<Event, void, unknown> {
+    const codeExecutor = getCodeExecutor(invocationContext);
+    if (!codeExecutor || !llmResponse.content || llmResponse.partial) {
+      return;
+    }
+
+    const responseContent = llmResponse.content as Parameters<typeof CodeExecutionUtils.extractCodeAndTruncateContent>[0];
+    const code = CodeExecutionUtils.extractCodeAndTruncateContent(
+      responseContent,
+      codeExecutor.codeBlockDelimiters
+    );
+    if (!code) {
+      return;
+    }
+
+    yield new Event({
+      invocationId: invocationContext.invocationId,
+      author: invocationContext.agent.name,
+      branch: invocationContext.branch,
+      content: responseContent as Content
+    });
+
+    const codeExecutionResult = await codeExecutor.executeCode(
+      invocationContext,
+      new CodeExecutionInput({ code })
+    );
+
+    yield new Event({
+      invocationId: invocationContext.invocationId,
+      author: invocationContext.agent.name,
+      branch: invocationContext.branch,
+      content: {
+        role: 'model',
+        parts: [CodeExecutionUtils.buildCodeExecutionResultPart(codeExecutionResult)]
+      } as Content
+    });
+
+    llmResponse.content = undefined;
+  }
+}
+
+/**
+ * Exports the request processor instance.
+ */
+export const requestProcessor = new CodeExecutionRequestProcessor();
+
+/**
+ * Exports the response processor instance.
+ */
+export const responseProcessor = new CodeExecutionResponseProcessor();
@@ -0,0 +1,124 @@
+// NL planning LLM processor module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the NL planning LLM processor functionality from the Python SDK
+
+import { BaseAgent } from '../../agents/base_agent';
+import { CallbackContext, InvocationContext, ReadonlyContext } from '../../agents/invocation_context';
+import { Event } from '../../events/event';
+import { EventActions } from '../../events/event_actions';
+import { appendInstructions } from '../../models/llm_request';
+import { LlmRequest } from '../../models/llm_types';
+import { LlmResponse } from '../../models/llm_response';
+import { BasePlanner } from '../../planners/base_planner';
+import { BuiltInPlanner } from '../../planners/built_in_planner';
+import { BaseLlmRequestProcessor, BaseLlmResponseProcessor } from './_base_llm_processor';
+
+// Interface for agents that can use a planner
+interface AgentWithPlanner extends BaseAgent {
+  planner?: BasePlanner | null;
+}
+
+function getPlanner(invocationContext: InvocationContext): BasePlanner | null {
+  const agent = invocationContext.agent as AgentWithPlanner | undefined;
+  return agent?.planner instanceof BasePlanner ? agent.planner : null;
+}
+
+/**
+ * Adds the planning instruction, or the thinking config for built-in
+ * planners, to the LLM request.
+ */
+class NlPlanningRequestProcessor extends BaseLlmRequestProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM request.
+   *
+   * @param invocationContext The invocation context
+   * @param llmRequest The LLM request to process
+   * @returns An async generator yielding events
+   */
+  // eslint-disable-next-line require-yield
+  async *runAsync(
+    invocationContext: InvocationContext,
+    llmRequest: LlmRequest
+  ): AsyncGenerator<Event, void, unknown> {
+    const planner = getPlanner(invocationContext);
+    if (!planner) {
+      return;
+    }
+
+    if (planner instanceof BuiltInPlanner) {
+      planner.applyThinkingConfig(llmRequest);
+    }
+
+    const planningInstruction = planner.buildPlanningInstruction(
+      new ReadonlyContext(invocationContext),
+      llmRequest
+    );
+    if (planningInstruction) {
+      appendInstructions(llmRequest, [planningInstruction]);
+    }
+
+    // Drop the thoughts of earlier responses from the request
+    for (const content of llmRequest.contents || []) {
+      for (const part of content.parts || []) {
+        delete part.thought;
+      }
+    }
+  }
+}
+
+/**
+ * Lets the planner rewrite the parts of the LLM response.
+ *
+ * Built-in planners are skipped, since the model already separates its
+ * thoughts from the response.
+ */
+class NlPlanningResponseProcessor extends BaseLlmResponseProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM response.
+   *
+   * @param invocationContext The invocation context
+   * @param llmResponse The LLM response to process
+   * @returns An async generator yielding events
+   */
+  async *runAsync(
+    invocationContext: InvocationContext,
+    llmResponse: LlmResponse
+  ): AsyncGenerator<Event, void, unknown> {
+    const planner = getPlanner(invocationContext);
+    if (!planner || planner instanceof BuiltInPlanner) {
+      return;
+    }
+    if (!llmResponse.content || !llmResponse.content.parts) {
+      return;
+    }
+
+    const callbackContext = new CallbackContext(invocationContext, new EventActions({ stateDelta: {} }));
+    const processedParts = planner.processPlanningResponse(
+      callbackContext,
+      llmResponse.content.parts
+    );
+    if (processedParts) {
+      llmResponse.content.parts = processedParts;
+    }
+
+    // Planners may save their state through the callback context
+    const stateDelta = callbackContext.eventActions.stateDelta;
+    if (stateDelta && Object.keys(stateDelta).length > 0) {
+      yield new Event({
+        invocationId: invocationContext.invocationId,
+        author: invocationContext.agent.name,
+        branch: invocationContext.branch,
+        actions: callbackContext.eventActions
+      });
+    }
+  }
+}
+
+/**
+ * Exports the request processor instance.
+ */
+export const requestProcessor = new NlPlanningRequestProcessor();
+
+/**
+ * Exports the response processor instance.
+ */
+export const responseProcessor = new NlPlanningResponseProcessor();
@@ -0,0 +1,85 @@
+// Agent transfer LLM processor module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the agent transfer LLM processor functionality from the Python SDK
+
+import { BaseAgent } from '../../agents/base_agent';
+import { InvocationContext } from '../../agents/invocation_context';
+import { Event } from '../../events/event';
+import { appendInstructions } from '../../models/llm_request';
+import { LlmRequest } from '../../models/llm_types';
+import { ToolContext } from '../../tools/tool_context';
+import { getTransferTargets, transferToAgent } from '../../tools/transfer_to_agent_tool';
+import { BaseLlmRequestProcessor } from './_base_llm_processor';
+
+/**
+ * Lets the model transfer the conversation to other agents in the tree.
+ *
+ * The eligible agents are listed in the instructions together with their
+ * descriptions, and the transfer_to_agent tool is added to the request.
+ */
+class AgentTransferLlmRequestProcessor extends BaseLlmRequestProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM request.
+   *
+   * @param invocationContext The invocation context
+   * @param llmRequest The LLM request to process
+   * @returns An async generator yielding events
+   */
+  // eslint-disable-next-line require-yield
+  async *runAsync(
+    invocationContext: InvocationContext,
+    llmRequest: LlmRequest
+  ): AsyncGenerator<Event, void, unknown> {
+    const agent = invocationContext.agent;
+    if (!agent || !('canonicalModel' in agent)) {
+      return;
+    }
+
+    const transferTargets = getTransferTargets(agent);
+    if (transferTargets.length === 0) {
+      return;
+    }
+
+    appendInstructions(llmRequest, [buildTargetAgentsInstructions(agent, transferTargets)]);
+
+    await transferToAgent.processLlmRequest(new ToolContext(invocationContext), llmRequest);
+  }
+}
+
+function buildTargetAgentInfo(targetAgent: BaseAgent): string {
+  return `
+Agent name: ${targetAgent.name}
+Agent description: ${targetAgent.description}
+`;
+}
+
+function buildTargetAgentsInstructions(agent: BaseAgent, targetAgents: BaseAgent[]): string {
+  const parent = agent.parentAgent;
+  const parentInstruction = parent && targetAgents.includes(parent)
+    ? `
+Your parent agent is ${parent.name}. If neither the other agents nor
+you are best for answering the question according to the descriptions, transfer
+to your parent agent.
+`
+    : '';
+
+  return `
+You have a list of other agents to transfer to:
+
+${targetAgents.map(buildTargetAgentInfo).join('\n')}
+
+If you are the best to answer the question according to your description, you
+can answer it.
+
+If another agent is better for answering the question according to its
+description, call \`${transferToAgent.name}\` function to transfer the
+question to that agent. When transferring, do not generate any text other than
+the function call.
+
+Your name is ${agent.name}.
+${parentInstruction}`;
+}
+
+/**
+ * Exports the request processor instance.
+ */
+export const requestProcessor = new AgentTransferLlmRequestProcessor();
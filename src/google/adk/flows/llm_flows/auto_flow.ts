@@ -0,0 +1,25 @@
+// Auto flow module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the auto flow functionality from the Python SDK
+
+import * as agentTransfer from './agent_transfer';
+import { SingleFlow } from './single_flow';
+
+/**
+ * AutoFlow is SingleFlow with agent transfer capability.
+ *
+ * Agent transfer is allowed in the following directions:
+ * 1. from parent to sub-agent;
+ * 2. from sub-agent to parent, unless `disallowTransferToParent` is set;
+ * 3. from sub-agent to its peer agents, unless `disallowTransferToPeers` is set.
+ *
+ * Transfers up the tree also require the parent to be an LLM agent.
+ */
+export class AutoFlow extends SingleFlow {
+  /**
+   * Creates a new AutoFlow.
+   */
+  constructor() {
+    super();
+    this.requestProcessors.push(agentTransfer.requestProcessor);
+  }
+}
@@ -4,6 +4,7 @@
 import { BaseAgent } from '../../agents/base_agent';
 import { InvocationContext, CallbackContext } from '../../agents/invocation_context';
 import { Event } from '../../events/event';
+import { EventActions } from '../../events/event_actions';
 import { LlmRequest, LlmResponse, Content } from '../../models';
 import { BaseLlmResponseProcessor, BaseLlmRequestProcessor } from './_base_llm_processor';
 import { ToolContext } from '../../tools/tool_context';
@@ -12,6 +13,7 @@ import { BaseLlmConnection } from '../../models/base_llm_connection';
 import { LiveRequest, LiveRequestQueue } from '../../agents/live_request_queue';
 import { TranscriptionEntry } from '../../agents/transcription_entry';
 import { StreamingMode } from '../../agents/run_config';
+import { AgentSchema, parseJsonResponse, validateSchema } from '../../models/schema_utils';
 import * as functions from './functions';
 
 // Interface for a tool that can process LLM requests
@@ -24,6 +26,13 @@ interface AgentWithTools extends BaseAgent {
   canonicalTools: Tool[];
 }
 
+// Interface for agents that declare how their output is validated and saved
+interface AgentWithOutput extends BaseAgent {
+  outputSchema?: AgentSchema | null;
+  outputKey?: string | null;
+  outputSchemaMaxRetries?: number;
+}
+
 /**
  * A basic flow that calls the LLM in a loop until a final response is generated.
  *
@@ -43,41 +52,58 @@ export abstract class BaseLlmFlow {
   /**
    * Runs the flow using live API.
    *
-   * @param _invocationContext The invocation context
+   * Requests from the invocation's LiveRequestQueue are forwarded to the
+   * model connection while model responses are turned into events. The run
+   * ends once the queue is closed. When the agent transfers to another agent,
+   * the connection is closed and the other agent reads the queue instead.
+   *
+   * @param invocationContext The invocation context
    * @returns An async generator yielding events
    */
   async *runLive(
-    _invocationContext: InvocationContext
+    invocationContext: InvocationContext
   ): AsyncGenerator<Event, void, unknown> {
     const llmRequest = new LlmRequest();
-    const eventId = Event.newId();
 
     // Preprocess before calling the LLM
-    for await (const event of this.preprocessAsync(_invocationContext, llmRequest)) {
+    for await (const event of this.preprocessAsync(invocationContext, llmRequest)) {
       yield event;
     }
 
-    if (_invocationContext.endInvocation) {
+    if (invocationContext.endInvocation) {
       return;
     }
 
-    const llm = this.getLlm(_invocationContext);
+    const llm = this.getLlm(invocationContext);
     console.debug(
-      `Establishing live connection for agent: ${_invocationContext.agent.name} with llm request:`,
+      `Establishing live connection for agent: ${invocationContext.agent.name} with llm request:`,
       llmRequest
     );
 
     const llmConnection = await llm.connect(llmRequest);
 
+    // Forward live requests to the model until the queue is closed or sending is stopped
+    const stopSending = new AbortController();
+    let sendingDone = false;
+    let sendError: unknown = null;
+    const sendTask = this.sendToModel(llmConnection, invocationContext, stopSending.signal)
+      .catch(error => {
+        sendError = error;
+        return llmConnection.close();
+      })
+      .finally(() => {
+        sendingDone = true;
+      });
+
     try {
       if (llmRequest.contents) {
         // Sends the conversation history to the model
-        if (_invocationContext.transcriptionCache) {
+        if (invocationContext.transcriptionCache) {
           // Handle audio transcription (simplified)
-          const contents = this.transcribeFile(_invocationContext);
+          const contents = this.transcribeFile(invocationContext);
           console.debug('Sending history to model:', contents);
           await llmConnection.sendHistory(contents);
-          _invocationContext.transcriptionCache = null;
+          invocationContext.transcriptionCache = null;
         } else {
           await llmConnection.sendHistory(llmRequest.contents);
         }
@@ -86,16 +112,22 @@ export abstract class BaseLlmFlow {
       // Receive from model
       for await (const event of this.receiveFromModel(
         llmConnection,
-        eventId,
-        _invocationContext,
-        llmRequest
+        invocationContext,
+        llmRequest,
+        () => sendingDone
       )) {
-        // Empty event means the queue is closed
-        if (!event) {
-          break;
+        console.debug('Receive new event:', event);
+
+        // Stop reading the queue before the transferred-to agent starts reading it,
+        // which happens after this event while receiving from the model
+        const parts = event.getContent()?.parts;
+        if (parts?.[0]?.functionResponse?.name === 'transfer_to_agent') {
+          stopSending.abort();
+          await llmConnection.close();
+          yield event;
+          continue;
         }
 
-        console.debug('Receive new event:', event);
         yield event;
 
         // Send back the function response
@@ -103,26 +135,19 @@ export abstract class BaseLlmFlow {
           console.debug('Sending back last function response event:', event);
           const content = event.getContent();
           if (content) {
-            _invocationContext.requestQueue.sendContent(content);
+            invocationContext.requestQueue.sendContent(content);
           }
         }
-
-        // Handle transfer to agent
-        const parts = event.getContent()?.parts;
-        if (
-          parts &&
-          parts.length > 0 &&
-          parts[0]?.functionResponse?.name === 'transfer_to_agent'
-        ) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          // Close connection
-          await llmConnection.close();
-          break;
-        }
       }
     } finally {
       // Clean up
+      stopSending.abort();
       await llmConnection.close();
+      await sendTask;
+    }
+
+    if (sendError) {
+      throw sendError;
     }
   }
 
@@ -131,121 +156,93 @@ export abstract class BaseLlmFlow {
    *
    * @param llmConnection The LLM connection
    * @param invocationContext The invocation context
+   * @param signal Stops sending, leaving the queue to the next reader
    */
   private async sendToModel(
     llmConnection: BaseLlmConnection,
-    invocationContext: InvocationContext
+    invocationContext: InvocationContext,
+    signal: AbortSignal
   ): Promise<void> {
     const liveRequestQueue = invocationContext.requestQueue;
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
+    while (!signal.aborted) {
+      let liveRequest: LiveRequest;
       try {
-        // Get live request with timeout
-        const liveRequest = await this.getRequestWithTimeout(liveRequestQueue, 250);
+        liveRequest = await liveRequestQueue.get(signal);
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        throw error;
+      }
 
-        // Duplicate the live request to all active streams
-        console.debug(
-          `Sending live request ${liveRequest} to active streams:`,
-          invocationContext.activeStreamingTools
-        );
+      // Duplicate the live request to all active streams
+      console.debug(
+        `Sending live request ${liveRequest} to active streams:`,
+        invocationContext.activeStreamingTools
+      );
 
-        if (invocationContext.activeStreamingTools) {
-          for (const [, activeStreamingTool] of Object.entries(invocationContext.activeStreamingTools)) {
-            if (activeStreamingTool.stream) {
-              activeStreamingTool.stream.send(liveRequest);
-            }
+      if (invocationContext.activeStreamingTools) {
+        for (const [, activeStreamingTool] of Object.entries(invocationContext.activeStreamingTools)) {
+          if (activeStreamingTool.stream) {
+            activeStreamingTool.stream.send(liveRequest);
           }
         }
+      }
 
-        // Small yield to allow other tasks to run
-        await new Promise(resolve => setTimeout(resolve, 0));
-
-        if (liveRequest.close) {
-          await llmConnection.close();
-          return;
-        }
+      if (liveRequest.close) {
+        await llmConnection.close();
+        return;
+      }
 
-        if (liveRequest.blob) {
-          // Cache audio data for transcription
-          if (!invocationContext.transcriptionCache) {
-            invocationContext.transcriptionCache = [];
-          }
-          invocationContext.transcriptionCache.push(
-            new TranscriptionEntry({ role: 'user', data: liveRequest.blob })
-          );
-          await llmConnection.sendRealtime(liveRequest.blob);
+      if (liveRequest.blob) {
+        // Cache audio data for transcription
+        if (!invocationContext.transcriptionCache) {
+          invocationContext.transcriptionCache = [];
         }
+        invocationContext.transcriptionCache.push(
+          new TranscriptionEntry({ role: 'user', data: liveRequest.blob })
+        );
+        await llmConnection.sendRealtime(liveRequest.blob);
+      }
 
-        if (liveRequest.content) {
-          await llmConnection.sendContent(liveRequest.content);
-        }
-      } catch (error) {
-        if (error instanceof Error && error.name === 'TimeoutError') {
-          continue; // Timeout, try again
-        }
-        throw error; // Rethrow other errors
+      if (liveRequest.content) {
+        await llmConnection.sendContent(liveRequest.content);
       }
     }
   }
 
-  /**
-   * Gets a request from the queue with a timeout.
-   *
-   * @param queue The live request queue
-   * @param timeout Timeout in milliseconds
-   * @returns The live request
-   */
-  private async getRequestWithTimeout(
-    queue: LiveRequestQueue,
-    timeout: number
-  ): Promise<LiveRequest> {
-    return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new Error('TimeoutError'));
-      }, timeout);
-
-      queue.get()
-        .then(request => {
-          clearTimeout(timer);
-          resolve(request);
-        })
-        .catch(error => {
-          clearTimeout(timer);
-          reject(error);
-        });
-    });
-  }
-
   /**
    * Receive data from model and process events using BaseLlmConnection.
    *
+   * The connection's receive generator may end after every turn, so it is
+   * consumed again until sending has finished.
+   *
    * @param llmConnection The LLM connection
-   * @param eventId The event ID
    * @param invocationContext The invocation context
    * @param llmRequest The LLM request
+   * @param isSendingDone Returns true once no more requests will be sent
    * @returns An async generator yielding events
    */
   private async *receiveFromModel(
     llmConnection: BaseLlmConnection,
-    eventId: string,
     invocationContext: InvocationContext,
-    llmRequest: LlmRequest
+    llmRequest: LlmRequest,
+    isSendingDone: () => boolean
   ): AsyncGenerator<Event, void, unknown> {
     try {
-      while (true) {
+      while (!isSendingDone()) {
         for await (const llmResponse of llmConnection.receive()) {
           const modelResponseEvent = new Event({
-            author: 'agent',
-            content: {
-              role: 'model',
-              parts: [{ text: JSON.stringify({ type: 'interaction_start', stage: 'start' }) }]
-            }
+            id: Event.newId(),
+            invocationId: invocationContext.invocationId,
+            author: invocationContext.agent.name,
+            branch: invocationContext.branch
           });
 
           for await (const event of this.postprocessLive(
             invocationContext,
             llmRequest,
-            llmResponse as LlmResponse,
+            llmResponse,
             modelResponseEvent
           )) {
             if (
@@ -285,18 +282,111 @@ export abstract class BaseLlmFlow {
   async *runAsync(
     invocationContext: InvocationContext
   ): AsyncGenerator<Event, void, unknown> {
+    let outputRetries = 0;
     while (true) {
       let lastEvent: Event | null = null;
+      let outputErrors: string[] | null = null;
       for await (const event of this.runOneStepAsync(invocationContext)) {
+        if (
+          event.isFinalResponse() &&
+          event.getFunctionCalls().length === 0 &&
+          event.getAuthor() === invocationContext.agent.name
+        ) {
+          outputErrors = this.saveOutputToState(invocationContext, event);
+        }
         lastEvent = event;
         yield event;
       }
+
+      if (outputErrors) {
+        const agent = invocationContext.agent as AgentWithOutput;
+        const maxRetries = agent.outputSchemaMaxRetries ?? 0;
+        if (outputRetries >= maxRetries) {
+          throw new Error(
+            `Agent ${agent.name} did not produce a response matching its output schema ` +
+            `after ${outputRetries} retries: ${outputErrors.join('; ')}`
+          );
+        }
+        outputRetries++;
+        yield this.createOutputRepairEvent(invocationContext, outputErrors);
+        continue;
+      }
+
       if (!lastEvent || lastEvent.isFinalResponse()) {
         break;
       }
     }
   }
 
+  /**
+   * Saves the final response of the agent to the session state.
+   *
+   * If the agent has an output schema the response is parsed and validated
+   * first, and nothing is saved if it does not match. The state change is
+   * added to the actions of the event. Events without text, like the state
+   * changes of planners or the results of code execution, are skipped.
+   *
+   * @param invocationContext The invocation context
+   * @param event The final response event of the agent
+   * @returns The validation errors, or null if the response is valid
+   */
+  private saveOutputToState(invocationContext: InvocationContext, event: Event): string[] | null {
+    const agent = invocationContext.agent as AgentWithOutput;
+    if (!agent.outputSchema && !agent.outputKey) {
+      return null;
+    }
+
+    const textParts = (event.getContent()?.parts || []).filter(part => part.text && !part.thought);
+    if (textParts.length === 0) {
+      return null;
+    }
+    const text = textParts.map(part => part.text).join('');
+    let output: unknown = text;
+
+    if (agent.outputSchema) {
+      let parsed: unknown;
+      try {
+        parsed = parseJsonResponse(text);
+      } catch (error) {
+        return [`response is not valid JSON (${error instanceof Error ? error.message : String(error)})`];
+      }
+
+      const result = validateSchema(agent.outputSchema, parsed);
+      if (!result.valid) {
+        return result.errors;
+      }
+      output = result.value;
+    }
+
+    if (agent.outputKey) {
+      const actions = event.getActions();
+      actions.stateDelta = { ...actions.stateDelta, [agent.outputKey]: output };
+    }
+    return null;
+  }
+
+  /**
+   * Creates the message that asks the model to repair a response that does
+   * not match the output schema.
+   *
+   * @param invocationContext The invocation context
+   * @param errors The validation errors of the response
+   * @returns The repair event
+   */
+  private createOutputRepairEvent(invocationContext: InvocationContext, errors: string[]): Event {
+    const text =
+      'Your previous response does not match the required output schema:\n' +
+      errors.map(error => `- ${error}`).join('\n') +
+      '\nRespond again with only a JSON value that matches the schema.';
+
+    return new Event({
+      invocationId: invocationContext.invocationId,
+      author: 'user',
+      branch: invocationContext.branch,
+      content: { role: 'user', parts: [{ text }] }
+    });
+  }
+
   /**
    * One step means one LLM call.
    *
@@ -319,11 +409,9 @@ export abstract class BaseLlmFlow {
 
     // Calls the LLM
     const modelResponseEvent = new Event({
-      author: 'agent',
-      content: {
-        role: 'model',
-        parts: [{ text: JSON.stringify({ type: 'interaction_end', stage: 'end', llm_response: null }) }]
-      }
+      invocationId: invocationContext.invocationId,
+      author: invocationContext.agent.name,
+      branch: invocationContext.branch
     });
 
     for await (const llmResponse of this.callLlmAsync(
@@ -400,6 +488,16 @@ export abstract class BaseLlmFlow {
       yield event;
     }
 
+    // Note switches of a fallback chain in an event without content
+    if (llmResponse.modelSwitch) {
+      yield new Event({
+        invocationId: modelResponseEvent.getInvocationId(),
+        author: modelResponseEvent.getAuthor(),
+        branch: modelResponseEvent.getBranch(),
+        actions: new EventActions({ modelSwitch: llmResponse.modelSwitch })
+      });
+    }
+
     // Skip the model response event if there is no content
     if (!llmResponse.content) {
       return;
@@ -448,8 +546,8 @@ export abstract class BaseLlmFlow {
       yield event;
     }
 
-    // Skip the model response event if there is no content
-    if (!llmResponse.content) {
+    // Skip the model response event if there is nothing to report
+    if (!llmResponse.content && !llmResponse.turnComplete) {
       return;
     }
 
@@ -470,7 +568,20 @@ export abstract class BaseLlmFlow {
       );
 
       if (functionResponseEvent) {
-        yield functionResponseEvent;
+        const confirmationEvent = functions.generateConfirmationEvent(
+          invocationContext,
+          finalizedEvent,
+          functionResponseEvent
+        );
+
+        if (functionResponseEvent.getContent() || functionResponseEvent.getActions().hasStateChanges()) {
+          yield functionResponseEvent;
+        }
+
+        if (confirmationEvent) {
+          yield confirmationEvent;
+          return;
+        }
 
         const transferToAgent = functionResponseEvent.getActions().transferToAgent;
         if (transferToAgent) {
@@ -534,7 +645,22 @@ export abstract class BaseLlmFlow {
         yield authEvent;
       }
 
-      yield functionResponseEvent;
+      const confirmationEvent = functions.generateConfirmationEvent(
+        invocationContext,
+        functionCallEvent,
+        functionResponseEvent
+      );
+
+      // Calls that wait for a confirmation have no response yet
+      if (functionResponseEvent.getContent() || functionResponseEvent.getActions().hasStateChanges()) {
+        yield functionResponseEvent;
+      }
+
+      // The confirmation request is long-running, which pauses the invocation
+      if (confirmationEvent) {
+        yield confirmationEvent;
+        return;
+      }
 
       const transferToAgent = functionResponseEvent.getActions().transferToAgent;
       if (transferToAgent) {
@@ -585,7 +711,7 @@ export abstract class BaseLlmFlow {
     modelResponseEvent: Event
   ): AsyncGenerator<LlmResponse, void, unknown> {
     // Execute the before model callback if defined.
-    const beforeCallbackResponse = this.handleBeforeModelCallback(
+    const beforeCallbackResponse = await this.handleBeforeModelCallback(
       invocationContext,
       llmRequest,
       modelResponseEvent
@@ -609,7 +735,7 @@ export abstract class BaseLlmFlow {
             partial: event.isPartial()
           });
 
-          const alteredLlmResponse = this.handleAfterModelCallback(
+          const alteredLlmResponse = await this.handleAfterModelCallback(
             invocationContext,
             llmResponse,
             modelResponseEvent
@@ -634,8 +760,14 @@ export abstract class BaseLlmFlow {
         llmRequest,
         invocationContext.runConfig.streamingMode === StreamingMode.SSE
       )) {
+        // Model switches are no model output, so callbacks do not see them
+        if (llmResponse.modelSwitch && !llmResponse.content) {
+          yield llmResponse;
+          continue;
+        }
+
         // Execute the after model callback if defined.
-        const alteredLlmResponse = this.handleAfterModelCallback(
+        const alteredLlmResponse = await this.handleAfterModelCallback(
           invocationContext,
           llmResponse,
           modelResponseEvent
@@ -658,11 +790,11 @@ export abstract class BaseLlmFlow {
    * @param _modelResponseEvent The model response event
    * @returns The LLM response if the callback returns one
    */
-  protected handleBeforeModelCallback(
+  protected async handleBeforeModelCallback(
     invocationContext: InvocationContext,
     llmRequest: LlmRequest,
     _modelResponseEvent: Event
-  ): LlmResponse | null {
+  ): Promise<LlmResponse | null> {
     const agent = invocationContext.agent;
 
     // Check if agent and the callback exist
@@ -671,7 +803,7 @@ export abstract class BaseLlmFlow {
 
       // Call the agent's callback
       // Note: Assuming callback signature matches Python (context, request)
-      return agent.beforeModelCallback(
+      return await agent.beforeModelCallback(
         callbackContext,
         llmRequest
       );
@@ -687,11 +819,11 @@ export abstract class BaseLlmFlow {
    * @param _modelResponseEvent The model response event
    * @returns The altered LLM response if the callback returns one
    */
-  protected handleAfterModelCallback(
+  protected async handleAfterModelCallback(
     invocationContext: InvocationContext,
     llmResponse: LlmResponse,
     _modelResponseEvent: Event
-  ): LlmResponse | null {
+  ): Promise<LlmResponse | null> {
     const agent = invocationContext.agent;
 
     // Check if agent and the callback exist
@@ -700,7 +832,7 @@ export abstract class BaseLlmFlow {
 
       // Call the agent's callback
       // Note: Assuming callback signature matches Python (context, response)
-      return agent.afterModelCallback(
+      return await agent.afterModelCallback(
         callbackContext,
         llmResponse
       );
@@ -713,21 +845,25 @@ export abstract class BaseLlmFlow {
    *
    * @param llmRequest The LLM request
    * @param llmResponse The LLM response
-   * @param _modelResponseEvent The model response event
+   * @param modelResponseEvent The model response event
    * @returns The finalized event
    */
   private finalizeModelResponseEvent(
     llmRequest: LlmRequest,
     llmResponse: LlmResponse,
-    _modelResponseEvent: Event
+    modelResponseEvent: Event
   ): Event {
-    // Create a new event with the merged properties
+    // Merge the response into the event that was prepared for it
     let finalizedEvent = new Event({
-      author: 'agent',
-      content: {
-        role: 'model',
-        parts: [{ text: JSON.stringify({ type: 'interaction_end', stage: 'end', llm_response: llmResponse }) }]
-      }
+      id: modelResponseEvent.getId(),
+      invocationId: modelResponseEvent.getInvocationId(),
+      author: modelResponseEvent.getAuthor(),
+      branch: modelResponseEvent.getBranch(),
+      timestamp: modelResponseEvent.getTimestamp(),
+      content: llmResponse.content || null,
+      partial: llmResponse.partial,
+      actions: new EventActions({ turnComplete: llmResponse.turnComplete }),
+      usageMetadata: llmResponse.usageMetadata
     });
 
     // Handle function calls
@@ -0,0 +1,228 @@
+// Contents LLM processor module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the contents LLM processor functionality from the Python SDK
+
+import { InvocationContext } from '../../agents/invocation_context';
+import { Event } from '../../events/event';
+import { Content, LlmRequest, Part } from '../../models/llm_types';
+import { BaseLlmRequestProcessor } from './_base_llm_processor';
+import {
+  REQUEST_CONFIRMATION_FUNCTION_CALL_NAME,
+  REQUEST_EUC_FUNCTION_CALL_NAME,
+  mergeParallelFunctionResponseEvents
+} from './functions';
+
+/**
+ * Names of the function calls ADK makes to the client on its own behalf.
+ * They are never sent to the model.
+ */
+const INTERNAL_FUNCTION_CALL_NAMES = new Set([REQUEST_EUC_FUNCTION_CALL_NAME, REQUEST_CONFIRMATION_FUNCTION_CALL_NAME]);
+
+/**
+ * Builds the contents for the LLM request from the session events.
+ */
+class ContentLlmRequestProcessor extends BaseLlmRequestProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM request.
+   *
+   * @param invocationContext The invocation context
+   * @param llmRequest The LLM request to process
+   * @returns An async generator yielding events
+   */
+  // eslint-disable-next-line require-yield
+  async *runAsync(
+    invocationContext: InvocationContext,
+    llmRequest: LlmRequest
+  ): AsyncGenerator<Event, void, unknown> {
+    const agent = invocationContext.agent;
+    if (!agent || !('canonicalModel' in agent) || !invocationContext.session) {
+      return;
+    }
+
+    llmRequest.contents = getContents(
+      invocationContext.branch,
+      invocationContext.session.events,
+      agent.name
+    );
+  }
+}
+
+/**
+ * Gets the contents for the LLM request.
+ *
+ * Only events of the current branch and its ancestors are included, so
+ * agents running in parallel branches do not see each other's events.
+ * Messages of other agents are passed on as context from the user, and
+ * function calls made by ADK itself are left out.
+ *
+ * @param currentBranch The branch of the current invocation
+ * @param events The session events
+ * @param agentName The name of the agent the contents are built for
+ * @returns The contents in the order of the events
+ */
+export function getContents(currentBranch: string | null, events: Event[], agentName: string = ''): Content[] {
+  const filteredEvents: Event[] = [];
+  for (const event of events) {
+    const content = event.getContent();
+    if (!content || !content.role || !content.parts || content.parts.length === 0 || content.parts[0].text === '') {
+      continue;
+    }
+    if (event.isPartial() || !isEventBelongsToBranch(currentBranch, event) || isInternalFunctionEvent(event)) {
+      continue;
+    }
+
+    filteredEvents.push(isOtherAgentReply(agentName, event) ? convertForeignEvent(event) : event);
+  }
+
+  return rearrangeFunctionResponses(filteredEvents)
+    .map(event => JSON.parse(JSON.stringify(event.getContent())) as Content);
+}
+
+/**
+ * Checks whether an event is visible to an invocation on the given branch.
+ *
+ * Events without a branch are visible everywhere, other events only on
+ * their own branch and the branches nested in it.
+ */
+function isEventBelongsToBranch(invocationBranch: string | null, event: Event): boolean {
+  const eventBranch = event.getBranch();
+  if (!invocationBranch || !eventBranch) {
+    return true;
+  }
+  return invocationBranch === eventBranch || invocationBranch.startsWith(`${eventBranch}.`);
+}
+
+function isInternalFunctionEvent(event: Event): boolean {
+  return (event.getContent()?.parts || []).some(part =>
+    INTERNAL_FUNCTION_CALL_NAMES.has(part.functionCall?.name ?? '') ||
+    INTERNAL_FUNCTION_CALL_NAMES.has(part.functionResponse?.name ?? '')
+  );
+}
+
+function isOtherAgentReply(currentAgentName: string, event: Event): boolean {
+  return Boolean(currentAgentName) && event.getAuthor() !== currentAgentName && event.getAuthor() !== 'user';
+}
+
+/**
+ * Converts an event authored by another agent into a user message.
+ *
+ * The model would otherwise take the other agent's messages, tool calls
+ * and tool results for its own.
+ *
+ * @param event The event to convert
+ * @returns The converted event
+ */
+function convertForeignEvent(event: Event): Event {
+  const author = event.getAuthor();
+  const parts: Part[] = [{ text: 'For context:' }];
+
+  for (const part of event.getContent()?.parts || []) {
+    if (part.thought) {
+      continue;
+    }
+    if (part.text) {
+      parts.push({ text: `[${author}] said: ${part.text}` });
+    } else if (part.functionCall) {
+      parts.push({
+        text: `[${author}] called tool \`${part.functionCall.name}\` with parameters: ${JSON.stringify(part.functionCall.args || {})}`
+      });
+    } else if (part.functionResponse) {
+      parts.push({
+        text: `[${author}] \`${part.functionResponse.name}\` tool returned result: ${JSON.stringify(part.functionResponse.response || {})}`
+      });
+    } else {
+      parts.push(part);
+    }
+  }
+
+  return event.withModifications({ content: { role: 'user', parts } });
+}
+
+/**
+ * Moves every function response right behind the call it answers.
+ *
+ * Responses to long-running calls can arrive several turns after the call,
+ * but models expect each function call to be followed by its response.
+ * Responses to several calls of one event are merged into one event.
+ * Only the latest response to a call is kept, e.g. the final result of a
+ * long-running call after its interim responses, since models reject
+ * several results for one call. Responses whose call is not in the history
+ * keep their position.
+ *
+ * @param allEvents The filtered events
+ * @returns The events in the order expected by the model
+ */
+function rearrangeFunctionResponses(allEvents: Event[]): Event[] {
+  const callIds = new Set<string>();
+  for (const event of allEvents) {
+    for (const { functionCall } of event.getFunctionCalls()) {
+      if (functionCall?.id) {
+        callIds.add(functionCall.id);
+      }
+    }
+  }
+
+  const getResponseEventIndexByCallId = (events: Event[]) => {
+    const indexByCallId = new Map<string, number>();
+    events.forEach((event, index) => {
+      for (const { functionResponse } of event.getFunctionResponses()) {
+        if (functionResponse?.id && callIds.has(functionResponse.id)) {
+          indexByCallId.set(functionResponse.id, index);
+        }
+      }
+    });
+    return indexByCallId;
+  };
+
+  // Drop the responses superseded by a later response to the same call
+  const latestResponseEventIndexByCallId = getResponseEventIndexByCallId(allEvents);
+  const events = allEvents.flatMap((event, index) => {
+    const parts = event.getContent()?.parts || [];
+    const latestParts = parts.filter(part => {
+      const id = part.functionResponse?.id;
+      return !id || !callIds.has(id) || latestResponseEventIndexByCallId.get(id) === index;
+    });
+    if (latestParts.length === parts.length) {
+      return [event];
+    }
+    return latestParts.length > 0
+      ? [event.withModifications({ content: { ...event.getContent()!, parts: latestParts } })]
+      : [];
+  });
+
+  const responseEventIndexByCallId = getResponseEventIndexByCallId(events);
+  const result: Event[] = [];
+  events.forEach((event, index) => {
+    const isMoved = event.getFunctionResponses().some(
+      ({ functionResponse }) => responseEventIndexByCallId.get(functionResponse?.id ?? '') === index
+    );
+    if (isMoved) {
+      return;
+    }
+    result.push(event);
+
+    const functionCalls = event.getFunctionCalls();
+    if (functionCalls.length === 0) {
+      return;
+    }
+
+    const responseEventIndices = new Set<number>();
+    for (const { functionCall } of functionCalls) {
+      const responseEventIndex = functionCall?.id ? responseEventIndexByCallId.get(functionCall.id) : undefined;
+      if (responseEventIndex !== undefined) {
+        responseEventIndices.add(responseEventIndex);
+      }
+    }
+    if (responseEventIndices.size > 0) {
+      result.push(mergeParallelFunctionResponseEvents(
+        [...responseEventIndices].sort((a, b) => a - b).map(i => events[i])
+      ));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Exports the request processor instance.
+ */
+export const requestProcessor = new ContentLlmRequestProcessor();
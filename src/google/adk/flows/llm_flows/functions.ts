@@ -1,17 +1,36 @@
 // Functions module for the Google Agent Development Kit (ADK) in TypeScript
 // Simplified implementation of functions handling
 
+import { BaseAgent } from '../../agents/base_agent';
 import { InvocationContext } from '../../agents/invocation_context';
 import { Event, FunctionCallPart } from '../../events/event';
 import { EventActions } from '../../events/event_actions'; // Added import
+import { Part } from '../../models/llm_types';
+import { BaseTool } from '../../tools/base_tool';
+import { ToolConfirmation } from '../../tools/tool_confirmation';
+import { ToolContext } from '../../tools/tool_context';
 import { Effect } from 'effect';
 import { 
   safePropertyAccess,
   isObject,
-  isString,
   hasProperty
 } from '../../effect';
 
+// Interface for agents that intercept tool calls
+interface AgentWithToolCallbacks extends BaseAgent {
+  beforeToolCallback?: ((
+    tool: BaseTool,
+    args: Record<string, unknown>,
+    toolContext: ToolContext
+  ) => Promise<Record<string, unknown> | null> | Record<string, unknown> | null) | null;
+  afterToolCallback?: ((
+    tool: BaseTool,
+    args: Record<string, unknown>,
+    toolContext: ToolContext,
+    result: Record<string, unknown>
+  ) => Promise<Record<string, unknown> | null> | Record<string, unknown> | null) | null;
+}
+
 /**
  * Constant for transfer to agent function call.
  */
@@ -22,17 +41,58 @@ export const TRANSFER_TO_AGENT_FUNCTION_CALL_NAME = 'transfer_to_agent';
  */
 export const REQUEST_EUC_FUNCTION_CALL_NAME = 'request_euc';
 
+/**
+ * Constant for the function call that asks a human to confirm a tool call.
+ */
+export const REQUEST_CONFIRMATION_FUNCTION_CALL_NAME = 'adk_request_confirmation';
+
+/**
+ * Session state key under which the runner records the long-running function
+ * calls that are still waiting for a response, keyed by function call ID.
+ * The `_adk_` prefix is reserved for the framework, so that the key does not
+ * collide with the state of agents, e.g. their outputKey.
+ */
+export const PENDING_LONG_RUNNING_CALLS_KEY = '_adk_pending_long_running_calls';
+
+/**
+ * A long-running function call that is waiting for its response.
+ */
+export interface PendingLongRunningCall {
+  /**
+   * The ID of the function call.
+   */
+  id: string;
+
+  /**
+   * The name of the called tool.
+   */
+  name: string;
+
+  /**
+   * The arguments the tool was called with.
+   */
+  args: Record<string, unknown>;
+
+  /**
+   * The invocation that made the call.
+   */
+  invocationId: string;
+
+  /**
+   * The name of the agent that made the call.
+   */
+  author: string;
+}
+
 /**
  * Populates client function call IDs in an event.
  * 
  * @param event The event to populate
  */
 export function populateClientFunctionCallId(event: Event): void {
-  // Simplified implementation
-  const functionCalls = event.getFunctionCalls();
-  for (const functionCall of functionCalls) {
-    if (functionCall.functionCall && !functionCall.functionCall.id) {
-      functionCall.functionCall.id = generateId();
+  for (const part of event.getContent()?.parts || []) {
+    if (part.functionCall && !part.functionCall.id) {
+      part.functionCall.id = generateId();
     }
   }
 }
@@ -94,89 +154,269 @@ export function getLongRunningFunctionCalls(
 export async function handleFunctionCallsLive(
   invocationContext: InvocationContext,
   functionCallEvent: Event,
-  _toolsDict: Record<string, unknown>
+  toolsDict: Record<string, unknown>
 ): Promise<Event | null> {
-  // Effect-based implementation with safe property access
-  const processLiveCall = Effect.gen(function* (_) {
-    const functionCalls = functionCallEvent.getFunctionCalls();
-    if (functionCalls.length === 0) {
-      return null;
-    }
-    
-    // In a real implementation, this would actually call the functions
-    const responseEvent = new Event({
-      id: Event.newId(),
-      invocationId: invocationContext.invocationId || '',
-      author: functionCallEvent.getAuthor(),
-      branch: functionCallEvent.getBranch(),
-      content: null,
-      actions: new EventActions() // Assuming default actions if not specified
-    });
-    
-    return responseEvent;
-  });
-  
-  return Effect.runPromise(
-    processLiveCall.pipe(
-      Effect.orElse(() => Effect.succeed(null))
-    )
-  );
+  // Live tools are called the same way; streaming tools are not supported yet
+  return handleFunctionCallsAsync(invocationContext, functionCallEvent, toolsDict);
 }
 
 /**
  * Handles function calls asynchronously.
  * 
+ * Every function call of the event is run with the tool of the same name,
+ * honoring the agent's before and after tool callbacks. Long-running tools
+ * that return nothing do not get a response until one is submitted later.
+ *
+ * Calls that have to be confirmed by a human do not run and get no response.
+ * They are listed in the requested tool confirmations of the returned event
+ * instead. Once decided, they are handled again with their decision: rejected
+ * calls get an error response, approved calls run with the confirmed
+ * arguments.
+ * 
  * @param invocationContext The invocation context
  * @param functionCallEvent The function call event
  * @param toolsDict The tools dictionary
- * @returns The function response event
+ * @param toolConfirmations The decisions about calls that had to be
+ *   confirmed, keyed by function call ID
+ * @returns The function response event, merged across parallel calls, or
+ *   null if no call produced a response or requested a confirmation
  */
 export async function handleFunctionCallsAsync(
   invocationContext: InvocationContext,
   functionCallEvent: Event,
-  _toolsDict: Record<string, unknown>
+  toolsDict: Record<string, unknown>,
+  toolConfirmations: Record<string, ToolConfirmation> = {}
 ): Promise<Event | null> {
-  // Effect-based implementation - similar to live version but with async safety
-  const processAsyncCall = Effect.gen(function* (_) {
-    const functionCalls = functionCallEvent.getFunctionCalls();
-    if (functionCalls.length === 0) {
-      return null;
+  const agent = invocationContext.agent as AgentWithToolCallbacks;
+  const responseEvents: Event[] = [];
+
+  for (const part of functionCallEvent.getContent()?.parts || []) {
+    const functionCall = part.functionCall;
+    if (!functionCall) {
+      continue;
     }
-    
-    // In a real implementation, this would actually call the functions
-    const responseEvent = new Event({
-      id: Event.newId(),
-      invocationId: invocationContext.invocationId || '',
-      author: functionCallEvent.getAuthor(),
-      branch: functionCallEvent.getBranch(),
-      content: null,
-      actions: new EventActions() // Assuming default actions if not specified
-    });
-    
-    return responseEvent;
+
+    const name = functionCall.name ?? '';
+    const tool = toolsDict[name];
+    if (!(tool instanceof BaseTool)) {
+      throw new Error(`Function ${name} is not found in the tools dictionary.`);
+    }
+
+    const toolConfirmation = functionCall.id ? toolConfirmations[functionCall.id] : undefined;
+    const args = toolConfirmation?.args || functionCall.args || {};
+    const toolContext = new ToolContext(invocationContext, functionCall.id, { stateDelta: {} });
+    toolContext.toolConfirmation = toolConfirmation;
+
+    let result: unknown = null;
+    if (toolConfirmation && !toolConfirmation.confirmed) {
+      result = { error: 'The user rejected this tool call.' };
+    } else if (agent.beforeToolCallback) {
+      result = await agent.beforeToolCallback(tool, args, toolContext);
+    }
+
+    if (!result && !toolConfirmation && functionCall.id) {
+      const requested = functionCall.id in toolContext.actions.requestedToolConfirmations;
+      if (!requested && await requiresConfirmation(tool, args, toolContext)) {
+        toolContext.requestConfirmation();
+      }
+      if (functionCall.id in toolContext.actions.requestedToolConfirmations) {
+        responseEvents.push(new Event({
+          invocationId: invocationContext.invocationId,
+          author: agent.name,
+          branch: invocationContext.branch,
+          content: null,
+          actions: toolContext.actions
+        }));
+        continue;
+      }
+    }
+
+    if (!result) {
+      result = await tool.runAsync(args, toolContext);
+      if (agent.afterToolCallback) {
+        const alteredResult = await agent.afterToolCallback(tool, args, toolContext, toResponse(result));
+        if (alteredResult) {
+          result = alteredResult;
+        }
+      }
+    }
+
+    if (tool.isLongRunning && (result === null || result === undefined)) {
+      continue;
+    }
+
+    responseEvents.push(new Event({
+      invocationId: invocationContext.invocationId,
+      author: agent.name,
+      branch: invocationContext.branch,
+      content: {
+        role: 'user',
+        parts: [{ functionResponse: { id: functionCall.id, name, response: toResponse(result) } }]
+      },
+      actions: toolContext.actions
+    }));
+  }
+
+  if (responseEvents.length === 0) {
+    return null;
+  }
+  return mergeParallelFunctionResponseEvents(responseEvents);
+}
+
+/**
+ * Merges the function response events of parallel function calls into one.
+ * 
+ * @param functionResponseEvents The events to merge, at least one
+ * @returns The merged event
+ */
+export function mergeParallelFunctionResponseEvents(functionResponseEvents: Event[]): Event {
+  if (functionResponseEvents.length === 1) {
+    return functionResponseEvents[0];
+  }
+
+  const baseEvent = functionResponseEvents[0];
+  const actions = new EventActions();
+  for (const event of functionResponseEvents) {
+    const eventActions = event.getActions();
+    actions.stateDelta = { ...actions.stateDelta, ...eventActions.stateDelta };
+    actions.requestedAuthConfigs = { ...actions.requestedAuthConfigs, ...eventActions.requestedAuthConfigs };
+    actions.requestedToolConfirmations = {
+      ...actions.requestedToolConfirmations,
+      ...eventActions.requestedToolConfirmations
+    };
+    actions.transferToAgent = eventActions.transferToAgent ?? actions.transferToAgent;
+    actions.skipSummarization = actions.skipSummarization || eventActions.skipSummarization;
+    actions.escalate = actions.escalate || eventActions.escalate;
+  }
+
+  // Calls that wait for a confirmation contribute no parts
+  const parts = functionResponseEvents.flatMap(event => event.getContent()?.parts || []);
+  return new Event({
+    invocationId: baseEvent.getInvocationId(),
+    author: baseEvent.getAuthor(),
+    branch: baseEvent.getBranch(),
+    content: parts.length > 0 ? { role: 'user', parts } : null,
+    actions
   });
-  
-  return Effect.runPromise(
-    processAsyncCall.pipe(
-      Effect.orElse(() => Effect.succeed(null))
-    )
-  );
 }
 
 /**
  * Generates an auth event if needed.
  * 
+ * Tools request end-user credentials through their tool context. Each
+ * request becomes a long-running `request_euc` function call that the
+ * client answers with the credential.
+ * 
  * @param invocationContext The invocation context
  * @param functionResponseEvent The function response event
  * @returns The auth event if needed
  */
 export function generateAuthEvent(
-  _invocationContext: InvocationContext,
-  _functionResponseEvent: Event
+  invocationContext: InvocationContext,
+  functionResponseEvent: Event
+): Event | null {
+  const requestedAuthConfigs = functionResponseEvent.getActions().requestedAuthConfigs;
+  if (!requestedAuthConfigs || Object.keys(requestedAuthConfigs).length === 0) {
+    return null;
+  }
+
+  const parts: Part[] = [];
+  const longRunningToolIds = new Set<string>();
+  for (const [functionCallId, authConfig] of Object.entries(requestedAuthConfigs)) {
+    const id = generateId();
+    parts.push({
+      functionCall: {
+        id,
+        name: REQUEST_EUC_FUNCTION_CALL_NAME,
+        args: { functionCallId, authConfig }
+      }
+    });
+    longRunningToolIds.add(id);
+  }
+
+  return new Event({
+    invocationId: invocationContext.invocationId,
+    author: invocationContext.agent.name,
+    branch: invocationContext.branch,
+    content: { role: 'model', parts },
+    longRunningToolIds
+  });
+}
+
+/**
+ * Generates a confirmation request event if needed.
+ *
+ * Each tool call that has to be confirmed becomes a long-running
+ * `adk_request_confirmation` function call, whose arguments hold the original
+ * call and the hint for the human. The client answers it with the decision.
+ *
+ * @param invocationContext The invocation context
+ * @param functionCallEvent The function call event
+ * @param functionResponseEvent The function response event
+ * @returns The confirmation request event if needed
+ */
+export function generateConfirmationEvent(
+  invocationContext: InvocationContext,
+  functionCallEvent: Event,
+  functionResponseEvent: Event
 ): Event | null {
-  // Simplified implementation
-  // In a real implementation, this would check for auth needs and generate an auth event
-  return null;
+  const requestedToolConfirmations = functionResponseEvent.getActions().requestedToolConfirmations;
+  if (!requestedToolConfirmations || Object.keys(requestedToolConfirmations).length === 0) {
+    return null;
+  }
+
+  const parts: Part[] = [];
+  const longRunningToolIds = new Set<string>();
+  for (const { functionCall } of functionCallEvent.getFunctionCalls()) {
+    if (!functionCall?.id || !(functionCall.id in requestedToolConfirmations)) {
+      continue;
+    }
+
+    const id = generateId();
+    parts.push({
+      functionCall: {
+        id,
+        name: REQUEST_CONFIRMATION_FUNCTION_CALL_NAME,
+        args: {
+          originalFunctionCall: { id: functionCall.id, name: functionCall.name, args: functionCall.args || {} },
+          toolConfirmation: requestedToolConfirmations[functionCall.id]
+        }
+      }
+    });
+    longRunningToolIds.add(id);
+  }
+
+  return new Event({
+    invocationId: invocationContext.invocationId,
+    author: invocationContext.agent.name,
+    branch: invocationContext.branch,
+    content: { role: 'model', parts },
+    longRunningToolIds
+  });
+}
+
+/**
+ * Checks whether a call of a tool has to be confirmed before it runs.
+ */
+async function requiresConfirmation(
+  tool: BaseTool,
+  args: Record<string, unknown>,
+  toolContext: ToolContext
+): Promise<boolean> {
+  if (typeof tool.requireConfirmation === 'function') {
+    return tool.requireConfirmation(args, toolContext);
+  }
+  return tool.requireConfirmation;
+}
+
+/**
+ * Wraps a tool result that is not an object, since function responses must be.
+ */
+function toResponse(result: unknown): Record<string, unknown> {
+  if (typeof result === 'object' && result !== null && !Array.isArray(result)) {
+    return result as Record<string, unknown>;
+  }
+  return { result };
 }
 
 /**
@@ -4,4 +4,6 @@
 export * from './base_llm_flow';
 export * from './_base_llm_processor';
 export * from './basic';
-export * from './functions';
\ No newline at end of file
+export * from './functions';
+export * from './single_flow';
+export * from './auto_flow';
@@ -0,0 +1,181 @@
+// Instructions LLM processor module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the instructions LLM processor functionality from the Python SDK
+
+import { BaseAgent } from '../../agents/base_agent';
+import { InvocationContext, ReadonlyContext } from '../../agents/invocation_context';
+import { Event } from '../../events/event';
+import { appendInstructions } from '../../models/llm_request';
+import { AdkPart, LlmRequest } from '../../models/llm_types';
+import { State } from '../../sessions/state';
+import { BaseLlmRequestProcessor } from './_base_llm_processor';
+
+// Interface for agents that provide instructions
+interface AgentWithInstructions extends BaseAgent {
+  instruction?: unknown;
+  globalInstruction?: unknown;
+  getInstruction(context?: ReadonlyContext): string;
+  getGlobalInstruction(context?: ReadonlyContext): string;
+}
+
+function hasInstructions(agent: BaseAgent): agent is AgentWithInstructions {
+  return typeof (agent as Partial<AgentWithInstructions>).getInstruction === 'function' &&
+    typeof (agent as Partial<AgentWithInstructions>).getGlobalInstruction === 'function';
+}
+
+/**
+ * Handles instructions and global instructions for the LLM request.
+ *
+ * The global instruction of the root agent comes first, followed by the
+ * instruction of the agent being run.
+ */
+class InstructionsLlmRequestProcessor extends BaseLlmRequestProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM request.
+   *
+   * @param invocationContext The invocation context
+   * @param llmRequest The LLM request to process
+   * @returns An async generator yielding events
+   */
+  // eslint-disable-next-line require-yield
+  async *runAsync(
+    invocationContext: InvocationContext,
+    llmRequest: LlmRequest
+  ): AsyncGenerator<Event, void, unknown> {
+    const agent = invocationContext.agent;
+    if (!agent || !hasInstructions(agent)) {
+      return;
+    }
+
+    const readonlyContext = new ReadonlyContext(invocationContext);
+    const instructions: string[] = [];
+
+    // Instructions from providers are used as they are, so that they can
+    // contain literal braces
+    const rootAgent = agent.rootAgent;
+    if (hasInstructions(rootAgent)) {
+      const globalInstruction = rootAgent.getGlobalInstruction(readonlyContext);
+      if (globalInstruction) {
+        instructions.push(typeof rootAgent.globalInstruction === 'function'
+          ? globalInstruction
+          : await injectSessionState(globalInstruction, readonlyContext));
+      }
+    }
+
+    const instruction = agent.getInstruction(readonlyContext);
+    if (instruction) {
+      instructions.push(typeof agent.instruction === 'function'
+        ? instruction
+        : await injectSessionState(instruction, readonlyContext));
+    }
+
+    appendInstructions(llmRequest, instructions);
+  }
+}
+
+/**
+ * Fills the placeholders in an instruction template.
+ *
+ * Supported placeholders are:
+ * - `{key}`, `{user:key}`, `{app:key}` and `{temp:key}`, replaced with the
+ *   value of the key in the session state;
+ * - `{artifact.filename}`, replaced with the text of the artifact;
+ * - `{key?}` and `{artifact.filename?}`, replaced with an empty string if
+ *   the key or artifact does not exist.
+ *
+ * Text in double braces, such as `{{key}}`, and braces around anything that
+ * is not a valid key are left unchanged.
+ *
+ * @param template The instruction template
+ * @param readonlyContext The context of the invocation
+ * @returns The instruction with all placeholders replaced
+ * @throws Error if a required key or artifact does not exist
+ */
+export async function injectSessionState(template: string, readonlyContext: ReadonlyContext): Promise<string> {
+  const pattern = /{+[^{}]*}+/g;
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(pattern)) {
+    result += template.substring(lastIndex, match.index) + await replacePlaceholder(match[0], readonlyContext);
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return result + template.substring(lastIndex);
+}
+
+async function replacePlaceholder(placeholder: string, readonlyContext: ReadonlyContext): Promise<string> {
+  if (placeholder.startsWith('{{') && placeholder.endsWith('}}')) {
+    return placeholder;
+  }
+
+  let name = placeholder.replace(/^{+|}+$/g, '').trim();
+  const optional = name.endsWith('?');
+  if (optional) {
+    name = name.slice(0, -1);
+  }
+
+  if (name.startsWith('artifact.')) {
+    const filename = name.substring('artifact.'.length);
+    const artifact = await loadArtifact(filename, readonlyContext);
+    if (artifact === null || artifact === undefined) {
+      if (optional) {
+        return '';
+      }
+      throw new Error(`Artifact not found for instruction placeholder ${placeholder}: ${filename}`);
+    }
+    return artifactToText(artifact);
+  }
+
+  if (!isValidStateName(name)) {
+    return placeholder;
+  }
+
+  const state = readonlyContext.state || {};
+  if (name in state && state[name] !== undefined && state[name] !== null) {
+    return typeof state[name] === 'string' ? state[name] as string : JSON.stringify(state[name]);
+  }
+  if (optional) {
+    return '';
+  }
+  throw new Error(
+    `Context variable not found for instruction placeholder ${placeholder}: ${name}. ` +
+    `Set it in the session state or write {${name}?} to make it optional.`
+  );
+}
+
+async function loadArtifact(filename: string, readonlyContext: ReadonlyContext): Promise<unknown> {
+  const artifactService = readonlyContext.artifactService;
+  const session = readonlyContext.session;
+  if (!artifactService || !session) {
+    throw new Error(`Cannot load artifact ${filename} for the instruction: the artifact service is not available`);
+  }
+  return artifactService.loadArtifact(readonlyContext.appName, readonlyContext.userId, session.id, filename);
+}
+
+function artifactToText(artifact: unknown): string {
+  if (typeof artifact === 'string') {
+    return artifact;
+  }
+  const part = artifact as AdkPart;
+  if (typeof part.text === 'string') {
+    return part.text;
+  }
+  if (part.inlineData?.data && part.inlineData.mimeType?.startsWith('text/')) {
+    return Buffer.from(part.inlineData.data, 'base64').toString('utf8');
+  }
+  return JSON.stringify(artifact);
+}
+
+/**
+ * Checks whether a name is an identifier, optionally with a state prefix.
+ */
+function isValidStateName(name: string): boolean {
+  const prefixes = [State.APP_PREFIX, State.USER_PREFIX, State.TEMP_PREFIX];
+  const prefix = prefixes.find(p => name.startsWith(p));
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix ? name.substring(prefix.length) : name);
+}
+
+/**
+ * Exports the request processor instance.
+ */
+export const requestProcessor = new InstructionsLlmRequestProcessor();
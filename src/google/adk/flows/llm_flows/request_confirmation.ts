@@ -0,0 +1,134 @@
+// Request confirmation LLM processor module for the Google Agent Development Kit (ADK) in TypeScript
+// Runs or rejects tool calls once a human has decided about them
+
+import { InvocationContext } from '../../agents/invocation_context';
+import { Event } from '../../events/event';
+import { LlmRequest } from '../../models/llm_types';
+import { BaseTool } from '../../tools/base_tool';
+import { ToolConfirmation } from '../../tools/tool_confirmation';
+import { BaseLlmRequestProcessor } from './_base_llm_processor';
+import {
+  PENDING_LONG_RUNNING_CALLS_KEY,
+  PendingLongRunningCall,
+  REQUEST_CONFIRMATION_FUNCTION_CALL_NAME,
+  handleFunctionCallsAsync
+} from './functions';
+
+/**
+ * A tool call as recorded in a confirmation request.
+ */
+interface OriginalFunctionCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Interface for agents with tools
+interface AgentWithTools {
+  name: string;
+  canonicalTools: BaseTool[];
+}
+
+/**
+ * Handles the decisions about tool calls that had to be confirmed.
+ *
+ * When the latest event answers confirmation requests, the original tool
+ * calls are run with the confirmed arguments, or get an error response if
+ * they were rejected, before the model is called again. Calls that already
+ * have a response are not run again. If other calls of
+ * the invocation still wait for a decision, the invocation pauses again.
+ */
+class RequestConfirmationLlmRequestProcessor extends BaseLlmRequestProcessor {
+  /**
+   * Runs the processor on the given invocation context and LLM request.
+   *
+   * @param invocationContext The invocation context
+   * @param llmRequest The LLM request to process
+   * @returns An async generator yielding the function response event
+   */
+  async *runAsync(
+    invocationContext: InvocationContext,
+    _llmRequest: LlmRequest
+  ): AsyncGenerator<Event, void, unknown> {
+    const agent = invocationContext.agent;
+    const events = invocationContext.session?.events || [];
+    if (!agent || !('canonicalTools' in agent) || events.length === 0) {
+      return;
+    }
+
+    const lastEvent = events[events.length - 1];
+    if (lastEvent.getAuthor() !== 'user') {
+      return;
+    }
+
+    const decisions = new Map<string, ToolConfirmation>();
+    for (const { functionResponse } of lastEvent.getFunctionResponses()) {
+      if (functionResponse?.id && functionResponse.name === REQUEST_CONFIRMATION_FUNCTION_CALL_NAME) {
+        const response = functionResponse.response as ToolConfirmation;
+        decisions.set(functionResponse.id, { confirmed: response.confirmed === true, args: response.args });
+      }
+    }
+    if (decisions.size === 0) {
+      return;
+    }
+
+    // Tool calls that already have a response were decided before, and a
+    // repeated decision must not run them again
+    const answeredCallIds = new Set(events.flatMap(event =>
+      event.getFunctionResponses().map(({ functionResponse }) => functionResponse?.id)
+    ));
+
+    // Find the tool calls the confirmation requests were made for
+    const originalCalls: OriginalFunctionCall[] = [];
+    const toolConfirmations: Record<string, ToolConfirmation> = {};
+    for (const event of events) {
+      for (const { functionCall } of event.getFunctionCalls()) {
+        const decision = functionCall?.id ? decisions.get(functionCall.id) : undefined;
+        if (!decision || functionCall?.name !== REQUEST_CONFIRMATION_FUNCTION_CALL_NAME) {
+          continue;
+        }
+        const originalCall = functionCall.args.originalFunctionCall as OriginalFunctionCall;
+        if (answeredCallIds.has(originalCall.id) || originalCall.id in toolConfirmations) {
+          continue;
+        }
+        originalCalls.push(originalCall);
+        toolConfirmations[originalCall.id] = decision;
+      }
+    }
+    if (originalCalls.length === 0) {
+      return;
+    }
+
+    const functionCallEvent = new Event({
+      invocationId: invocationContext.invocationId,
+      author: agent.name,
+      branch: invocationContext.branch,
+      content: { role: 'model', parts: originalCalls.map(functionCall => ({ functionCall })) }
+    });
+    const toolsDict = Object.fromEntries(
+      (agent as AgentWithTools).canonicalTools.map(tool => [tool.name, tool])
+    );
+
+    const functionResponseEvent = await handleFunctionCallsAsync(
+      invocationContext,
+      functionCallEvent,
+      toolsDict,
+      toolConfirmations
+    );
+    if (functionResponseEvent) {
+      yield functionResponseEvent;
+    }
+
+    // Wait until every call of the invocation has been decided
+    const pendingCalls = (invocationContext.session?.state[PENDING_LONG_RUNNING_CALLS_KEY] || {}) as
+      Record<string, PendingLongRunningCall>;
+    if (Object.values(pendingCalls).some(call =>
+      call.name === REQUEST_CONFIRMATION_FUNCTION_CALL_NAME && call.invocationId === invocationContext.invocationId
+    )) {
+      invocationContext.endInvocation = true;
+    }
+  }
+}
+
+// Export the request processor instance
+export const requestProcessor = new RequestConfirmationLlmRequestProcessor();
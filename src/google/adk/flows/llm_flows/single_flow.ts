@@ -0,0 +1,44 @@
+// Single flow module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the single flow functionality from the Python SDK
+
+import { requestProcessor as authRequestProcessor } from '../../auth/auth_preprocessor';
+import { BaseLlmFlow } from './base_llm_flow';
+import * as basic from './basic';
+import * as codeExecution from './_code_execution';
+import * as contents from './contents';
+import * as instructions from './instructions';
+import * as nlPlanning from './_nl_planning';
+import * as requestConfirmation from './request_confirmation';
+
+/**
+ * SingleFlow is the LLM flow that handles tool calls.
+ *
+ * A single flow only considers an agent itself and its tools. No sub-agents
+ * are allowed in a single flow.
+ */
+export class SingleFlow extends BaseLlmFlow {
+  /**
+   * Creates a new SingleFlow.
+   */
+  constructor() {
+    super();
+    this.requestProcessors.push(
+      basic.requestProcessor,
+      authRequestProcessor,
+      requestConfirmation.requestProcessor,
+      instructions.requestProcessor,
+      contents.requestProcessor,
+      // Some implementations of NL planning mark planning contents as thoughts
+      // in the post processor. Since these need to be unmarked, NL planning
+      // should be after contents.
+      nlPlanning.requestProcessor,
+      // Code execution should be after the contents as it mutates the contents
+      // to optimize data files.
+      codeExecution.requestProcessor
+    );
+    this.responseProcessors.push(
+      nlPlanning.responseProcessor,
+      codeExecution.responseProcessor
+    );
+  }
+}
@@ -18,15 +18,23 @@ export class MemoryResult {
    */
   events: Event[];
 
+  /**
+   * How relevant the memory is to the query, higher is more relevant.
+   * Only set by services that rank their results.
+   */
+  score?: number;
+
   /**
    * Creates a new MemoryResult.
    */
   constructor(data: {
     sessionId: string;
     events: Event[];
+    score?: number;
   }) {
     this.sessionId = data.sessionId;
     this.events = data.events;
+    this.score = data.score;
   }
 }
 
@@ -53,7 +61,8 @@ export class SearchMemoryResponse {
  * Base class for memory services.
  * 
  * The service provides functionalities to ingest sessions into memory so that
- * the memory can be used for user queries.
+ * the memory can be used for user queries. All methods are asynchronous so
+ * that implementations can call out to embedding models or remote stores.
  */
 export abstract class BaseMemoryService {
   /**
@@ -63,7 +72,7 @@ export abstract class BaseMemoryService {
    * 
    * @param session The session to add
    */
-  abstract addSessionToMemory(session: Session): void;
+  abstract addSessionToMemory(session: Session): Promise<void>;
 
   /**
    * Searches for sessions that match the query.
@@ -77,5 +86,5 @@ export abstract class BaseMemoryService {
     appName: string,
     userId: string,
     query: string
-  ): SearchMemoryResponse;
+  ): Promise<SearchMemoryResponse>;
 }
\ No newline at end of file
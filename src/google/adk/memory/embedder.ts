@@ -0,0 +1,105 @@
+// Embedder module for the Google Agent Development Kit (ADK) in TypeScript
+// Turns text into vectors for the vector memory service
+
+/**
+ * Interface for models that turn text into embedding vectors.
+ *
+ * Implementations must return one vector per input text, and all vectors
+ * produced by an embedder must have the same length.
+ */
+export interface Embedder {
+  /**
+   * Embeds a batch of texts.
+   *
+   * @param texts The texts to embed
+   * @returns One vector per text, in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * A deterministic embedder that hashes words and character trigrams into a
+ * fixed number of buckets.
+ *
+ * It needs no model or network access, which makes it suitable for tests and
+ * offline prototyping. Trigrams let words that share a stem ("deploy" and
+ * "deployment") land close to each other, but it does not understand synonyms.
+ */
+export class HashingEmbedder implements Embedder {
+  /**
+   * The length of the produced vectors.
+   */
+  readonly dimensions: number;
+
+  /**
+   * Creates a new HashingEmbedder.
+   *
+   * @param options.dimensions The length of the produced vectors, defaults to 256
+   */
+  constructor(options: { dimensions?: number } = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error(`Embedding dimensions must be a positive integer, got ${this.dimensions}`);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.substring(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+/**
+ * Computes the cosine similarity of two vectors.
+ *
+ * @returns The similarity in [-1, 1], or 0 if either vector is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of length ${a.length} and ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -29,7 +29,7 @@ export class InMemoryMemoryService extends BaseMemoryService {
    * 
    * @param session The session to add
    */
-  addSessionToMemory(session: Session): void {
+  async addSessionToMemory(session: Session): Promise<void> {
     const key = `${session.appName}/${session.userId}/${session.id}`;
     this.sessionEvents[key] = session.events.filter(event => event.getContent());
   }
@@ -42,11 +42,11 @@ export class InMemoryMemoryService extends BaseMemoryService {
    * @param query The query to search for
    * @returns A SearchMemoryResponse containing the matching memories
    */
-  searchMemory(
+  async searchMemory(
     appName: string,
     userId: string,
     query: string
-  ): SearchMemoryResponse {
+  ): Promise<SearchMemoryResponse> {
     // Split query into keywords for matching
     const keywords = new Set(query.toLowerCase().split(/\s+/));
     const response = new SearchMemoryResponse();
@@ -2,4 +2,6 @@
 // Mirrors the memory functionality from the Python SDK
 
 export * from './base_memory_service';
-export * from './in_memory_memory_service';
\ No newline at end of file
+export * from './in_memory_memory_service';
+export * from './embedder';
+export * from './vector_memory_service';
@@ -0,0 +1,306 @@
+// Vector memory service module for the Google Agent Development Kit (ADK) in TypeScript
+// Retrieves memories by embedding similarity instead of keyword matching
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Content } from '../models/base_llm';
+import { Event } from '../events/event';
+import { Session } from '../sessions/session';
+import { BaseMemoryService, MemoryResult, SearchMemoryResponse } from './base_memory_service';
+import { Embedder, HashingEmbedder, cosineSimilarity } from './embedder';
+
+/**
+ * The fields of an event kept in the memory index.
+ */
+interface StoredEvent {
+  id: string;
+  invocationId: string;
+  author: string;
+  timestamp: number;
+  content: Content | null;
+}
+
+/**
+ * A passage of a session together with its embedding.
+ */
+interface StoredPassage {
+  appName: string;
+  userId: string;
+  sessionId: string;
+  text: string;
+  vector: number[];
+  events: StoredEvent[];
+}
+
+/**
+ * The on-disk format of the memory index.
+ */
+interface StoredIndex {
+  version: 1;
+  passages: StoredPassage[];
+}
+
+/**
+ * Options for the VectorMemoryService.
+ */
+export interface VectorMemoryServiceOptions {
+  /**
+   * The embedder used for passages and queries. Defaults to a HashingEmbedder.
+   */
+  embedder?: Embedder;
+
+  /**
+   * The file the index is loaded from and saved to. When omitted the index
+   * only lives in memory.
+   */
+  indexPath?: string;
+
+  /**
+   * The maximum number of characters in a passage. Events are never split,
+   * so a single long event can exceed it. Defaults to 1000.
+   */
+  maxPassageChars?: number;
+
+  /**
+   * The maximum number of results returned by a search. Defaults to 5.
+   */
+  topK?: number;
+
+  /**
+   * The minimum similarity score of a returned result. Defaults to 0.1.
+   */
+  minScore?: number;
+}
+
+/**
+ * A memory service that retrieves memories by semantic similarity.
+ *
+ * Sessions are split into passages of consecutive events, each passage is
+ * embedded, and searches return the passages closest to the embedded query,
+ * ranked by cosine similarity.
+ */
+export class VectorMemoryService extends BaseMemoryService {
+  private readonly embedder: Embedder;
+  private readonly indexPath?: string;
+  private readonly maxPassageChars: number;
+  private readonly topK: number;
+  private readonly minScore: number;
+
+  /**
+   * The indexed passages of all sessions.
+   */
+  private passages: StoredPassage[] = [];
+
+  /**
+   * Resolves once the index has been loaded from disk.
+   */
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Resolves once the latest write of the index has finished.
+   */
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new VectorMemoryService.
+   *
+   * @param options The options for the service
+   */
+  constructor(options: VectorMemoryServiceOptions = {}) {
+    super();
+    this.embedder = options.embedder ?? new HashingEmbedder();
+    this.indexPath = options.indexPath;
+    this.maxPassageChars = options.maxPassageChars ?? 1000;
+    this.topK = options.topK ?? 5;
+    this.minScore = options.minScore ?? 0.1;
+  }
+
+  /**
+   * Adds a session to the memory service.
+   *
+   * Adding a session again replaces the passages indexed for it before.
+   *
+   * @param session The session to add
+   */
+  async addSessionToMemory(session: Session): Promise<void> {
+    await this.loadIndex();
+
+    const chunks = this.chunkSession(session);
+    const vectors = chunks.length > 0
+      ? await this.embedder.embed(chunks.map(chunk => chunk.text))
+      : [];
+
+    if (vectors.length !== chunks.length) {
+      throw new Error(`Embedder returned ${vectors.length} vectors for ${chunks.length} passages`);
+    }
+
+    const passages = chunks.map((chunk, i): StoredPassage => ({
+      appName: session.appName,
+      userId: session.userId,
+      sessionId: session.id,
+      text: chunk.text,
+      vector: vectors[i],
+      events: chunk.events.map(toStoredEvent)
+    }));
+
+    this.passages = this.passages
+      .filter(passage => !isSameSession(passage, session.appName, session.userId, session.id))
+      .concat(passages);
+
+    await this.saveIndex();
+  }
+
+  /**
+   * Searches for the passages most similar to the query.
+   *
+   * @param appName The name of the application
+   * @param userId The id of the user
+   * @param query The query to search for
+   * @returns A SearchMemoryResponse with one result per matching passage, best match first
+   */
+  async searchMemory(
+    appName: string,
+    userId: string,
+    query: string
+  ): Promise<SearchMemoryResponse> {
+    await this.loadIndex();
+
+    const candidates = this.passages.filter(
+      passage => passage.appName === appName && passage.userId === userId
+    );
+    if (candidates.length === 0 || !query.trim()) {
+      return new SearchMemoryResponse();
+    }
+
+    const [queryVector] = await this.embedder.embed([query]);
+
+    const memories = candidates
+      .map(passage => ({ passage, score: cosineSimilarity(queryVector, passage.vector) }))
+      .filter(({ score }) => score >= this.minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.topK)
+      .map(({ passage, score }) => new MemoryResult({
+        sessionId: passage.sessionId,
+        events: passage.events.map(fromStoredEvent),
+        score
+      }));
+
+    return new SearchMemoryResponse({ memories });
+  }
+
+  /**
+   * Splits the text events of a session into passages of consecutive events.
+   */
+  private chunkSession(session: Session): Array<{ text: string; events: Event[] }> {
+    const chunks: Array<{ text: string; events: Event[] }> = [];
+    let lines: string[] = [];
+    let events: Event[] = [];
+    let length = 0;
+
+    const flush = () => {
+      if (events.length > 0) {
+        chunks.push({ text: lines.join('\n'), events });
+      }
+      lines = [];
+      events = [];
+      length = 0;
+    };
+
+    for (const event of session.events) {
+      const text = (event.getContent()?.parts || [])
+        .filter(part => part.text)
+        .map(part => part.text)
+        .join('\n')
+        .trim();
+      if (!text) {
+        continue;
+      }
+
+      const line = `${event.getAuthor()}: ${text}`;
+      if (events.length > 0 && length + line.length + 1 > this.maxPassageChars) {
+        flush();
+      }
+
+      lines.push(line);
+      events.push(event);
+      length += line.length + 1;
+    }
+    flush();
+
+    return chunks;
+  }
+
+  private loadIndex(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readIndexFile();
+    }
+    return this.loading;
+  }
+
+  private async readIndexFile(): Promise<void> {
+    if (!this.indexPath) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.indexPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const index = JSON.parse(content) as StoredIndex;
+    if (index.version !== 1) {
+      throw new Error(`Unsupported memory index version ${index.version} in ${this.indexPath}`);
+    }
+    this.passages = index.passages.concat(this.passages);
+  }
+
+  private saveIndex(): Promise<void> {
+    const indexPath = this.indexPath;
+    if (!indexPath) {
+      return Promise.resolve();
+    }
+
+    // Chain writes so that an older snapshot never overwrites a newer one
+    const index: StoredIndex = { version: 1, passages: this.passages };
+    const content = JSON.stringify(index);
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(indexPath), { recursive: true });
+        const tmpPath = `${indexPath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmpPath, content);
+        await fs.promises.rename(tmpPath, indexPath);
+      });
+
+    return this.saving;
+  }
+}
+
+function isSameSession(passage: StoredPassage, appName: string, userId: string, sessionId: string): boolean {
+  return passage.appName === appName && passage.userId === userId && passage.sessionId === sessionId;
+}
+
+function toStoredEvent(event: Event): StoredEvent {
+  return {
+    id: event.getId(),
+    invocationId: event.getInvocationId(),
+    author: event.getAuthor(),
+    timestamp: event.getTimestamp(),
+    content: event.getContent()
+  };
+}
+
+function fromStoredEvent(event: StoredEvent): Event {
+  return new Event({
+    id: event.id,
+    invocationId: event.invocationId,
+    author: event.author,
+    timestamp: event.timestamp,
+    content: event.content
+  });
+}
@@ -0,0 +1,537 @@
+// Anthropic LLM module for the Google Agent Development Kit (ADK) in TypeScript
+// Implements Claude integration through the Anthropic Messages API
+
+import fetch from 'node-fetch';
+import { BaseLlm, LlmRequest, LlmResponse, Content, AdkTool, AdkPart, AdkSchema, AdkFunctionCall } from './base_llm';
+import { BaseLlmConnection } from './base_llm_connection';
+
+/**
+ * The HTTP request sent to the Messages API.
+ */
+export interface AnthropicHttpRequest {
+  method: 'POST';
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * The parts of an HTTP response read by the adapter.
+ *
+ * Responses of node-fetch satisfy this interface.
+ */
+export interface AnthropicHttpResponse {
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+  body: AsyncIterable<Uint8Array | string> | null;
+}
+
+/**
+ * The transport used to call the Messages API. Defaults to node-fetch, and
+ * can be replaced to route requests through a proxy or to mock them in tests.
+ */
+export type AnthropicTransport = (url: string, request: AnthropicHttpRequest) => Promise<AnthropicHttpResponse>;
+
+/**
+ * Options for the AnthropicLlm.
+ */
+export type AnthropicLlmOptions = {
+  model: string;
+
+  /**
+   * The API key. Defaults to the ANTHROPIC_API_KEY environment variable.
+   */
+  apiKey?: string;
+
+  /**
+   * The base URL of the API. Defaults to https://api.anthropic.com.
+   */
+  baseUrl?: string;
+
+  /**
+   * The transport used to send requests. Defaults to node-fetch.
+   */
+  transport?: AnthropicTransport;
+} & LlmRequest;
+
+/**
+ * An error returned by the Anthropic API.
+ */
+export class AnthropicApiError extends Error {
+  /**
+   * The HTTP status of the response, or undefined for errors sent inside a stream.
+   */
+  readonly status?: number;
+
+  /**
+   * The type of the error, e.g. `rate_limit_error` or `overloaded_error`.
+   */
+  readonly errorType?: string;
+
+  /**
+   * The number of seconds to wait before retrying, from the retry-after header.
+   */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: { status?: number; errorType?: string; retryAfter?: number } = {}) {
+    super(message);
+    this.name = 'AnthropicApiError';
+    this.status = options.status;
+    this.errorType = options.errorType;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * The API version sent in the anthropic-version header.
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * The maximum number of tokens requested when the request does not set one,
+ * since the Messages API requires it.
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessageResponse {
+  content: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+/**
+ * An event of a streamed response.
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: AnthropicMessageResponse;
+  content_block?: AnthropicContentBlock;
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Anthropic LLM class for the Google Agent Development Kit (ADK)
+ * Implements the BaseLlm interface to provide a consistent API for Claude models
+ */
+export class AnthropicLlm extends BaseLlm {
+  // The API key for authenticating with the Anthropic API
+  private apiKey: string;
+
+  // The base URL of the Anthropic API
+  private baseUrl: string;
+
+  // The transport used to send requests
+  private transport: AnthropicTransport;
+
+  /**
+   * Creates a new AnthropicLlm.
+   *
+   * @param options Configuration options
+   */
+  constructor(options: AnthropicLlmOptions) {
+    super(options.model);
+    this.apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY || '';
+    if (!this.apiKey) {
+      throw new Error('Anthropic API key not found in environment variables (ANTHROPIC_API_KEY)');
+    }
+    this.baseUrl = (options.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+    this.transport = options.transport || ((url, request) => fetch(url, request));
+  }
+
+  /**
+   * Generates content from the model.
+   *
+   * @param request The request to the model
+   * @param stream Whether to stream the response
+   * @returns The final response from the model
+   */
+  async generateContent(request: LlmRequest, stream: boolean = false): Promise<LlmResponse> {
+    let last: LlmResponse = {};
+    for await (const response of this.generateContentAsync(request, stream)) {
+      last = response;
+    }
+    return last;
+  }
+
+  /**
+   * Generates content from the model asynchronously.
+   *
+   * When streaming, each text delta is yielded as a partial response, followed
+   * by one complete response with the whole text and all tool calls.
+   *
+   * @param request The request to the model
+   * @param stream Whether to stream the response
+   * @returns An async generator yielding responses from the model
+   * @throws AnthropicApiError if the API returns an error
+   */
+  async *generateContentAsync(
+    request: LlmRequest,
+    stream: boolean = false
+  ): AsyncGenerator<LlmResponse, void, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model || this.model,
+      messages: this.convertContentsToAnthropicMessages(request.contents || []),
+      max_tokens: request.generationConfig?.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+      stream
+    };
+
+    if (request.systemInstruction) {
+      body.system = request.systemInstruction;
+    }
+    if (request.generationConfig?.temperature !== undefined) {
+      body.temperature = request.generationConfig.temperature;
+    }
+    if (request.generationConfig?.topP !== undefined) {
+      body.top_p = request.generationConfig.topP;
+    }
+    if (request.generationConfig?.topK !== undefined) {
+      body.top_k = request.generationConfig.topK;
+    }
+    if (request.generationConfig?.stopSequences?.length) {
+      body.stop_sequences = request.generationConfig.stopSequences;
+    }
+
+    const tools = this.convertToolsToAnthropicTools(request.tools || []);
+    if (tools.length > 0) {
+      body.tools = tools;
+    }
+
+    const response = await this.transport(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw await createApiError(response);
+    }
+
+    if (!stream) {
+      const message = JSON.parse(await response.text()) as AnthropicMessageResponse;
+      yield createResponse(message.content, message.stop_reason, message.usage, message);
+      return;
+    }
+
+    // Content blocks arrive in fragments, keyed by their index in the message
+    const blocks = new Map<number, AnthropicContentBlock & { partialJson?: string }>();
+    let stopReason: string | null | undefined = undefined;
+    const usage: AnthropicUsage = {};
+
+    for await (const event of readServerSentEvents(response)) {
+      switch (event.type) {
+      case 'message_start':
+        Object.assign(usage, event.message?.usage);
+        break;
+      case 'content_block_start':
+        blocks.set(event.index!, { ...event.content_block!, partialJson: '' });
+        break;
+      case 'content_block_delta': {
+        const block = blocks.get(event.index!);
+        if (event.delta?.type === 'text_delta' && block?.type === 'text') {
+          block.text += event.delta.text || '';
+          yield {
+            content: { role: 'model', parts: [{ text: event.delta.text }] },
+            text: event.delta.text,
+            partial: true,
+            rawResponse: event
+          };
+        } else if (event.delta?.type === 'input_json_delta' && block?.type === 'tool_use') {
+          block.partialJson += event.delta.partial_json || '';
+        }
+        break;
+      }
+      case 'message_delta':
+        stopReason = event.delta?.stop_reason ?? stopReason;
+        Object.assign(usage, event.usage);
+        break;
+      case 'error':
+        throw new AnthropicApiError(event.error?.message || 'Unknown error in Anthropic stream', {
+          errorType: event.error?.type
+        });
+      }
+    }
+
+    const content = [...blocks.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, block]): AnthropicContentBlock => {
+        if (block.type !== 'tool_use') {
+          return block;
+        }
+        return {
+          type: 'tool_use',
+          id: block.id,
+          name: block.name,
+          input: block.partialJson ? parseToolInput(block.name, block.partialJson) : block.input || {}
+        };
+      });
+    yield createResponse(content, stopReason, usage, null);
+  }
+
+  /**
+   * Connects to the model for live interaction.
+   *
+   * @throws Error since the Messages API has no live sessions
+   */
+  async connect(): Promise<BaseLlmConnection> {
+    throw new Error(`Live connections are not supported by ${this.model}`);
+  }
+
+  /**
+   * Converts ADK content format to Anthropic messages.
+   *
+   * Function calls become tool_use blocks of assistant messages, and function
+   * responses become tool_result blocks of user messages. Consecutive contents
+   * of the same role are merged, since the API expects alternating roles.
+   *
+   * @param contents The contents to convert
+   * @returns The Anthropic messages
+   */
+  private convertContentsToAnthropicMessages(contents: Content[]): AnthropicMessage[] {
+    const messages: AnthropicMessage[] = [];
+
+    for (const content of contents) {
+      const role = content.role === 'model' || content.role === 'assistant' ? 'assistant' : 'user';
+      const blocks = (content.parts || []).flatMap((part: AdkPart, index: number) => convertPart(part, index));
+      if (blocks.length === 0) {
+        continue;
+      }
+
+      const previous = messages[messages.length - 1];
+      if (previous?.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        messages.push({ role, content: blocks });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Converts ADK tools to Anthropic tools format
+   *
+   * @param tools The tools to convert
+   * @returns The Anthropic tools
+   */
+  private convertToolsToAnthropicTools(tools: AdkTool[]): Record<string, unknown>[] {
+    return tools.flatMap(tool => (tool.functionDeclarations || []).map(func => ({
+      name: func.name || 'unnamed_function',
+      description: func.description || '',
+      input_schema: func.parameters
+        ? convertSchema(func.parameters)
+        : { type: 'object', properties: {} }
+    })));
+  }
+
+  /**
+   * Returns a list of supported models in regex format
+   *
+   * @returns Array of regex patterns for supported models
+   */
+  static supportedModels(): string[] {
+    return [
+      'claude-.*'
+    ];
+  }
+}
+
+function convertPart(part: AdkPart, index: number): AnthropicContentBlock[] {
+  if (part.text) {
+    return [{ type: 'text', text: part.text }];
+  }
+  if (part.inlineData?.data) {
+    return [{
+      type: 'image',
+      source: { type: 'base64', media_type: part.inlineData.mimeType || 'image/png', data: part.inlineData.data }
+    }];
+  }
+  if (part.functionCall) {
+    return [{
+      type: 'tool_use',
+      // Calls made before IDs were recorded fall back to their position
+      id: part.functionCall.id || `toolu_${index}`,
+      name: part.functionCall.name || '',
+      input: part.functionCall.args || {}
+    }];
+  }
+  if (part.functionResponse) {
+    const response = part.functionResponse.response;
+    return [{
+      type: 'tool_result',
+      tool_use_id: part.functionResponse.id || `toolu_${index}`,
+      content: typeof response === 'string' ? response : JSON.stringify(response ?? {})
+    }];
+  }
+  return [];
+}
+
+/**
+ * Converts an ADK schema to a JSON Schema, which uses lowercase type names.
+ */
+function convertSchema(schema: AdkSchema): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...schema };
+  if (schema.type) {
+    result.type = schema.type.toLowerCase();
+  }
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, convertSchema(property)])
+    );
+  }
+  if (schema.items) {
+    result.items = convertSchema(schema.items);
+  }
+  if (schema.oneOf) {
+    result.oneOf = schema.oneOf.map(convertSchema);
+  }
+  return result;
+}
+
+/**
+ * Creates the complete response of the model.
+ */
+function createResponse(
+  blocks: AnthropicContentBlock[],
+  stopReason: string | null | undefined,
+  usage: AnthropicUsage | undefined,
+  rawResponse: unknown
+): LlmResponse {
+  const parts: AdkPart[] = [];
+  const functionCalls: AdkFunctionCall[] = [];
+  for (const block of blocks) {
+    if (block.type === 'text' && block.text) {
+      parts.push({ text: block.text });
+    } else if (block.type === 'tool_use') {
+      const functionCall = { id: block.id, name: block.name, args: block.input };
+      parts.push({ functionCall });
+      functionCalls.push(functionCall);
+    }
+  }
+
+  const text = parts.filter(part => part.text).map(part => part.text).join('');
+  const content: Content = { role: 'model', parts };
+  const finishReason = stopReason?.toUpperCase();
+
+  return {
+    content,
+    candidates: [{ index: 0, content, finishReason }],
+    text: text || undefined,
+    functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+    partial: false,
+    finishReason,
+    turnComplete: true,
+    rawResponse,
+    usageMetadata: {
+      promptTokenCount: usage?.input_tokens ?? 0,
+      candidatesTokenCount: usage?.output_tokens ?? 0,
+      totalTokenCount: (usage?.input_tokens ?? 0) + (usage?.output_tokens ?? 0)
+    }
+  };
+}
+
+/**
+ * Parses the streamed JSON input of a tool call.
+ *
+ * @throws Error if the input is not a JSON object
+ */
+function parseToolInput(name: string, inputJson: string): Record<string, unknown> {
+  let input: unknown;
+  try {
+    input = JSON.parse(inputJson);
+  } catch (error) {
+    throw new Error(`Invalid input for tool call ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error(`Invalid input for tool call ${name}: expected a JSON object`);
+  }
+  return input as Record<string, unknown>;
+}
+
+/**
+ * Creates the error for a failed HTTP response.
+ */
+async function createApiError(response: AnthropicHttpResponse): Promise<AnthropicApiError> {
+  const body = await response.text();
+  let message = body;
+  let errorType: string | undefined = undefined;
+  try {
+    const parsed = JSON.parse(body) as { error?: { type?: string; message?: string } };
+    message = parsed.error?.message || body;
+    errorType = parsed.error?.type;
+  } catch {
+    // Not a JSON error body, keep the raw text
+  }
+
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return new AnthropicApiError(`Anthropic API returned status ${response.status}: ${message}`, {
+    status: response.status,
+    errorType,
+    retryAfter: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+  });
+}
+
+/**
+ * Reads the events of a server-sent event stream.
+ */
+async function* readServerSentEvents(response: AnthropicHttpResponse): AsyncGenerator<AnthropicStreamEvent, void, unknown> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    buffer = buffer.replace(/\r\n/g, '\n');
+
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      const event = parseServerSentEvent(buffer.substring(0, separator));
+      buffer = buffer.substring(separator + 2);
+      if (event) {
+        yield event;
+      }
+      separator = buffer.indexOf('\n\n');
+    }
+  }
+
+  const event = parseServerSentEvent(buffer);
+  if (event) {
+    yield event;
+  }
+}
+
+function parseServerSentEvent(raw: string): AnthropicStreamEvent | null {
+  const data = raw
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.substring(5).trimStart())
+    .join('\n');
+  return data ? JSON.parse(data) as AnthropicStreamEvent : null;
+}
+
+// Export as both AnthropicLlm and Claude for consistency with other implementations
+export const Claude = AnthropicLlm;
@@ -69,6 +69,7 @@ export enum AdkType {
 }
 
 export interface AdkFunctionCall {
+  id?: string;
   name?: string;
   args?: Record<string, unknown>;
 }
@@ -112,7 +113,25 @@ export interface StructuredFunctionCallResponse {
   };
 }
 
+/**
+ * A switch from a failing model to the next one of a fallback chain.
+ */
+export interface ModelSwitch {
+  // The model that failed
+  fromModel: string;
+  // The model tried next
+  toModel: string;
+  // The error message of the failed model
+  reason: string;
+}
+
 export interface LlmResponse {
+  // The content of the response, as read by the LLM flows
+  content?: Content;
+  // Set when a fallback chain switched models, on a response without content
+  modelSwitch?: ModelSwitch;
+  // Whether the response is an incomplete chunk of a streamed response
+  partial?: boolean;
   text?: string | null;
   functionCalls?: AdkFunctionCall[]; 
   usageMetadata?: LlmUsageMetadata;
@@ -219,6 +238,7 @@ export interface AdkGenerationConfig {
 }
 
 export interface AdkFunctionResponse {
+  id?: string;
   name?: string;
   response?: Record<string, unknown>; 
 }
@@ -0,0 +1,295 @@
+// Fallback LLM module for the Google Agent Development Kit (ADK) in TypeScript
+// Retries failing models and falls back to the next model of an ordered chain
+
+import OpenAIApi from 'openai';
+import { BaseLlm, LlmRequest, LlmResponse } from './base_llm';
+import { BaseLlmConnection } from './base_llm_connection';
+import { AnthropicApiError } from './anthropic_llm';
+import { LlmRegistry } from './registry';
+import { ErrorRecoveryStrategies, LlmError, LlmModelError, LlmRateLimitError } from '../effect/errors';
+
+/**
+ * The classification of a model error.
+ *
+ * - LlmRateLimitError: the model is rate limited, retried after `retryAfter`
+ *   seconds if known.
+ * - LlmModelError: the model is temporarily unavailable (server errors,
+ *   overload, timeouts), retried with backoff.
+ * - LlmError: the error will not go away by retrying, the next model is
+ *   tried right away.
+ */
+export type LlmErrorClassification = LlmRateLimitError | LlmModelError | LlmError;
+
+/**
+ * Classifies an error thrown by a model.
+ */
+export type LlmErrorClassifier = (error: unknown, model: string) => LlmErrorClassification;
+
+/**
+ * Options for the FallbackLlm.
+ */
+export interface FallbackLlmOptions {
+  /**
+   * The models to try, in order. Model names are resolved through the LlmRegistry.
+   */
+  models: Array<BaseLlm | string>;
+
+  /**
+   * The number of retries of a model before falling back to the next one.
+   * Defaults to 2.
+   */
+  maxRetries?: number;
+
+  /**
+   * The delay before the first retry, doubled on every further retry.
+   * Defaults to 1000.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * The longest delay to wait for a rate limited model. Models asking to
+   * retry later than this are skipped right away. Defaults to 30000.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Classifies errors, defaults to classifyLlmError.
+   */
+  classifyError?: LlmErrorClassifier;
+}
+
+/**
+ * An LLM that tries an ordered list of models.
+ *
+ * Rate limits and server errors are retried with exponential backoff and
+ * jitter, honoring the retry delay the provider asks for. When a model keeps
+ * failing, the next one is tried, and a response with a `modelSwitch` and no
+ * content is yielded, which the LLM flows record as an event. Errors thrown
+ * after a model already yielded responses are not retried, since the output
+ * cannot be taken back.
+ */
+export class FallbackLlm extends BaseLlm {
+  /**
+   * The models to try, in order.
+   */
+  readonly models: BaseLlm[];
+
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly classifyError: LlmErrorClassifier;
+
+  /**
+   * Creates a new FallbackLlm. Its model name is the name of the first model.
+   *
+   * @param options Configuration options
+   */
+  constructor(options: FallbackLlmOptions) {
+    if (options.models.length === 0) {
+      throw new Error('FallbackLlm needs at least one model');
+    }
+    const models = options.models.map(model => (typeof model === 'string' ? LlmRegistry.resolve(model) : model));
+    super(models[0].model);
+
+    this.models = models;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.classifyError = options.classifyError ?? classifyLlmError;
+  }
+
+  /**
+   * Generates content with the first model that succeeds.
+   *
+   * @param request The request to the model
+   * @param stream Whether to stream the response
+   * @returns The last response of the model
+   */
+  async generateContent(request: LlmRequest, stream: boolean = false): Promise<LlmResponse> {
+    let last: LlmResponse = {};
+    for await (const response of this.generateContentAsync(request, stream)) {
+      if (!response.modelSwitch) {
+        last = response;
+      }
+    }
+    return last;
+  }
+
+  /**
+   * Generates content with the first model that succeeds.
+   *
+   * @param request The request to the model
+   * @param stream Whether to stream the response
+   * @returns An async generator yielding the responses of the model, preceded
+   *   by a model switch response for every model that failed
+   * @throws The error of the last model if all models failed
+   */
+  async *generateContentAsync(
+    request: LlmRequest,
+    stream: boolean = false
+  ): AsyncGenerator<LlmResponse, void, unknown> {
+    let lastError: unknown = undefined;
+
+    for (const [index, llm] of this.models.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        try {
+          // The flows set the model of the request to the name of this LLM
+          for await (const response of llm.generateContentAsync({ ...request, model: llm.model }, stream)) {
+            started = true;
+            yield response;
+          }
+          return;
+        } catch (error) {
+          if (started) {
+            throw error;
+          }
+          lastError = error;
+        }
+
+        const delayMs = this.getRetryDelay(this.classifyError(lastError, llm.model), attempt);
+        if (delayMs === null) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+
+      const next = this.models[index + 1];
+      if (next) {
+        yield {
+          modelSwitch: {
+            fromModel: llm.model,
+            toModel: next.model,
+            reason: lastError instanceof Error ? lastError.message : String(lastError)
+          }
+        };
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Connects to the first model that accepts the connection.
+   *
+   * @param request The request to the model
+   * @returns A connection to the model
+   * @throws The error of the last model if no model accepted the connection
+   */
+  async connect(request: LlmRequest): Promise<BaseLlmConnection> {
+    let lastError: unknown = undefined;
+    for (const llm of this.models) {
+      try {
+        return await llm.connect({ ...request, model: llm.model });
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Returns the delay before retrying a failed attempt, or null to fall
+   * back to the next model.
+   */
+  private getRetryDelay(classification: LlmErrorClassification, attempt: number): number | null {
+    if (classification._tag === 'LlmError' || attempt >= this.maxRetries) {
+      return null;
+    }
+
+    const backoffMs = ErrorRecoveryStrategies.jitteredDelay(
+      Math.min(ErrorRecoveryStrategies.exponentialBackoff(attempt, this.baseDelayMs), this.maxDelayMs)
+    );
+    if (classification._tag === 'LlmRateLimitError' && classification.retryAfter !== undefined) {
+      const retryAfterMs = classification.retryAfter * 1000;
+      return retryAfterMs > this.maxDelayMs ? null : Math.max(retryAfterMs, backoffMs);
+    }
+    return backoffMs;
+  }
+}
+
+/**
+ * Classifies the errors of the Anthropic, OpenAI and Gemini models.
+ *
+ * Errors of other models are classified by their `status` property, if
+ * any, or by the status code in their message.
+ *
+ * @param error The error thrown by the model
+ * @param model The name of the model
+ * @returns The classification of the error
+ */
+export function classifyLlmError(error: unknown, model: string): LlmErrorClassification {
+  if (error instanceof AnthropicApiError) {
+    return classifyAnthropicError(error, model);
+  }
+  if (error instanceof OpenAIApi.APIError) {
+    return classifyOpenAiError(error, model);
+  }
+  return classifyGenericError(error, model);
+}
+
+function classifyAnthropicError(error: AnthropicApiError, model: string): LlmErrorClassification {
+  if (error.status === 429 || error.errorType === 'rate_limit_error') {
+    return LlmRateLimitError.create(error.message, { retryAfter: error.retryAfter, context: { model } });
+  }
+  // Overload errors are also sent inside streams, without a status
+  if ((error.status !== undefined && error.status >= 500) || error.errorType === 'overloaded_error' || error.errorType === 'api_error') {
+    return LlmModelError.create(error.message, model, { errorCode: error.errorType, available: false });
+  }
+  return LlmError.create(error.message, { modelName: model, cause: error });
+}
+
+function classifyOpenAiError(error: InstanceType<typeof OpenAIApi.APIError>, model: string): LlmErrorClassification {
+  // An exhausted quota is reported as a rate limit, but will not recover by waiting
+  if (error.status === 429 && error.code !== 'insufficient_quota') {
+    const headers = error.headers || {};
+    const retryAfterMs = Number(headers['retry-after-ms']);
+    const retryAfter = Number.isFinite(retryAfterMs) && retryAfterMs > 0
+      ? retryAfterMs / 1000
+      : parseRetryAfter(headers['retry-after']);
+    return LlmRateLimitError.create(error.message, { retryAfter, context: { model } });
+  }
+  if (
+    error instanceof OpenAIApi.APIConnectionError ||
+    (error.status !== undefined && (error.status >= 500 || error.status === 408 || error.status === 409))
+  ) {
+    return LlmModelError.create(error.message, model, { errorCode: error.code ?? undefined, available: false });
+  }
+  return LlmError.create(error.message, { modelName: model, cause: error });
+}
+
+function classifyGenericError(error: unknown, model: string): LlmErrorClassification {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown } | null)?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+
+  // Gemini errors carry the HTTP status and the gRPC status in their message,
+  // and the retry delay as `"retryDelay": "12s"`
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED/.test(message)) {
+    const retryDelay = message.match(/retryDelay\\?"\s*:\s*\\?"(\d+(?:\.\d+)?)s/);
+    return LlmRateLimitError.create(message, {
+      retryAfter: retryDelay ? Number(retryDelay[1]) : undefined,
+      context: { model }
+    });
+  }
+  if ((status !== undefined && status >= 500) || /\b50[0234]\b|UNAVAILABLE|DEADLINE_EXCEEDED|ETIMEDOUT|ECONNRESET/.test(message)) {
+    return LlmModelError.create(message, model, { available: false });
+  }
+  return LlmError.create(message, { modelName: model, cause: error });
+}
+
+/**
+ * Parses a retry-after header, given in seconds or as an HTTP date.
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds : undefined;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
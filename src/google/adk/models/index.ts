@@ -38,6 +38,7 @@ export {
   CachedContent,
   AdkFunctionResponse,
   AdkToolConfig,
+  ModelSwitch,
   FunctionCallingConfig,
   FunctionCallingMode
 } from './base_llm';
@@ -48,6 +49,18 @@ export { LlmResponse } from './llm_response';
 // From llm_request.ts
 export { LlmRequest } from './llm_request'; 
 
+// From schema_utils.ts
+export {
+  AgentSchema,
+  JsonSchema,
+  ZodLikeSchema,
+  SchemaValidationResult,
+  isZodLikeSchema,
+  toAdkSchema,
+  validateSchema,
+  parseJsonResponse
+} from './schema_utils';
+
 // From base_llm.ts
 export { BaseLlm } from './base_llm';
 
@@ -61,10 +74,40 @@ export { GeminiLlm } from './gemini_llm';
 export { GeminiLlmConnection } from './gemini_llm_connection';
 
 // From openai_llm.ts
-export { OpenAI, OpenAiLlm } from './openai_llm';
+export { OpenAI, OpenAiLlm, OpenAiLlmOptions, ModelCapabilities } from './openai_llm';
+
+// From openai_compatible_llm.ts
+export {
+  OpenAiCompatibleLlm,
+  OpenAiCompatibleLlmOptions,
+  OpenAiCompatibleProvider
+} from './openai_compatible_llm';
+
+// From prompt_function_calling.ts
+export { toPromptFunctionCallingRequest, parsePromptFunctionCalls } from './prompt_function_calling';
 
 // From openai_llm_connection.ts
 export { OpenAiLlmConnection } from './openai_llm_connection';
 
+// From anthropic_llm.ts
+export {
+  AnthropicLlm,
+  Claude,
+  AnthropicApiError,
+  AnthropicLlmOptions,
+  AnthropicTransport,
+  AnthropicHttpRequest,
+  AnthropicHttpResponse
+} from './anthropic_llm';
+
+// From fallback_llm.ts
+export {
+  FallbackLlm,
+  FallbackLlmOptions,
+  LlmErrorClassification,
+  LlmErrorClassifier,
+  classifyLlmError
+} from './fallback_llm';
+
 // From registry.ts
-export { LlmRegistry } from './registry';
\ No newline at end of file
+export { LlmRegistry, LlmFactory } from './registry';
\ No newline at end of file
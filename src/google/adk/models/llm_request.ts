@@ -2,6 +2,7 @@
 // Mirrors the LLM request functionality from the Python SDK
 
 import { GenAiContent, AdkGenerationConfig, AdkTool, AdkSafetySetting, LiveConnectConfig, AdkTool as BaseTool, LlmRequest as ILlmRequest } from './llm_types';
+import { AgentSchema, toAdkSchema } from './schema_utils';
 
 /**
  * Request to a language model.
@@ -75,12 +76,30 @@ export class LlmRequest implements ILlmRequest {
 
   /**
    * Set the output schema for the model.
-   * 
+   *
+   * The model is asked to respond with JSON. Schemas that can be converted
+   * to an AdkSchema are also sent as the response schema; Zod-like schemas
+   * are only enforced when the response is validated.
+   *
    * @param outputSchema The output schema to set
    */
-  setOutputSchema(outputSchema: Record<string, unknown>): void {
-    // This is a simplified implementation 
-    // In a real implementation, this would configure structured output format
-    console.log('Setting output schema:', outputSchema);
+  setOutputSchema(outputSchema: AgentSchema): void {
+    this.generationConfig = { ...this.generationConfig, responseMimeType: 'application/json' };
+
+    const responseSchema = toAdkSchema(outputSchema);
+    if (responseSchema) {
+      this.generationConfig.responseSchema = responseSchema;
+    }
   }
 }
+
+/**
+ * Appends instructions to the system instruction of a request.
+ *
+ * @param llmRequest The request to update
+ * @param instructions The instructions to append, each separated by a blank line
+ */
+export function appendInstructions(llmRequest: ILlmRequest, instructions: string[]): void {
+  const parts = [llmRequest.systemInstruction, ...instructions].filter(part => part);
+  llmRequest.systemInstruction = parts.length > 0 ? parts.join('\n\n') : undefined;
+}
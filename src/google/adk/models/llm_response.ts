@@ -1,7 +1,7 @@
 // LLM response module for the Google Agent Development Kit (ADK) in TypeScript
 // Mirrors the LLM response functionality from the Python SDK
 
-import { Content } from './base_llm';
+import { Content, ModelSwitch } from './base_llm';
 import { AdkFunctionCall, AdkSafetyRating, LlmUsageMetadata } from './llm_types';
 import { EventActions } from '../events/event_actions';
 
@@ -74,6 +74,11 @@ export class LlmResponse {
    */
   functionCall?: AdkFunctionCall;
 
+  /**
+   * The switch to another model of a fallback chain, if the response reports one.
+   */
+  modelSwitch?: ModelSwitch;
+
   /**
    * Creates a new LlmResponse.
    */
@@ -91,6 +96,7 @@ export class LlmResponse {
     finishReason?: string;
     safetyRatings?: AdkSafetyRating[];
     functionCall?: AdkFunctionCall;
+    modelSwitch?: ModelSwitch;
   } = {}) {
     this.id = data.id;
     this.content = data.content;
@@ -105,5 +111,6 @@ export class LlmResponse {
     this.finishReason = data.finishReason;
     this.safetyRatings = data.safetyRatings;
     this.functionCall = data.functionCall;
+    this.modelSwitch = data.modelSwitch;
   }
 }
\ No newline at end of file
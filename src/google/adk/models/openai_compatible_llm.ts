@@ -0,0 +1,117 @@
+// OpenAI-compatible LLM module for the Google Agent Development Kit (ADK) in TypeScript
+// Connects to local model servers with an OpenAI-compatible API, such as Ollama, vLLM and llama.cpp
+
+import { LlmRequest } from './base_llm';
+import { ModelCapabilities, OpenAiLlm } from './openai_llm';
+import { LlmRegistry } from './registry';
+
+/**
+ * The capabilities assumed for models of a provider unless configured
+ * otherwise. Tool calls are emulated, since many local models have no
+ * native tool support.
+ */
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  tools: false,
+  jsonMode: true,
+  vision: false
+};
+
+/**
+ * Options for the OpenAiCompatibleLlm.
+ */
+export type OpenAiCompatibleLlmOptions = {
+  model: string;
+
+  /**
+   * The base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1.
+   */
+  baseUrl: string;
+
+  /**
+   * The features the model supports. Native tool calls and vision are
+   * disabled by default, JSON mode is enabled.
+   */
+  capabilities?: Partial<ModelCapabilities>;
+} & LlmRequest;
+
+/**
+ * A server with an OpenAI-compatible API, whose models are addressed as
+ * `<prefix>/<model>`.
+ */
+export interface OpenAiCompatibleProvider {
+  /**
+   * The prefix of the model names, e.g. `ollama` for `ollama/llama3`.
+   */
+  prefix: string;
+
+  /**
+   * The base URL of the OpenAI-compatible API.
+   */
+  baseUrl: string;
+
+  /**
+   * The API key, if the server requires one.
+   */
+  apiKey?: string;
+
+  /**
+   * The capabilities of all models of the provider.
+   */
+  capabilities?: Partial<ModelCapabilities>;
+
+  /**
+   * The capabilities of specific models, keyed by a regex pattern of the
+   * model name without the prefix. They override the provider capabilities,
+   * and the first matching pattern wins.
+   */
+  models?: Record<string, Partial<ModelCapabilities>>;
+}
+
+/**
+ * LLM for models served through an OpenAI-compatible API.
+ *
+ * Models without native tool support can still call tools: the tools are
+ * described in the system instruction and the JSON tool calls the model
+ * writes are turned into function calls.
+ */
+export class OpenAiCompatibleLlm extends OpenAiLlm {
+  /**
+   * Creates a new OpenAiCompatibleLlm.
+   *
+   * @param options Configuration options
+   */
+  constructor(options: OpenAiCompatibleLlmOptions) {
+    super({
+      ...options,
+      capabilities: { ...DEFAULT_CAPABILITIES, ...options.capabilities }
+    });
+  }
+
+  /**
+   * Registers the models of a provider in the LlmRegistry.
+   *
+   * Model names starting with the provider prefix resolve to an
+   * OpenAiCompatibleLlm for the model name without the prefix, so that
+   * `ollama/llama3` requests the `llama3` model from the provider.
+   *
+   * @param provider The provider to register
+   */
+  static registerProvider(provider: OpenAiCompatibleProvider): void {
+    const prefix = `${provider.prefix}/`;
+    const pattern = `${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}.+`;
+
+    LlmRegistry.registerFactory(pattern, options => {
+      const model = options.model.substring(prefix.length);
+      const modelCapabilities = Object.entries(provider.models || {})
+        .find(([modelPattern]) => new RegExp(`^${modelPattern}$`).test(model))?.[1];
+
+      return new OpenAiCompatibleLlm({
+        ...options,
+        model,
+        baseUrl: provider.baseUrl,
+        apiKey: provider.apiKey,
+        capabilities: { ...provider.capabilities, ...modelCapabilities }
+      });
+    });
+  }
+}
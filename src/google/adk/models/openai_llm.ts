@@ -9,6 +9,46 @@ import {
   ChatCompletion,
   ChatCompletionMessageToolCall,
 } from 'openai/resources/chat/completions';
+import { CompletionUsage } from 'openai/resources/completions';
+import { parsePromptFunctionCalls, toPromptFunctionCallingRequest } from './prompt_function_calling';
+
+/**
+ * The features a model supports beyond plain text chat.
+ */
+export interface ModelCapabilities {
+  /**
+   * Whether the model supports native tool calls. Without it, tool calls are
+   * emulated through prompt formatting.
+   */
+  tools: boolean;
+
+  /**
+   * Whether the model supports the JSON response format.
+   */
+  jsonMode: boolean;
+
+  /**
+   * Whether the model accepts images.
+   */
+  vision: boolean;
+}
+
+/**
+ * Options for the OpenAiLlm.
+ */
+export type OpenAiLlmOptions = {
+  model: string;
+
+  /**
+   * The base URL of an OpenAI-compatible API. Defaults to the OpenAI API.
+   */
+  baseUrl?: string;
+
+  /**
+   * The features the model supports. All are enabled by default.
+   */
+  capabilities?: Partial<ModelCapabilities>;
+} & LlmRequest;
 
 /**
  * OpenAI LLM class for the Google Agent Development Kit (ADK)
@@ -24,20 +64,26 @@ export class OpenAiLlm extends BaseLlm {
   // Optional OpenAI LLM connection
   private connection: OpenAiLlmConnection | null = null;
 
+  // The features the model supports
+  readonly capabilities: ModelCapabilities;
+
   /**
    * Creates a new OpenAiLlm.
    * 
    * @param options Configuration options
    */
-  constructor(options: { model: string } & LlmRequest) {
+  constructor(options: OpenAiLlmOptions) {
     super(options.model);
-    // Retrieve API key from environment variables
-    this.apiKey = process.env.OPENAI_API_KEY || '';
-    if (!this.apiKey) {
+    // Retrieve API key from the options or environment variables. The OpenAI
+    // key is never sent to other servers.
+    this.apiKey = options.apiKey || (options.baseUrl ? '' : process.env.OPENAI_API_KEY || '');
+    if (!this.apiKey && !options.baseUrl) {
       throw new Error('OpenAI API key not found in environment variables (OPENAI_API_KEY)');
     }
-    // Initialize the SDK client
-    this.openaiClient = new OpenAIApi({ apiKey: this.apiKey });
+    // Initialize the SDK client. Local servers usually need no API key, but
+    // the SDK requires one.
+    this.openaiClient = new OpenAIApi({ apiKey: this.apiKey || 'none', baseURL: options.baseUrl });
+    this.capabilities = { tools: true, jsonMode: true, vision: true, ...options.capabilities };
   }
 
   async initializeModel() {
@@ -79,6 +125,17 @@ export class OpenAiLlm extends BaseLlm {
     request: LlmRequest,
     stream: boolean = false
   ): AsyncGenerator<LlmResponse, void, unknown> {
+    if (!this.capabilities.tools && request.tools?.some(tool => tool.functionDeclarations?.length)) {
+      // The tool call is only known once the response is complete, so the
+      // partial text of an emulated tool call is not streamed
+      for await (const response of this.generateContentAsync(toPromptFunctionCallingRequest(request), stream)) {
+        if (!response.partial) {
+          yield parsePromptFunctionCalls(response);
+        }
+      }
+      return;
+    }
+
     // Convert ADK request format to OpenAI format
     const messages = this.convertContentsToOpenAIMessages(request.contents || []);
     
@@ -108,99 +165,127 @@ export class OpenAiLlm extends BaseLlm {
       params.tools = tools;
     }
 
+    if (request.generationConfig?.responseMimeType === 'application/json' && this.capabilities.jsonMode) {
+      params.response_format = { type: 'json_object' };
+    }
+
     try {
       if (stream) {
         // Handle streaming response
         const streamResponse = await this.openaiClient.chat.completions.create({
           ...params,
           stream: true,
+          stream_options: { include_usage: true }
         });
-        
+
+        // Tool calls arrive in fragments, keyed by their index in the message
+        const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+        let text = '';
+        let finishReason: string | undefined = undefined;
+        let usage: CompletionUsage | undefined = undefined;
+
         for await (const chunk of streamResponse) {
-          if (chunk.choices[0]?.delta?.content) {
-            // Create a response object with the partial content
-            const response: LlmResponse = {
-              text: chunk.choices[0].delta.content,
-              // TODO: Map other relevant fields if available in partial chunks
-              rawResponse: chunk // Store the chunk as raw response for potential inspection
+          const choice = chunk.choices[0];
+          if (choice?.delta?.content) {
+            text += choice.delta.content;
+            yield {
+              content: { role: 'model', parts: [{ text: choice.delta.content }] },
+              text: choice.delta.content,
+              partial: true,
+              rawResponse: chunk
             };
-            yield response;
-          } else if (chunk.choices[0]?.delta?.tool_calls) {
-            // Handle partial tool calls if necessary (e.g., accumulating args)
-            // For now, yield a response indicating a tool call is starting/in progress
-            const toolCall = chunk.choices[0].delta.tool_calls[0];
-            if (toolCall && toolCall.function) {
-              const response: LlmResponse = {
-                functionCalls: [{ 
-                  name: toolCall.function.name || '', 
-                  args: {} // Args likely incomplete here, handle accumulation if needed
-                }],
-                rawResponse: chunk
-              };
-              yield response;
-            }
           }
-          
-          // If this is the last chunk, mark it as complete
-          if (chunk.choices[0]?.finish_reason) {
-            const response: LlmResponse = {
-              finishReason: chunk.choices[0].finish_reason.toUpperCase(),
-              turnComplete: true,
-              usageMetadata: {
-                promptTokenCount: chunk.usage?.prompt_tokens,
-                candidatesTokenCount: chunk.usage?.completion_tokens,
-                totalTokenCount: chunk.usage?.total_tokens
-              }
-            };
-            yield response;
+
+          for (const toolCallDelta of choice?.delta?.tool_calls || []) {
+            const toolCall = toolCalls.get(toolCallDelta.index) || { id: '', name: '', arguments: '' };
+            toolCall.id = toolCallDelta.id || toolCall.id;
+            toolCall.name += toolCallDelta.function?.name || '';
+            toolCall.arguments += toolCallDelta.function?.arguments || '';
+            toolCalls.set(toolCallDelta.index, toolCall);
           }
+
+          finishReason = choice?.finish_reason || finishReason;
+          // The usage is sent in a last chunk without choices
+          usage = chunk.usage || usage;
         }
+
+        const functionCalls = [...toolCalls.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([, toolCall]) => ({
+            id: toolCall.id,
+            name: toolCall.name,
+            args: parseToolCallArguments(toolCall.name, toolCall.arguments)
+          }));
+        yield this.createResponse(text, functionCalls, finishReason, usage, null);
       } else {
         // Handle non-streaming response
         const completion = await this.openaiClient.chat.completions.create(params) as ChatCompletion;
         
         // Use optional chaining and nullish coalescing for safe access
         const choice = completion.choices?.[0]; 
-        let textContent: string | undefined = undefined;
-        let functionCalls: { name: string; args: Record<string, unknown> }[] | undefined = undefined;
+        const functionCalls = (choice?.message?.tool_calls || []).map((tc: ChatCompletionMessageToolCall) => ({
+          id: tc.id,
+          name: tc.function.name,
+          args: parseToolCallArguments(tc.function.name, tc.function.arguments),
+        }));
 
-        if (choice?.message?.content) { // Safe access
-          textContent = choice.message.content;
-        }
-        
-        if (choice?.message?.tool_calls) { // Safe access
-          // Add explicit type for tc
-          functionCalls = choice.message.tool_calls.map((tc: ChatCompletionMessageToolCall) => ({
-            name: tc.function.name,
-            args: JSON.parse(tc.function.arguments || '{}'),
-          }));
-        }
-
-        const response: LlmResponse = {
-          text: textContent,
-          functionCalls: functionCalls,
-          rawResponse: completion,
-          usageMetadata: {
-            // Use optional chaining and nullish coalescing for safe access
-            promptTokenCount: completion.usage?.prompt_tokens ?? 0,
-            candidatesTokenCount: completion.usage?.completion_tokens ?? 0,
-            totalTokenCount: completion.usage?.total_tokens ?? 0
-          }
-        };
-        yield response;
+        yield this.createResponse(
+          choice?.message?.content || '',
+          functionCalls,
+          choice?.finish_reason,
+          completion.usage,
+          completion
+        );
       }
     } catch (error) {
       console.error('Error calling OpenAI API:', error);
-      // Yield an error response object or throw?
-      const errorResponse: LlmResponse = {
-        text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`, // Provide error message
-        rawResponse: error // Include error object
-      };
-      yield errorResponse; // Ensure semicolon exists
-      // Or rethrow: throw error;
+      // Rethrow as is, so that callers can tell rate limits and server errors apart
+      throw error;
     }
   }
 
+  /**
+   * Creates the complete response of the model.
+   *
+   * @param text The text of the response
+   * @param functionCalls The parsed tool calls of the response
+   * @param finishReason The OpenAI finish reason
+   * @param usage The token usage reported by OpenAI
+   * @param rawResponse The completion the response was created from, if any
+   * @returns The response, with the text and tool calls as parts of one content
+   */
+  private createResponse(
+    text: string,
+    functionCalls: { id: string; name: string; args: Record<string, unknown> }[],
+    finishReason: string | null | undefined,
+    usage: CompletionUsage | undefined,
+    rawResponse: unknown
+  ): LlmResponse {
+    const content: Content = {
+      role: 'model',
+      parts: [
+        ...(text ? [{ text }] : []),
+        ...functionCalls.map(functionCall => ({ functionCall }))
+      ]
+    };
+
+    return {
+      content,
+      candidates: [{ index: 0, content, finishReason: finishReason?.toUpperCase() }],
+      text: text || undefined,
+      functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+      partial: false,
+      finishReason: finishReason?.toUpperCase(),
+      turnComplete: true,
+      rawResponse,
+      usageMetadata: {
+        promptTokenCount: usage?.prompt_tokens ?? 0,
+        candidatesTokenCount: usage?.completion_tokens ?? 0,
+        totalTokenCount: usage?.total_tokens ?? 0
+      }
+    };
+  }
+
   /**
    * Connects to the model for live interaction.
    * 
@@ -245,80 +330,67 @@ export class OpenAiLlm extends BaseLlm {
    * @returns The OpenAI messages
    */
   private convertContentsToOpenAIMessages(contents: Content[]): OpenAIApi.Chat.ChatCompletionMessageParam[] {
-    return contents.map((content) => {
-      // TODO: Confirm the correct handling for undefined role. Defaulting to 'user'.
-      const role = (content.role || 'user') as OpenAIApi.Chat.ChatCompletionRole;
-      
+    return contents.flatMap((content): OpenAIApi.Chat.ChatCompletionMessageParam[] => {
+      const parts: AdkPart[] = content.parts || [];
+
       // Concatenate text from all text parts
-      const messageContent = content.parts // Add null check for content.parts
-        ? content.parts
-          .filter((part: AdkPart) => 'text' in part && !!part.text) // Use AdkPart type
-          .map((part: AdkPart) => (part as {text: string}).text) // Use AdkPart type and cast
-          .join('\n')
-        : ''; // Default to empty string if parts is undefined
-
-      if (role === 'assistant') {
-        const functionCallParts = content.parts // Add null check
-          ? content.parts
-            // Use type guard for functionCall
-            // Use AdkPart type for part parameter
-            .filter((part: AdkPart): part is { functionCall: { name: string; args: Record<string, unknown> } } =>
-              'functionCall' in part && !!part.functionCall
-            )
-          : [];
-
-        if (functionCallParts.length > 0) {
-          const toolCalls: OpenAIApi.Chat.ChatCompletionMessageToolCall[] = functionCallParts.map((part, index) => {
-            return {
-              id: `call_${index}`, // OpenAI needs an ID for tool_calls in assistant message
-              type: 'function' as const,
-              function: {
-                name: part.functionCall.name,
-                arguments: JSON.stringify(part.functionCall.args) // Only name and arguments here
-              }
-            };
-          });
+      const messageContent = parts
+        .filter((part: AdkPart) => !!part.text)
+        .map((part: AdkPart) => part.text)
+        .join('\n');
 
-          // If there are tool calls, content should be null according to OpenAI spec
-          return { role, tool_calls: toolCalls, content: null } as OpenAIApi.Chat.ChatCompletionAssistantMessageParam;
-        } else {
-          // Regular assistant message with content
-          return { role, content: messageContent } as OpenAIApi.Chat.ChatCompletionAssistantMessageParam;
+      if (content.role === 'model' || content.role === 'assistant') {
+        const toolCalls: OpenAIApi.Chat.ChatCompletionMessageToolCall[] = parts
+          .filter((part: AdkPart) => !!part.functionCall)
+          .map((part: AdkPart, index: number) => ({
+            // Calls made before IDs were recorded fall back to their position
+            id: part.functionCall!.id || `call_${index}`,
+            type: 'function' as const,
+            function: {
+              name: part.functionCall!.name || '',
+              arguments: JSON.stringify(part.functionCall!.args || {})
+            }
+          }));
+
+        if (toolCalls.length > 0) {
+          return [{ role: 'assistant', content: messageContent || null, tool_calls: toolCalls }];
         }
-      } else if (role === 'tool') {
-        // Handle tool response parts
-        const functionResponsePart = content.parts // Add null check
-          ? content.parts
-            // Use type guard for functionResponse
-            // Use AdkPart type for part parameter
-            .find((part: AdkPart): part is { functionResponse: { name: string; response: Record<string, unknown> } } =>
-              'functionResponse' in part && !!part.functionResponse
-            )
-          : undefined;
-        // Explicit check after find
-        if (functionResponsePart && 'functionResponse' in functionResponsePart && functionResponsePart.functionResponse) {
-          // Ensure default value for toolCallId if name is undefined
-          const toolCallId = functionResponsePart.functionResponse.name || 'unknown_tool_id'; 
-          const responseContent = typeof functionResponsePart.functionResponse.response === 'string' 
-            ? functionResponsePart.functionResponse.response 
-            : JSON.stringify(functionResponsePart.functionResponse.response) || '';
+        return [{ role: 'assistant', content: messageContent }];
+      }
 
+      // Each function response answers one tool call of the previous message
+      const toolMessages: OpenAIApi.Chat.ChatCompletionToolMessageParam[] = parts
+        .filter((part: AdkPart) => !!part.functionResponse)
+        .map((part: AdkPart, index: number) => {
+          const response = part.functionResponse!.response;
           return {
             role: 'tool' as const,
-            tool_call_id: toolCallId,
-            content: responseContent,
-          } as OpenAIApi.Chat.ChatCompletionToolMessageParam;
-        } else {
-          // Handle cases where a tool role message doesn't have the expected functionResponse part
-          console.warn('Tool role message found without valid functionResponse part:', content);
-          // Return a generic tool message or skip? Returning null/undefined might be better if skipping.
-          // For now, returning a message with empty content to avoid breaking the map structure.
-          return { role: 'tool' as const, tool_call_id: 'unknown_tool_id', content: '' } as OpenAIApi.Chat.ChatCompletionToolMessageParam;
-        }
-      } else {
-        // Handle 'user' role (or default)
-        return { role, content: messageContent } as OpenAIApi.Chat.ChatCompletionUserMessageParam;
+            tool_call_id: part.functionResponse!.id || `call_${index}`,
+            content: typeof response === 'string' ? response : JSON.stringify(response ?? {})
+          };
+        });
+
+      const images = parts.filter((part: AdkPart) => !!part.inlineData?.data);
+      if (images.length > 0 && !this.capabilities.vision) {
+        throw new Error(`Model ${this.model} does not support image inputs`);
+      }
+      const userMessages: OpenAIApi.Chat.ChatCompletionUserMessageParam[] = images.length > 0
+        ? [{
+          role: 'user',
+          content: [
+            ...(messageContent ? [{ type: 'text' as const, text: messageContent }] : []),
+            ...images.map((part: AdkPart) => ({
+              type: 'image_url' as const,
+              image_url: { url: `data:${part.inlineData!.mimeType || 'image/png'};base64,${part.inlineData!.data}` }
+            }))
+          ]
+        }]
+        : [{ role: 'user', content: messageContent }];
+
+      if (toolMessages.length > 0) {
+        return messageContent || images.length > 0 ? [...toolMessages, ...userMessages] : toolMessages;
       }
+      return userMessages;
     });
   }
 
@@ -370,5 +442,30 @@ export class OpenAiLlm extends BaseLlm {
   }
 }
 
+/**
+ * Parses the JSON arguments of a tool call.
+ *
+ * @param name The name of the called tool
+ * @param argumentsJson The arguments as sent by OpenAI
+ * @returns The parsed arguments
+ * @throws Error if the arguments are not a JSON object
+ */
+function parseToolCallArguments(name: string, argumentsJson: string): Record<string, unknown> {
+  if (!argumentsJson.trim()) {
+    return {};
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(argumentsJson);
+  } catch (error) {
+    throw new Error(`Invalid arguments for tool call ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    throw new Error(`Invalid arguments for tool call ${name}: expected a JSON object`);
+  }
+  return args as Record<string, unknown>;
+}
+
 // Export as both OpenAiLlm and OpenAI for consistency with other implementations
 export const OpenAI = OpenAiLlm;
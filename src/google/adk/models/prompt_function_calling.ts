@@ -0,0 +1,121 @@
+// Prompt function calling module for the Google Agent Development Kit (ADK) in TypeScript
+// Emulates function calling through prompt formatting for models without native tool support
+
+import { LlmRequest, LlmResponse, Content, AdkPart, AdkFunctionCall } from './base_llm';
+import { parseJsonResponse } from './schema_utils';
+
+/**
+ * Rewrites a request so that a model without native tool support can call
+ * the tools of the request.
+ *
+ * The tool declarations are moved into the system instruction together with
+ * the JSON format of a tool call, and earlier function calls and responses
+ * are turned into text, since the model cannot read them as structured parts.
+ *
+ * @param request The request with tools
+ * @returns A new request without tools
+ */
+export function toPromptFunctionCallingRequest(request: LlmRequest): LlmRequest {
+  const declarations = (request.tools || []).flatMap(tool => tool.functionDeclarations || []);
+  const toolDescriptions = declarations.map(declaration => [
+    `- ${declaration.name}: ${declaration.description || ''}`.trimEnd(),
+    `  parameters: ${JSON.stringify(declaration.parameters || {})}`
+  ].join('\n'));
+
+  const instruction = [
+    'You can call the following tools:',
+    ...toolDescriptions,
+    '',
+    'To call tools, reply with only a JSON object in this format and nothing else:',
+    '{"tool_calls": [{"name": "<tool name>", "arguments": {<arguments>}}]}',
+    'You will then receive the results of the calls. If no tool is needed, reply normally.'
+  ].join('\n');
+
+  return {
+    ...request,
+    tools: undefined,
+    systemInstruction: request.systemInstruction ? `${request.systemInstruction}\n\n${instruction}` : instruction,
+    contents: (request.contents || []).map(functionPartsToText)
+  };
+}
+
+/**
+ * Turns the tool calls written by the model into function calls.
+ *
+ * Responses that are not a tool call in the format requested by
+ * toPromptFunctionCallingRequest are returned unchanged.
+ *
+ * @param response The complete response of the model
+ * @returns The response with function call parts instead of the tool call text
+ */
+export function parsePromptFunctionCalls(response: LlmResponse): LlmResponse {
+  const text = (response.content?.parts || []).map(part => part.text || '').join('');
+  const functionCalls = parseToolCalls(text);
+  if (!functionCalls) {
+    return response;
+  }
+
+  const content: Content = {
+    role: 'model',
+    parts: functionCalls.map(functionCall => ({ functionCall }))
+  };
+  return {
+    ...response,
+    content,
+    candidates: response.candidates ? [{ ...response.candidates[0], content }] : undefined,
+    text: undefined,
+    functionCalls
+  };
+}
+
+function parseToolCalls(text: string): AdkFunctionCall[] | null {
+  if (!/^\s*(```|\{)/.test(text)) {
+    return null;
+  }
+
+  let value: unknown;
+  try {
+    value = parseJsonResponse(text);
+  } catch {
+    return null;
+  }
+
+  const toolCalls = (value as { tool_calls?: unknown } | null)?.tool_calls;
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+    return null;
+  }
+
+  const functionCalls: AdkFunctionCall[] = [];
+  for (const toolCall of toolCalls) {
+    const { name, arguments: args } = (toolCall || {}) as { name?: unknown; arguments?: unknown };
+    if (typeof name !== 'string' || (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args)))) {
+      return null;
+    }
+    functionCalls.push({ name, args: (args || {}) as Record<string, unknown> });
+  }
+  return functionCalls;
+}
+
+function functionPartsToText(content: Content): Content {
+  const parts: AdkPart[] = content.parts || [];
+  if (!parts.some(part => part.functionCall || part.functionResponse)) {
+    return content;
+  }
+
+  const functionCalls = parts.filter(part => part.functionCall).map(part => ({
+    name: part.functionCall!.name,
+    arguments: part.functionCall!.args || {}
+  }));
+  const texts = parts.filter(part => part.text).map(part => part.text!);
+  if (functionCalls.length > 0) {
+    texts.push(JSON.stringify({ tool_calls: functionCalls }));
+  }
+  for (const part of parts.filter(part => part.functionResponse)) {
+    texts.push(`Result of tool ${part.functionResponse!.name}: ${JSON.stringify(part.functionResponse!.response ?? {})}`);
+  }
+
+  return {
+    role: content.role,
+    parts: [...parts.filter(part => !part.text && !part.functionCall && !part.functionResponse), { text: texts.join('\n') }]
+  };
+}
@@ -4,14 +4,20 @@
 import { BaseLlm, LlmRequest } from './base_llm';
 import { GeminiLlm } from './gemini_llm';
 import { OpenAiLlm } from './openai_llm';
+import { AnthropicLlm } from './anthropic_llm';
+
+/**
+ * Creates the LLM for a model name matched by a registered pattern.
+ */
+export type LlmFactory = (options: { model: string; } & LlmRequest) => BaseLlm;
 
 /**
  * Registry for LLM implementations.
  * Maps model name patterns to LLM implementations.
  */
 export class LlmRegistry {
-  // Registry mapping regex patterns to LLM class constructors
-  private static registry: Map<RegExp, new (options: { model: string; } & LlmRequest) => BaseLlm> = new Map();
+  // Registry mapping patterns to their regex and LLM factory, in registration order
+  private static registry: Map<string, { regex: RegExp; factory: LlmFactory }> = new Map();
 
   /**
    * Initializes the registry with default implementations.
@@ -26,6 +32,11 @@ export class LlmRegistry {
     for (const pattern of OpenAiLlm.supportedModels()) {
       LlmRegistry.register(pattern, OpenAiLlm);
     }
+
+    // Register Anthropic models
+    for (const pattern of AnthropicLlm.supportedModels()) {
+      LlmRegistry.register(pattern, AnthropicLlm);
+    }
   }
 
   /**
@@ -35,8 +46,21 @@ export class LlmRegistry {
    * @param llmClass LLM class constructor
    */
   static register(pattern: string, llmClass: new (options: { model: string; } & LlmRequest) => BaseLlm): void {
+    LlmRegistry.registerFactory(pattern, options => new llmClass(options));
+  }
+
+  /**
+   * Registers a model pattern with a factory, for LLMs that need more than
+   * the model name to be created, e.g. a base URL.
+   *
+   * Registering a pattern again replaces its factory.
+   *
+   * @param pattern Regex pattern for model names
+   * @param factory Function creating the LLM for a matching model name
+   */
+  static registerFactory(pattern: string, factory: LlmFactory): void {
     const regex = new RegExp(`^${pattern}$`);
-    LlmRegistry.registry.set(regex, llmClass);
+    LlmRegistry.registry.set(pattern, { regex, factory });
   }
 
   /**
@@ -48,15 +72,15 @@ export class LlmRegistry {
    * @throws Error if no implementation is found for the model
    */
   static resolve(model: string, options?: LlmRequest): BaseLlm {
-    for (const [pattern, LlmClass] of LlmRegistry.registry.entries()) {
-      if (pattern.test(model)) {
+    for (const { regex, factory } of LlmRegistry.registry.values()) {
+      if (regex.test(model)) {
         // Provide default for contents if options or options.contents is undefined
         const constructorOptions = {
           ...options,
           model,
           contents: options?.contents ?? [],
         };
-        return new LlmClass(constructorOptions);
+        return factory(constructorOptions);
       }
     }
     
@@ -0,0 +1,258 @@
+// Schema utilities module for the Google Agent Development Kit (ADK) in TypeScript
+// Converts and validates the schemas agents declare for their input and output
+
+import { AdkSchema, AdkType } from './base_llm';
+
+/**
+ * A JSON Schema, limited to the keywords ADK understands.
+ *
+ * Types may be written in JSON Schema style (`'object'`) or ADK style
+ * (`'OBJECT'`).
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  description?: string;
+  format?: string;
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  nullable?: boolean;
+  additionalProperties?: boolean;
+}
+
+/**
+ * A schema object with a Zod compatible `safeParse` method.
+ *
+ * Zod is not a dependency of ADK, so any library whose schemas implement
+ * this method can be used.
+ */
+export interface ZodLikeSchema {
+  safeParse(data: unknown): {
+    success: boolean;
+    data?: unknown;
+    error?: {
+      message?: string;
+      issues?: Array<{ path?: Array<string | number>; message: string }>;
+    };
+  };
+}
+
+/**
+ * A schema accepted for the input or output of an agent.
+ */
+export type AgentSchema = AdkSchema | JsonSchema | ZodLikeSchema;
+
+/**
+ * The result of validating a value against a schema.
+ */
+export type SchemaValidationResult =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: string[] };
+
+/**
+ * Checks whether a schema is a Zod-like schema.
+ *
+ * @param schema The schema to check
+ * @returns True if the schema validates through `safeParse`
+ */
+export function isZodLikeSchema(schema: unknown): schema is ZodLikeSchema {
+  return typeof (schema as ZodLikeSchema | null)?.safeParse === 'function';
+}
+
+/**
+ * Converts a schema to the AdkSchema sent to models.
+ *
+ * @param schema The schema to convert
+ * @returns The AdkSchema, or null for Zod-like schemas, which cannot be
+ *   converted without a library-specific exporter
+ */
+export function toAdkSchema(schema: AgentSchema): AdkSchema | null {
+  if (isZodLikeSchema(schema)) {
+    return null;
+  }
+  return convertJsonSchema(schema as JsonSchema);
+}
+
+/**
+ * Validates a value against a schema.
+ *
+ * Zod-like schemas return the parsed value, which may differ from the input
+ * if the schema transforms it. Other schemas return the value unchanged.
+ *
+ * @param schema The schema to validate against
+ * @param value The value to validate
+ * @returns The validation result, with one message per violation if invalid
+ */
+export function validateSchema(schema: AgentSchema, value: unknown): SchemaValidationResult {
+  if (isZodLikeSchema(schema)) {
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return { valid: true, value: result.data };
+    }
+
+    const issues = result.error?.issues;
+    const errors = issues && issues.length > 0
+      ? issues.map(issue => `${formatPath(issue.path || [])}: ${issue.message}`)
+      : [result.error?.message || 'value does not match the schema'];
+    return { valid: false, errors };
+  }
+
+  const errors: string[] = [];
+  collectErrors(schema as JsonSchema, value, [], errors);
+  return errors.length === 0 ? { valid: true, value } : { valid: false, errors };
+}
+
+/**
+ * Parses the JSON in a model response.
+ *
+ * Models sometimes wrap JSON in a Markdown code fence even when asked not
+ * to, so a surrounding fence is ignored.
+ *
+ * @param text The response text
+ * @returns The parsed value
+ * @throws SyntaxError if the text is not valid JSON
+ */
+export function parseJsonResponse(text: string): unknown {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+function convertJsonSchema(schema: JsonSchema): AdkSchema {
+  const result: AdkSchema = {};
+
+  const type = normalizeTypes(schema.type).find(t => t !== 'NULL');
+  if (type) {
+    result.type = type;
+  }
+  if (schema.description !== undefined) {
+    result.description = schema.description;
+  }
+  if (schema.format !== undefined) {
+    result.format = schema.format;
+  }
+  if (schema.enum) {
+    result.enum = schema.enum.filter((value): value is string | number | boolean => value !== null);
+  }
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, convertJsonSchema(property)])
+    );
+  }
+  if (schema.required) {
+    result.required = [...schema.required];
+  }
+  if (schema.items) {
+    result.items = convertJsonSchema(schema.items);
+  }
+  const alternatives = schema.oneOf || schema.anyOf;
+  if (alternatives) {
+    result.oneOf = alternatives.map(convertJsonSchema);
+  }
+
+  return result;
+}
+
+function normalizeTypes(type: string | string[] | undefined): string[] {
+  if (type === undefined) {
+    return [];
+  }
+  return (Array.isArray(type) ? type : [type]).map(t => t.toUpperCase());
+}
+
+function collectErrors(schema: JsonSchema, value: unknown, path: Array<string | number>, errors: string[]): void {
+  const types = normalizeTypes(schema.type);
+
+  if (value === null) {
+    if (schema.nullable || types.includes('NULL') || (schema.enum && schema.enum.includes(null))) {
+      return;
+    }
+    if (types.length > 0) {
+      errors.push(`${formatPath(path)}: expected ${describeTypes(types)}, got null`);
+      return;
+    }
+  }
+
+  if (types.length > 0 && !types.some(type => matchesType(type, value))) {
+    errors.push(`${formatPath(path)}: expected ${describeTypes(types)}, got ${describeValue(value)}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    errors.push(`${formatPath(path)}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    return;
+  }
+
+  const alternatives = schema.oneOf || schema.anyOf;
+  if (alternatives && !alternatives.some(alternative => validateSchema(alternative, value).valid)) {
+    errors.push(`${formatPath(path)}: does not match any of the allowed schemas`);
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        errors.push(`${formatPath([...path, name])}: is required`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        collectErrors(propertySchema, propertyValue, [...path, name], errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${formatPath([...path, name])}: is not allowed`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => collectErrors(schema.items!, item, [...path, index], errors));
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+  case AdkType.STRING:
+    return typeof value === 'string';
+  case AdkType.NUMBER:
+    return typeof value === 'number' && Number.isFinite(value);
+  case AdkType.INTEGER:
+    return Number.isInteger(value);
+  case AdkType.BOOLEAN:
+    return typeof value === 'boolean';
+  case AdkType.ARRAY:
+    return Array.isArray(value);
+  case AdkType.OBJECT:
+    return isPlainObject(value);
+  case 'NULL':
+    return value === null;
+  default:
+    return true;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeTypes(types: string[]): string {
+  return types.map(type => type.toLowerCase()).join(' or ');
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return typeof value;
+}
+
+function formatPath(path: Array<string | number>): string {
+  return path.length === 0
+    ? '$'
+    : '$' + path.map(segment => (typeof segment === 'number' ? `[${segment}]` : `.${segment}`)).join('');
+}
@@ -5,10 +5,17 @@ import { BaseAgent } from './agents/base_agent';
 import { LlmAgent } from './agents/llm_agent';
 import { InvocationContext } from './agents/invocation_context';
 import { LiveRequestQueue, LiveRequest } from './agents/live_request_queue';
-import { RunConfig, StreamingMode } from './agents/run_config';
+import { MemoryTrigger, RunConfig, StreamingMode } from './agents/run_config';
 import { BaseArtifactService } from './artifacts/base_artifact_service';
 import { InMemoryArtifactService } from './artifacts/in_memory_artifact_service';
 import { Event } from './events/event';
+import { EventActions } from './events/event_actions';
+import {
+  PENDING_LONG_RUNNING_CALLS_KEY,
+  PendingLongRunningCall,
+  REQUEST_CONFIRMATION_FUNCTION_CALL_NAME
+} from './flows/llm_flows/functions';
+import { LlmUsageMetadata } from './models/base_llm';
 import { BaseMemoryService } from './memory/base_memory_service';
 import { InMemoryMemoryService } from './memory/in_memory_memory_service';
 import { BaseSessionService } from './sessions/base_session_service';
@@ -16,11 +23,37 @@ import { InMemorySessionService } from './sessions/in_memory_session_service';
 import { Session } from './sessions/session';
 import { BaseTool } from './tools/base_tool';
 import { builtInCodeExecution } from './tools/built_in_code_execution_tool';
-import { Content } from '@google/genai';
+import { Content, Part } from '@google/genai';
 
 // Logger placeholder - in a real implementation, this would be replaced with a proper logging solution
 console.log('Logger placeholder for runners.ts');
 
+/**
+ * The result of a run that was awaited to completion.
+ */
+export interface RunResult {
+  /**
+   * All events generated by the run, starting with the user message.
+   */
+  events: Event[];
+
+  /**
+   * The text of the last final response of an agent, or an empty string if
+   * no agent responded with text.
+   */
+  finalResponseText: string;
+
+  /**
+   * The token usage summed over all complete model responses of the run.
+   */
+  usage: LlmUsageMetadata;
+
+  /**
+   * The state changes of all events of the run merged in order.
+   */
+  stateDelta: Record<string, unknown>;
+}
+
 /**
  * The Runner class is used to run agents.
  *
@@ -55,40 +88,51 @@ export class Runner {
   }
 
   /**
-   * Runs the agent.
+   * Runs the agent and collects the events it generates.
    *
-   * NOTE: This sync interface is only for local testing and convenience purposes.
-   * Consider using `runAsync` for production usage.
+   * @deprecated Use `runToCompletion`, which also returns the final response,
+   * token usage and state delta of the run.
    *
    * @param options.userId The user ID of the session.
    * @param options.sessionId The session ID of the session.
    * @param options.newMessage A new message to append to the session.
    * @param options.runConfig The run config for the agent.
-   * @returns An array of events generated by the agent.
+   * @returns A promise of all events generated by the run, resolved once it has finished.
    */
-  run(options: {
+  async run(options: {
     userId: string;
     sessionId: string;
     newMessage: Content;
     runConfig?: RunConfig;
-  }): Event[] {
-    // For simplicity, in this implementation we'll collect and return all events
-    const events: Event[] = [];
-
-    // Create a promise to run the async generator
-    const runPromise = (async () => {
-      for await (const event of this.runAsync(options)) {
-        events.push(event);
-      }
-    })();
-
-    // Block until the promise is resolved (NOT RECOMMENDED in production)
-    // This is a workaround for the synchronous requirement
-
-    runPromise.then(); // Start the promise execution
+  }): Promise<Event[]> {
+    const result = await this.runToCompletion(options);
+    return result.events;
+  }
 
-    // Return the collected events
-    return events;
+  /**
+   * Runs the agent until the invocation finishes and summarizes the run.
+   *
+   * This is a convenience for scripts and tests that do not need to process
+   * events as they are generated. Errors raised by the agent reject the
+   * returned promise.
+   *
+   * @param options.userId The user ID of the session.
+   * @param options.sessionId The session ID of the session.
+   * @param options.newMessage A new message to append to the session.
+   * @param options.runConfig The run config for the agent.
+   * @returns A promise of the result of the run
+   */
+  async runToCompletion(options: {
+    userId: string;
+    sessionId: string;
+    newMessage: Content;
+    runConfig?: RunConfig;
+  }): Promise<RunResult> {
+    const events: Event[] = [];
+    for await (const event of this.runAsync(options)) {
+      events.push(event);
+    }
+    return summarizeRun(events);
   }
 
   /**
@@ -113,12 +157,12 @@ export class Runner {
     let session: Session;
 
     if (runConfig.loadSession) {
-      const existingSession = this.sessionService.getSession(this.appName, userId, sessionId);
+      const existingSession = await this.sessionService.getSession(this.appName, userId, sessionId);
       if (existingSession) {
         session = existingSession;
       } else {
         console.log(`Session not found. Creating a new session with ID: ${sessionId}`);
-        session = this.sessionService.createSession(
+        session = await this.sessionService.createSession(
           this.appName,
           userId,
           {},  // empty initial state
@@ -127,7 +171,7 @@ export class Runner {
       }
     } else {
       // Create a new session regardless of whether one exists
-      session = this.sessionService.createSession(
+      session = await this.sessionService.createSession(
         this.appName,
         userId,
         {},  // empty initial state
@@ -150,34 +194,207 @@ export class Runner {
       yield event;
     }
 
-    // Update memory if requested and available
-    if (runConfig.loadMemory && this.memoryService) {
-      try {
-        // In the Python implementation, there's an update method
-        // In our TypeScript implementation, we'll use searchMemory as a placeholder
-        // since we don't have a direct equivalent
-        this.memoryService.searchMemory(this.appName, userId, '');
-      } catch (error) {
-        console.error('Failed to update memory:', error);
-      }
-    }
-
     // Find the agent to run (typically the root agent or a sub-agent based on state)
     const agentToRun = this._findAgentToRun(context);
 
     // Update the context with the agent to run
     const updatedContext = context.withModifications({ agent: agentToRun });
 
-    // Run the agent
-    for await (const event of agentToRun.runAsync(updatedContext)) {
+    yield* this._runAgent(updatedContext, session, runConfig);
+  }
+
+  /**
+   * Delivers the response of a pending long-running function call and
+   * continues the invocation that made the call.
+   *
+   * The response is appended to the session as a function response of the
+   * user, and the agent that made the call runs again in the original
+   * invocation.
+   *
+   * @param options.userId The user ID of the session.
+   * @param options.sessionId The session ID of the session.
+   * @param options.functionCallId The ID of the pending function call.
+   * @param options.response The result of the function call.
+   * @param options.runConfig The run config for the agent.
+   * @returns An async generator yielding the function response event and the
+   *   events generated by the agent.
+   */
+  async *resumeAsync(options: {
+    userId: string;
+    sessionId: string;
+    functionCallId: string;
+    response: Record<string, unknown>;
+    runConfig?: RunConfig;
+  }): AsyncGenerator<Event, void, undefined> {
+    const { userId, sessionId, functionCallId, response } = options;
+    const runConfig = options.runConfig || new RunConfig();
+
+    const session = await this.sessionService.getSession(this.appName, userId, sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const pendingCall = getPendingCalls(session)[functionCallId];
+    if (!pendingCall) {
+      throw new Error(`No pending long-running function call with ID ${functionCallId} in session ${sessionId}`);
+    }
+
+    const agentToRun = this._findAgentByName(this.agent, pendingCall.author) || this.agent;
+    const context = this._newInvocationContext({
+      agent: agentToRun,
+      runConfig,
+      session,
+      userContent: {
+        role: 'user',
+        parts: [{ functionResponse: { id: functionCallId, name: pendingCall.name, response } }]
+      },
+      userId,
+      invocationId: pendingCall.invocationId,
+    });
+
+    yield await this._appendNewMessageToSession(context);
+    yield* this._runAgent(context, session, runConfig);
+  }
+
+  /**
+   * Delivers the response of a pending long-running function call and waits
+   * for the resumed invocation to finish.
+   *
+   * @param options.userId The user ID of the session.
+   * @param options.sessionId The session ID of the session.
+   * @param options.functionCallId The ID of the pending function call.
+   * @param options.response The result of the function call.
+   * @param options.runConfig The run config for the agent.
+   * @returns A promise of the result of the resumed run
+   */
+  async resumeToCompletion(options: {
+    userId: string;
+    sessionId: string;
+    functionCallId: string;
+    response: Record<string, unknown>;
+    runConfig?: RunConfig;
+  }): Promise<RunResult> {
+    const events: Event[] = [];
+    for await (const event of this.resumeAsync(options)) {
+      events.push(event);
+    }
+    return summarizeRun(events);
+  }
+
+  /**
+   * Delivers the decision about a tool call that has to be confirmed and
+   * continues the invocation that made the call.
+   *
+   * The decision is recorded in the session as the response of the
+   * confirmation request. Approved calls run, with the edited arguments if
+   * given. Rejected calls do not run, and the model is told they were
+   * rejected.
+   *
+   * @param options.userId The user ID of the session.
+   * @param options.sessionId The session ID of the session.
+   * @param options.functionCallId The ID of the pending confirmation request.
+   * @param options.confirmed Whether the tool call is approved.
+   * @param options.args Replacement arguments for an approved tool call.
+   * @param options.runConfig The run config for the agent.
+   * @returns An async generator yielding the decision event and the events
+   *   generated by the agent.
+   */
+  async *confirmToolCall(options: {
+    userId: string;
+    sessionId: string;
+    functionCallId: string;
+    confirmed: boolean;
+    args?: Record<string, unknown>;
+    runConfig?: RunConfig;
+  }): AsyncGenerator<Event, void, undefined> {
+    const { userId, sessionId, functionCallId, confirmed, args } = options;
+
+    const session = await this.sessionService.getSession(this.appName, userId, sessionId);
+    const pendingCall = session ? getPendingCalls(session)[functionCallId] : undefined;
+    if (pendingCall && pendingCall.name !== REQUEST_CONFIRMATION_FUNCTION_CALL_NAME) {
+      throw new Error(`Pending function call ${functionCallId} is not a confirmation request`);
+    }
+
+    yield* this.resumeAsync({
+      userId,
+      sessionId,
+      functionCallId,
+      response: args ? { confirmed, args } : { confirmed },
+      runConfig: options.runConfig
+    });
+  }
+
+  /**
+   * Lists the long-running function calls of a session that are waiting for
+   * a response.
+   *
+   * @param userId The user ID of the session.
+   * @param sessionId The session ID of the session.
+   * @returns The pending calls, or an empty array if the session does not exist
+   */
+  async getPendingLongRunningCalls(userId: string, sessionId: string): Promise<PendingLongRunningCall[]> {
+    const session = await this.sessionService.getSession(this.appName, userId, sessionId);
+    return session ? Object.values(getPendingCalls(session)) : [];
+  }
+
+  /**
+   * Runs an agent and appends the events it generates to the session.
+   *
+   * @param context The invocation context to run the agent in
+   * @param session The session of the run
+   * @param runConfig The run config of the run
+   * @returns An async generator yielding the events generated by the agent
+   */
+  private async *_runAgent(
+    context: InvocationContext,
+    session: Session,
+    runConfig: RunConfig
+  ): AsyncGenerator<Event, void, undefined> {
+    for await (const event of context.agent.runAsync(context)) {
       if (runConfig.saveSession) {
         // Append the event to the session
-        this.sessionService.appendEvent(session, event);
+        this._recordLongRunningCalls(session, event);
+        await this.sessionService.appendEvent(session, event);
       }
       yield event;
     }
 
-    // No need for additional save after agent execution as events are appended during the loop
+    if (this._shouldSaveMemoryAfterRun(session, runConfig)) {
+      await this._saveSessionToMemory(session);
+    }
+  }
+
+  /**
+   * Adds the long-running function calls of an event to the pending calls
+   * recorded in the session state.
+   *
+   * The calls are recorded through the state delta of the event, so they are
+   * persisted together with it.
+   *
+   * @param session The session the event is appended to
+   * @param event The event to inspect
+   */
+  protected _recordLongRunningCalls(session: Session, event: Event): void {
+    const longRunningToolIds = event.getLongRunningToolIds();
+    if (!longRunningToolIds || longRunningToolIds.size === 0) {
+      return;
+    }
+
+    const pendingCalls = { ...getPendingCalls(session) };
+    for (const { functionCall } of event.getFunctionCalls()) {
+      if (functionCall?.id && longRunningToolIds.has(functionCall.id)) {
+        pendingCalls[functionCall.id] = {
+          id: functionCall.id,
+          name: functionCall.name,
+          args: functionCall.args,
+          invocationId: event.getInvocationId(),
+          author: event.getAuthor()
+        };
+      }
+    }
+
+    const actions = event.getActions();
+    actions.stateDelta = { ...actions.stateDelta, [PENDING_LONG_RUNNING_CALLS_KEY]: pendingCalls };
   }
 
   /**
@@ -192,8 +409,9 @@ export class Runner {
     session: Session;
     userContent: Content;
     userId: string;
+    invocationId?: string;
   }): InvocationContext {
-    const { agent, runConfig, session, userContent, userId } = options;
+    const { agent, runConfig, session, userContent, userId, invocationId } = options;
 
     // Handle CFC support
     if (runConfig.supportCfc && 'canonicalModel' in agent) {
@@ -236,6 +454,7 @@ export class Runner {
       userContent,
       appName: this.appName,
       userId,
+      invocationId,
     });
   }
 
@@ -307,19 +526,40 @@ export class Runner {
       }
     }
 
+    // Function responses resolve the pending long-running calls they answer
+    const pendingCalls = getPendingCalls(context.session);
+    const resolvedIds = (userContent.parts || [])
+      .map((part: Part) => part.functionResponse?.id)
+      .filter((id: string | undefined): id is string => !!id && id in pendingCalls);
+    const actions = new EventActions();
+    if (resolvedIds.length > 0) {
+      const remainingCalls = { ...pendingCalls };
+      for (const id of resolvedIds) {
+        delete remainingCalls[id];
+      }
+      actions.stateDelta = { [PENDING_LONG_RUNNING_CALLS_KEY]: remainingCalls };
+    }
+
     const event = new Event({
       author: 'user',
       content: userContent,
       invocationId: context.invocationId,
+      actions,
     });
 
-    context.session.addEvent(event);
+    await this.sessionService.appendEvent(context.session, event);
 
     return event;
   }
 
   /**
-   * Finds the appropriate agent to run based on the current state.
+   * Finds the agent to run for a new message in the session.
+   *
+   * The conversation continues with the agent that replied last, so an
+   * agent that was transferred to keeps handling the following turns. If
+   * that agent, or one of its ancestors, does not allow transfers back up
+   * the tree, the root agent runs instead, since control could otherwise
+   * never return to it.
    *
    * @param context The invocation context
    * @returns The agent to run
@@ -329,17 +569,27 @@ export class Runner {
       return this.agent;
     }
 
-    // Check if there's a current agent in the session state
-    const currentAgentName = context.session.getStateValue('current_agent');
+    const events = context.session.events;
+    for (let i = events.length - 1; i >= 0; i--) {
+      const author = events[i].getAuthor();
+      if (author === 'user') {
+        continue;
+      }
+      if (author === this.agent.name) {
+        return this.agent;
+      }
 
-    if (!currentAgentName) {
-      return this.agent;
+      const agent = this._findAgentByName(this.agent, author);
+      if (!agent) {
+        console.warn(`Event from an unknown agent: ${author}`);
+        continue;
+      }
+      if (this._isTransferableAcrossAgentTree(agent)) {
+        return agent;
+      }
     }
 
-    // Find the agent with the given name in the agent tree
-    const foundAgent = this._findAgentByName(this.agent, currentAgentName as string);
-
-    return foundAgent || this.agent;
+    return this.agent;
   }
 
   /**
@@ -402,19 +652,68 @@ export class Runner {
   }
 
   /**
-   * Closes the current session, performing cleanup as needed.
+   * Decides whether a session should be saved to memory after a run.
    *
-   * @param sessionId The ID of the session to close
-   * @param userId The ID of the user
+   * @param session The session of the run
+   * @param runConfig The run config of the run
+   * @returns True if the session should be saved to memory
    */
-  async closeSession(sessionId: string, userId: string): Promise<void> {
+  protected _shouldSaveMemoryAfterRun(session: Session, runConfig: RunConfig): boolean {
+    if (!this.memoryService || !runConfig.saveMemory) {
+      return false;
+    }
+
+    switch (runConfig.memoryTrigger) {
+    case MemoryTrigger.RUN_COMPLETE:
+      return true;
+    case MemoryTrigger.EVERY_N_TURNS: {
+      const userTurns = session.events.filter(event => event.getAuthor() === 'user').length;
+      return userTurns > 0 && userTurns % runConfig.memoryTurnInterval === 0;
+    }
+    default:
+      return false;
+    }
+  }
+
+  /**
+   * Saves a session to the memory service.
+   *
+   * Failures are logged rather than thrown so that they never fail a run.
+   *
+   * @param session The session to save
+   */
+  protected async _saveSessionToMemory(session: Session): Promise<void> {
+    if (!this.memoryService) {
+      return;
+    }
+
     try {
-      console.log(`Closing session ${sessionId} for user ${userId}`);
+      await this.memoryService.addSessionToMemory(session);
     } catch (error) {
-      console.error(`Error closing session ${sessionId}:`, error);
+      console.error(`Failed to save session ${session.id} to memory:`, error);
     }
   }
 
+  /**
+   * Closes a session, saving it to memory first for the SESSION_CLOSE trigger.
+   *
+   * @param sessionId The ID of the session to close
+   * @param userId The ID of the user
+   * @param runConfig The run config, consulted for saveMemory and memoryTrigger
+   */
+  async closeSession(sessionId: string, userId: string, runConfig: RunConfig = new RunConfig()): Promise<void> {
+    const session = await this.sessionService.getSession(this.appName, userId, sessionId);
+    if (!session) {
+      return;
+    }
+
+    if (runConfig.saveMemory && runConfig.memoryTrigger === MemoryTrigger.SESSION_CLOSE) {
+      await this._saveSessionToMemory(session);
+    }
+
+    await this.sessionService.closeSession(session);
+  }
+
   /**
    * Runs the agent in live (streaming) mode.
    *
@@ -426,6 +725,8 @@ export class Runner {
    * @param options.sessionId The session ID of the session
    * @param options.runConfig The run configuration
    * @param options.initialRequest The initial live request to send
+   * @param options.liveRequestQueue The queue the caller sends live requests through.
+   *   The run ends once the queue is closed. A new queue is created if omitted.
    * @returns An async generator yielding events generated by the agent
    */
   async *runLive(options: {
@@ -433,6 +734,7 @@ export class Runner {
     sessionId: string;
     runConfig?: RunConfig;
     initialRequest?: LiveRequest;
+    liveRequestQueue?: LiveRequestQueue;
   }): AsyncGenerator<Event, void, undefined> {
     const { userId, sessionId } = options;
     const runConfig = options.runConfig || new RunConfig();
@@ -446,12 +748,12 @@ export class Runner {
     let session: Session;
 
     if (runConfig.loadSession) {
-      const existingSession = this.sessionService.getSession(this.appName, userId, sessionId);
+      const existingSession = await this.sessionService.getSession(this.appName, userId, sessionId);
       if (existingSession) {
         session = existingSession;
       } else {
         console.log(`Session not found. Creating a new session with ID: ${sessionId}`);
-        session = this.sessionService.createSession(
+        session = await this.sessionService.createSession(
           this.appName,
           userId,
           {},  // empty initial state
@@ -460,7 +762,7 @@ export class Runner {
       }
     } else {
       // Create a new session regardless of whether one exists
-      session = this.sessionService.createSession(
+      session = await this.sessionService.createSession(
         this.appName,
         userId,
         {},  // empty initial state
@@ -468,26 +770,14 @@ export class Runner {
       );
     }
 
-    // Create a request queue for live interaction
-    const requestQueue = new LiveRequestQueue();
+    // Use the caller's request queue for live interaction, if any
+    const requestQueue = options.liveRequestQueue || new LiveRequestQueue();
 
     // Add the initial request if provided
     if (options.initialRequest) {
       requestQueue.send(options.initialRequest);
     }
 
-    // Update memory if requested and available
-    if (runConfig.loadMemory && this.memoryService) {
-      try {
-        // In the Python implementation, there's an update method
-        // In our TypeScript implementation, we'll use searchMemory as a placeholder
-        // since we don't have a direct equivalent
-        this.memoryService.searchMemory(this.appName, userId, '');
-      } catch (error) {
-        console.error('Failed to update memory:', error);
-      }
-    }
-
     // Find the agent to run
     const agentToRun = this._findAgentToRun(this._newInvocationContext({
       agent: this.agent,
@@ -510,12 +800,15 @@ export class Runner {
     for await (const event of agentToRun.runLiveAsync(context)) {
       if (runConfig.saveSession) {
         // Append the event to the session
-        this.sessionService.appendEvent(session, event);
+        this._recordLongRunningCalls(session, event);
+        await this.sessionService.appendEvent(session, event);
       }
       yield event;
     }
 
-    // No need for additional save after agent execution as events are appended during the loop
+    if (this._shouldSaveMemoryAfterRun(session, runConfig)) {
+      await this._saveSessionToMemory(session);
+    }
   }
 }
 
@@ -536,4 +829,50 @@ export class InMemoryRunner extends Runner {
       memoryService: new InMemoryMemoryService(),
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the pending long-running function calls recorded in a session.
+ *
+ * @param session The session
+ * @returns The pending calls keyed by function call ID
+ */
+function getPendingCalls(session: Session): Record<string, PendingLongRunningCall> {
+  return (session.state[PENDING_LONG_RUNNING_CALLS_KEY] as Record<string, PendingLongRunningCall> | undefined) || {};
+}
+
+/**
+ * Summarizes the events of a finished run.
+ *
+ * @param events The events of the run
+ * @returns The result of the run
+ */
+function summarizeRun(events: Event[]): RunResult {
+  const usage = { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 };
+  const stateDelta: Record<string, unknown> = {};
+  let finalResponseText = '';
+
+  for (const event of events) {
+    Object.assign(stateDelta, event.getActions().stateDelta);
+
+    // Streamed chunks are followed by an aggregated response, so only count that
+    const eventUsage = event.getUsageMetadata();
+    if (eventUsage && !event.isPartial()) {
+      usage.promptTokenCount += eventUsage.promptTokenCount ?? 0;
+      usage.candidatesTokenCount += eventUsage.candidatesTokenCount ?? 0;
+      usage.totalTokenCount += eventUsage.totalTokenCount ?? 0;
+    }
+
+    if (event.getAuthor() !== 'user' && event.isFinalResponse()) {
+      const text = (event.getContent()?.parts || [])
+        .filter(part => part.text)
+        .map(part => part.text)
+        .join('');
+      if (text) {
+        finalResponseText = text;
+      }
+    }
+  }
+
+  return { events, finalResponseText, usage, stateDelta };
+}
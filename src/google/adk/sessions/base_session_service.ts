@@ -78,10 +78,85 @@ export class ListEventsResponse {
   }
 }
 
+/**
+ * A state delta split by scope.
+ *
+ * App and user keys have their prefix removed; temporary keys are dropped.
+ */
+export interface ScopedStateDelta {
+  /**
+   * State shared by all users and sessions of an app.
+   */
+  app: Record<string, unknown>;
+
+  /**
+   * State shared by all sessions of a user.
+   */
+  user: Record<string, unknown>;
+
+  /**
+   * State private to the session.
+   */
+  session: Record<string, unknown>;
+}
+
+/**
+ * Splits a state delta into app, user and session deltas by key prefix.
+ *
+ * @param state The state delta to split
+ * @returns The app, user and session deltas
+ */
+export function extractStateDelta(state?: Record<string, unknown>): ScopedStateDelta {
+  const delta: ScopedStateDelta = { app: {}, user: {}, session: {} };
+
+  if (!state) {
+    return delta;
+  }
+
+  for (const [key, value] of Object.entries(state)) {
+    if (key.startsWith(State.APP_PREFIX)) {
+      delta.app[key.substring(State.APP_PREFIX.length)] = value;
+    } else if (key.startsWith(State.USER_PREFIX)) {
+      delta.user[key.substring(State.USER_PREFIX.length)] = value;
+    } else if (!key.startsWith(State.TEMP_PREFIX)) {
+      delta.session[key] = value;
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * Error thrown when an event is appended to a session object that is older
+ * than the stored session, i.e. another writer appended to the session since
+ * the session object was loaded.
+ */
+export class SessionConflictError extends Error {
+  constructor(
+    message: string,
+    public readonly sessionId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(message);
+    this.name = 'SessionConflictError';
+  }
+}
+
 /**
  * Base class for session services.
  * 
  * The service provides a set of methods for managing sessions and events.
+ * All methods are asynchronous so that implementations can be backed by
+ * disk or network storage.
+ *
+ * Sessions carry a version that is incremented by every appended event.
+ * Implementations must reject an append with a SessionConflictError when the
+ * version of the given session object does not match the stored version.
+ *
+ * State keys prefixed with `app:` and `user:` are stored apart from the
+ * session (see extractStateDelta) and merged back into the session state
+ * whenever a session is returned, so they are shared across sessions.
  */
 export abstract class BaseSessionService {
   /**
@@ -98,7 +173,7 @@ export abstract class BaseSessionService {
     userId: string,
     state?: Record<string, unknown>,
     sessionId?: string
-  ): Session;
+  ): Promise<Session>;
 
   /**
    * Gets a session.
@@ -114,7 +189,7 @@ export abstract class BaseSessionService {
     userId: string,
     sessionId: string,
     config?: GetSessionConfig
-  ): Session | null;
+  ): Promise<Session | null>;
 
   /**
    * Lists all the sessions.
@@ -126,7 +201,7 @@ export abstract class BaseSessionService {
   abstract listSessions(
     appName: string,
     userId: string
-  ): ListSessionsResponse;
+  ): Promise<ListSessionsResponse>;
 
   /**
    * Deletes a session.
@@ -139,7 +214,7 @@ export abstract class BaseSessionService {
     appName: string,
     userId: string,
     sessionId: string
-  ): void;
+  ): Promise<void>;
 
   /**
    * Lists events in a session.
@@ -147,31 +222,38 @@ export abstract class BaseSessionService {
    * @param appName The name of the app
    * @param userId The id of the user
    * @param sessionId The id of the session
+   * @param pageSize The maximum number of events to return (all events if not provided)
+   * @param pageToken The nextPageToken from a previous response to continue from
    * @returns The response containing events
    */
   abstract listEvents(
     appName: string,
     userId: string,
-    sessionId: string
-  ): ListEventsResponse;
+    sessionId: string,
+    pageSize?: number,
+    pageToken?: string
+  ): Promise<ListEventsResponse>;
 
   /**
    * Closes a session.
    * 
    * @param session The session to close
    */
-  closeSession(_session: Session): void {
+  async closeSession(_session: Session): Promise<void> {
     // TODO: determine whether we want to finalize the session here.
   }
 
   /**
    * Appends an event to a session object.
    * 
+   * Subclasses persist the event and must call this method to update the
+   * given session object once the append has been accepted.
+   * 
    * @param session The session to append to
    * @param event The event to append
    * @returns The event that was appended
    */
-  appendEvent(session: Session, event: Event): Event {
+  async appendEvent(session: Session, event: Event): Promise<Event> {
     if (event.isPartial()) {
       return event;
     }
@@ -0,0 +1,596 @@
+// Database session service module for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the database session service functionality from the Python SDK
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import { Content } from '../models/base_llm';
+import { Event } from '../events/event';
+import { EventActions } from '../events/event_actions';
+import { Session } from './session';
+import { State } from './state';
+import {
+  BaseSessionService,
+  GetSessionConfig,
+  ListEventsResponse,
+  ListSessionsResponse,
+  SessionConflictError,
+  extractStateDelta
+} from './base_session_service';
+
+/**
+ * Row shape of the sessions table.
+ */
+interface StorageSession {
+  app_name: string;
+  user_id: string;
+  id: string;
+  state: string;
+  create_time: number;
+  update_time: number;
+  version: number;
+}
+
+/**
+ * Row shape of the events table.
+ */
+interface StorageEvent {
+  id: string;
+  app_name: string;
+  user_id: string;
+  session_id: string;
+  invocation_id: string;
+  author: string;
+  branch: string | null;
+  timestamp: number;
+  content: string | null;
+  actions: string;
+  long_running_tool_ids: string | null;
+}
+
+/**
+ * Row shape of the app_states and user_states tables.
+ */
+interface StorageState {
+  state: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    app_name TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    state TEXT NOT NULL DEFAULT '{}',
+    create_time INTEGER NOT NULL,
+    update_time INTEGER NOT NULL,
+    version INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (app_name, user_id, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT NOT NULL,
+    app_name TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    invocation_id TEXT NOT NULL,
+    author TEXT NOT NULL,
+    branch TEXT,
+    timestamp INTEGER NOT NULL,
+    content TEXT,
+    actions TEXT NOT NULL,
+    long_running_tool_ids TEXT,
+    PRIMARY KEY (id, app_name, user_id, session_id),
+    FOREIGN KEY (app_name, user_id, session_id)
+      REFERENCES sessions (app_name, user_id, id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS app_states (
+    app_name TEXT NOT NULL PRIMARY KEY,
+    state TEXT NOT NULL DEFAULT '{}',
+    update_time INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS user_states (
+    app_name TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    state TEXT NOT NULL DEFAULT '{}',
+    update_time INTEGER NOT NULL,
+    PRIMARY KEY (app_name, user_id)
+  );
+`;
+
+/**
+ * A session service that persists sessions, events and state to a SQLite database.
+ *
+ * App-scoped (`app:`) and user-scoped (`user:`) state is stored in separate
+ * tables and merged back into the session state when a session is loaded.
+ * Temporary (`temp:`) state is never persisted.
+ */
+export class DatabaseSessionService extends BaseSessionService {
+  /**
+   * The underlying SQLite database.
+   */
+  private db: Database.Database;
+
+  /**
+   * Creates a new DatabaseSessionService.
+   *
+   * @param dbUrl The database URL, e.g. `sqlite:///path/to/sessions.db` or `sqlite://:memory:`
+   */
+  constructor(dbUrl: string) {
+    super();
+
+    const dbPath = DatabaseSessionService.parseDbUrl(dbUrl);
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+    }
+
+    try {
+      // Loaded here, so that only users of the service load the native addon
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const Sqlite: typeof Database = require('better-sqlite3');
+      this.db = new Sqlite(dbPath);
+    } catch (error) {
+      throw new Error(
+        `Failed to open database for URL '${dbUrl}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.migrateSchema();
+  }
+
+  /**
+   * Adds columns that were introduced after the initial schema.
+   */
+  private migrateSchema(): void {
+    const columns = this.db.prepare('PRAGMA table_info(sessions)').all() as { name: string }[];
+    if (!columns.some(column => column.name === 'version')) {
+      this.db.exec('ALTER TABLE sessions ADD COLUMN version INTEGER NOT NULL DEFAULT 0');
+    }
+  }
+
+  /**
+   * Extracts the file path from a SQLite database URL.
+   *
+   * Follows the SQLAlchemy convention: `sqlite:///relative.db` and
+   * `sqlite:////absolute/path.db`.
+   *
+   * @param dbUrl The database URL
+   * @returns The file path, or `:memory:` for an in-memory database
+   */
+  private static parseDbUrl(dbUrl: string): string {
+    const match = /^sqlite:\/\/(.*)$/.exec(dbUrl);
+    if (!match) {
+      throw new Error(
+        `Unsupported database URL: '${dbUrl}'. Only SQLite URLs (sqlite:///path.db) are supported.`
+      );
+    }
+
+    const rest = match[1];
+    if (rest === '' || rest === ':memory:' || rest === '/' || rest === '/:memory:') {
+      return ':memory:';
+    }
+
+    if (!rest.startsWith('/')) {
+      throw new Error(`Invalid SQLite URL: '${dbUrl}'. Expected the form sqlite:///path.db.`);
+    }
+
+    return rest.substring(1);
+  }
+
+  /**
+   * Creates a new session.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param state The initial state of the session
+   * @param sessionId The client-provided id of the session
+   * @returns The newly created session instance
+   */
+  async createSession(
+    appName: string,
+    userId: string,
+    state?: Record<string, unknown>,
+    sessionId?: string
+  ): Promise<Session> {
+    const finalSessionId = sessionId?.trim() || this.generateSessionId();
+    const now = Date.now();
+    const deltas = extractStateDelta(state);
+
+    const create = this.db.transaction(() => {
+      const existing = this.db
+        .prepare('SELECT 1 FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?')
+        .get(appName, userId, finalSessionId);
+      if (existing) {
+        throw new Error(`Session with id ${finalSessionId} already exists.`);
+      }
+
+      this.updateAppState(appName, deltas.app, now);
+      this.updateUserState(appName, userId, deltas.user, now);
+
+      this.db
+        .prepare(
+          'INSERT INTO sessions (app_name, user_id, id, state, create_time, update_time) VALUES (?, ?, ?, ?, ?, ?)'
+        )
+        .run(appName, userId, finalSessionId, JSON.stringify(deltas.session), now, now);
+    });
+    create();
+
+    const session = new Session({
+      id: finalSessionId,
+      appName,
+      userId,
+      state: deltas.session,
+      lastUpdateTime: now
+    });
+
+    return this.mergeState(appName, userId, session);
+  }
+
+  /**
+   * Gets a session.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param sessionId The id of the session
+   * @param config The configuration for getting the session
+   * @returns The session, or null if not found
+   */
+  async getSession(
+    appName: string,
+    userId: string,
+    sessionId: string,
+    config?: GetSessionConfig
+  ): Promise<Session | null> {
+    const storageSession = this.getStorageSession(appName, userId, sessionId);
+    if (!storageSession) {
+      return null;
+    }
+
+    let query = 'SELECT * FROM events WHERE app_name = ? AND user_id = ? AND session_id = ?';
+    const params: unknown[] = [appName, userId, sessionId];
+
+    if (config?.afterTimestamp) {
+      query += ' AND timestamp > ?';
+      params.push(config.afterTimestamp);
+    }
+
+    query += ' ORDER BY timestamp DESC, rowid DESC';
+
+    if (config?.numRecentEvents) {
+      query += ' LIMIT ?';
+      params.push(config.numRecentEvents);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as StorageEvent[];
+    const events = rows.reverse().map(row => this.toEvent(row));
+
+    const session = new Session({
+      id: storageSession.id,
+      appName: storageSession.app_name,
+      userId: storageSession.user_id,
+      state: JSON.parse(storageSession.state),
+      events,
+      lastUpdateTime: storageSession.update_time,
+      version: storageSession.version
+    });
+
+    return this.mergeState(appName, userId, session);
+  }
+
+  /**
+   * Lists all the sessions.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @returns The response containing sessions
+   */
+  async listSessions(
+    appName: string,
+    userId: string
+  ): Promise<ListSessionsResponse> {
+    const rows = this.db
+      .prepare('SELECT * FROM sessions WHERE app_name = ? AND user_id = ? ORDER BY create_time')
+      .all(appName, userId) as StorageSession[];
+
+    // Sessions are returned without events or state
+    const sessions = rows.map(row => new Session({
+      id: row.id,
+      appName: row.app_name,
+      userId: row.user_id,
+      lastUpdateTime: row.update_time,
+      version: row.version
+    }));
+
+    return new ListSessionsResponse({ sessions });
+  }
+
+  /**
+   * Deletes a session and its events.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param sessionId The id of the session
+   */
+  async deleteSession(
+    appName: string,
+    userId: string,
+    sessionId: string
+  ): Promise<void> {
+    this.db
+      .prepare('DELETE FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?')
+      .run(appName, userId, sessionId);
+  }
+
+  /**
+   * Lists events in a session in chronological order.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param sessionId The id of the session
+   * @param pageSize The maximum number of events to return
+   * @param pageToken The token of the page to return
+   * @returns The response containing events
+   */
+  async listEvents(
+    appName: string,
+    userId: string,
+    sessionId: string,
+    pageSize?: number,
+    pageToken?: string
+  ): Promise<ListEventsResponse> {
+    const offset = pageToken ? parseInt(pageToken, 10) || 0 : 0;
+    const limit = pageSize && pageSize > 0 ? pageSize : -1;
+
+    // Fetch one extra row to know whether there is another page
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM events WHERE app_name = ? AND user_id = ? AND session_id = ? ' +
+        'ORDER BY timestamp, rowid LIMIT ? OFFSET ?'
+      )
+      .all(appName, userId, sessionId, limit > 0 ? limit + 1 : -1, offset) as StorageEvent[];
+
+    const hasMore = limit > 0 && rows.length > limit;
+    const events = (hasMore ? rows.slice(0, limit) : rows).map(row => this.toEvent(row));
+
+    return new ListEventsResponse({
+      events,
+      nextPageToken: hasMore ? String(offset + limit) : undefined
+    });
+  }
+
+  /**
+   * Appends an event to a session and persists it along with its state delta.
+   *
+   * @param session The session to append to
+   * @param event The event to append
+   * @returns The event that was appended
+   * @throws SessionConflictError if the session was modified since it was loaded
+   */
+  override async appendEvent(session: Session, event: Event): Promise<Event> {
+    if (event.isPartial()) {
+      return event;
+    }
+
+    const append = this.db.transaction(() => {
+      const storageSession = this.getStorageSession(session.appName, session.userId, session.id);
+      if (!storageSession) {
+        throw new Error(`Session ${session.id} not found.`);
+      }
+
+      if (storageSession.version !== session.version) {
+        throw new SessionConflictError(
+          `Session ${session.id} was modified concurrently: expected version ` +
+          `${session.version}, but the stored version is ${storageSession.version}. ` +
+          'Reload the session and retry.',
+          session.id,
+          session.version,
+          storageSession.version
+        );
+      }
+
+      const timestamp = event.getTimestamp();
+      const deltas = extractStateDelta(event.getActions()?.stateDelta);
+
+      this.updateAppState(session.appName, deltas.app, timestamp);
+      this.updateUserState(session.appName, session.userId, deltas.user, timestamp);
+
+      const sessionState = { ...JSON.parse(storageSession.state), ...deltas.session };
+      this.db
+        .prepare(
+          'UPDATE sessions SET state = ?, update_time = ?, version = version + 1 ' +
+          'WHERE app_name = ? AND user_id = ? AND id = ?'
+        )
+        .run(JSON.stringify(sessionState), timestamp, session.appName, session.userId, session.id);
+
+      this.insertEvent(session, event);
+    });
+    append();
+
+    // Update the in-memory session
+    await super.appendEvent(session, event);
+    session.lastUpdateTime = event.getTimestamp();
+    session.version += 1;
+
+    return event;
+  }
+
+  /**
+   * Closes the underlying database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Loads a session row.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param sessionId The id of the session
+   * @returns The session row, or undefined if not found
+   */
+  private getStorageSession(appName: string, userId: string, sessionId: string): StorageSession | undefined {
+    return this.db
+      .prepare('SELECT * FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?')
+      .get(appName, userId, sessionId) as StorageSession | undefined;
+  }
+
+  /**
+   * Inserts an event row.
+   *
+   * @param session The session the event belongs to
+   * @param event The event to insert
+   */
+  private insertEvent(session: Session, event: Event): void {
+    const longRunningToolIds = event.getLongRunningToolIds();
+
+    this.db
+      .prepare(
+        'INSERT INTO events (id, app_name, user_id, session_id, invocation_id, author, branch, ' +
+        'timestamp, content, actions, long_running_tool_ids) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        event.getId(),
+        session.appName,
+        session.userId,
+        session.id,
+        event.getInvocationId(),
+        event.getAuthor(),
+        event.getBranch(),
+        event.getTimestamp(),
+        event.getContent() ? JSON.stringify(event.getContent()) : null,
+        JSON.stringify(event.getActions() || new EventActions()),
+        longRunningToolIds ? JSON.stringify(Array.from(longRunningToolIds)) : null
+      );
+  }
+
+  /**
+   * Converts an event row to an Event.
+   *
+   * @param row The event row
+   * @returns The event
+   */
+  private toEvent(row: StorageEvent): Event {
+    return new Event({
+      id: row.id,
+      invocationId: row.invocation_id,
+      author: row.author,
+      branch: row.branch,
+      timestamp: row.timestamp,
+      content: row.content ? JSON.parse(row.content) as Content : null,
+      actions: new EventActions(JSON.parse(row.actions)),
+      longRunningToolIds: row.long_running_tool_ids
+        ? new Set(JSON.parse(row.long_running_tool_ids) as string[])
+        : null
+    });
+  }
+
+  /**
+   * Applies a delta to the app state.
+   *
+   * @param appName The name of the app
+   * @param delta The app state delta, keyed without prefix
+   * @param updateTime The update time to record
+   */
+  private updateAppState(appName: string, delta: Record<string, unknown>, updateTime: number): void {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    const state = { ...this.getAppState(appName), ...delta };
+    this.db
+      .prepare(
+        'INSERT INTO app_states (app_name, state, update_time) VALUES (?, ?, ?) ' +
+        'ON CONFLICT (app_name) DO UPDATE SET state = excluded.state, update_time = excluded.update_time'
+      )
+      .run(appName, JSON.stringify(state), updateTime);
+  }
+
+  /**
+   * Applies a delta to the user state.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param delta The user state delta, keyed without prefix
+   * @param updateTime The update time to record
+   */
+  private updateUserState(
+    appName: string,
+    userId: string,
+    delta: Record<string, unknown>,
+    updateTime: number
+  ): void {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    const state = { ...this.getUserState(appName, userId), ...delta };
+    this.db
+      .prepare(
+        'INSERT INTO user_states (app_name, user_id, state, update_time) VALUES (?, ?, ?, ?) ' +
+        'ON CONFLICT (app_name, user_id) DO UPDATE SET state = excluded.state, update_time = excluded.update_time'
+      )
+      .run(appName, userId, JSON.stringify(state), updateTime);
+  }
+
+  /**
+   * Gets the stored app state.
+   *
+   * @param appName The name of the app
+   * @returns The app state, keyed without prefix
+   */
+  private getAppState(appName: string): Record<string, unknown> {
+    const row = this.db
+      .prepare('SELECT state FROM app_states WHERE app_name = ?')
+      .get(appName) as StorageState | undefined;
+    return row ? JSON.parse(row.state) : {};
+  }
+
+  /**
+   * Gets the stored user state.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @returns The user state, keyed without prefix
+   */
+  private getUserState(appName: string, userId: string): Record<string, unknown> {
+    const row = this.db
+      .prepare('SELECT state FROM user_states WHERE app_name = ? AND user_id = ?')
+      .get(appName, userId) as StorageState | undefined;
+    return row ? JSON.parse(row.state) : {};
+  }
+
+  /**
+   * Merges app and user state into the session.
+   *
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param session The session to merge state into
+   * @returns The session with merged state
+   */
+  private mergeState(appName: string, userId: string, session: Session): Session {
+    for (const [key, value] of Object.entries(this.getAppState(appName))) {
+      session.state[State.APP_PREFIX + key] = value;
+    }
+
+    for (const [key, value] of Object.entries(this.getUserState(appName, userId))) {
+      session.state[State.USER_PREFIX + key] = value;
+    }
+
+    return session;
+  }
+
+  /**
+   * Generates a random session ID.
+   *
+   * @returns A new random session ID
+   */
+  private generateSessionId(): string {
+    return Math.random().toString(36).substring(2, 15) +
+           Math.random().toString(36).substring(2, 15);
+  }
+}
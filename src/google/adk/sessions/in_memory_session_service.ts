@@ -4,10 +4,20 @@
 import { Event } from '../events/event';
 import { Session } from './session';
 import { State } from './state';
-import { BaseSessionService, GetSessionConfig, ListEventsResponse, ListSessionsResponse } from './base_session_service';
+import {
+  BaseSessionService,
+  GetSessionConfig,
+  ListEventsResponse,
+  ListSessionsResponse,
+  SessionConflictError,
+  extractStateDelta
+} from './base_session_service';
 
 /**
  * An in-memory implementation of the session service.
+ * 
+ * Stored sessions only hold session-scoped state. App-scoped and user-scoped
+ * state is kept in separate maps and merged into the returned sessions.
  */
 export class InMemorySessionService extends BaseSessionService {
   /**
@@ -41,19 +51,23 @@ export class InMemorySessionService extends BaseSessionService {
    * @param sessionId The client-provided id of the session
    * @returns The newly created session instance
    */
-  createSession(
+  async createSession(
     appName: string,
     userId: string,
     state?: Record<string, unknown>,
     sessionId?: string
-  ): Session {
+  ): Promise<Session> {
     const finalSessionId = sessionId?.trim() || this.generateSessionId();
+    const stateDelta = extractStateDelta(state);
+
+    this.updateAppState(appName, stateDelta.app);
+    this.updateUserState(appName, userId, stateDelta.user);
     
     const session = new Session({
       id: finalSessionId,
       appName,
       userId,
-      state: state || {},
+      state: stateDelta.session,
       lastUpdateTime: Date.now()
     });
 
@@ -83,12 +97,12 @@ export class InMemorySessionService extends BaseSessionService {
    * @param config The configuration for getting the session
    * @returns The session, or null if not found
    */
-  getSession(
+  async getSession(
     appName: string,
     userId: string,
     sessionId: string,
     config?: GetSessionConfig
-  ): Session | null {
+  ): Promise<Session | null> {
     // Check if session exists
     if (!this.sessions[appName]?.[userId]?.[sessionId]) {
       return null;
@@ -127,10 +141,10 @@ export class InMemorySessionService extends BaseSessionService {
    * @param userId The id of the user
    * @returns The response containing sessions
    */
-  listSessions(
+  async listSessions(
     appName: string,
     userId: string
-  ): ListSessionsResponse {
+  ): Promise<ListSessionsResponse> {
     // Check if sessions exist for the app and user
     if (!this.sessions[appName]?.[userId]) {
       return new ListSessionsResponse();
@@ -144,7 +158,8 @@ export class InMemorySessionService extends BaseSessionService {
         id: session.id,
         appName: session.appName,
         userId: session.userId,
-        lastUpdateTime: session.lastUpdateTime
+        lastUpdateTime: session.lastUpdateTime,
+        version: session.version
       });
       
       sessionsWithoutEvents.push(copiedSession);
@@ -160,13 +175,13 @@ export class InMemorySessionService extends BaseSessionService {
    * @param userId The id of the user
    * @param sessionId The id of the session
    */
-  deleteSession(
+  async deleteSession(
     appName: string,
     userId: string,
     sessionId: string
-  ): void {
+  ): Promise<void> {
     // Check if session exists before deleting
-    if (this.getSession(appName, userId, sessionId)) {
+    if (this.sessions[appName]?.[userId]?.[sessionId]) {
       delete this.sessions[appName][userId][sessionId];
     }
   }
@@ -177,21 +192,29 @@ export class InMemorySessionService extends BaseSessionService {
    * @param appName The name of the app
    * @param userId The id of the user
    * @param sessionId The id of the session
+   * @param pageSize The maximum number of events to return
+   * @param pageToken The token of the page to return
    * @returns The response containing events
    */
-  listEvents(
+  async listEvents(
     appName: string,
     userId: string,
-    sessionId: string
-  ): ListEventsResponse {
+    sessionId: string,
+    pageSize?: number,
+    pageToken?: string
+  ): Promise<ListEventsResponse> {
     // Check if session exists
     if (!this.sessions[appName]?.[userId]?.[sessionId]) {
       return new ListEventsResponse();
     }
 
     const session = this.sessions[appName][userId][sessionId];
+    const offset = pageToken ? parseInt(pageToken, 10) || 0 : 0;
+    const end = pageSize && pageSize > 0 ? offset + pageSize : session.events.length;
+
     return new ListEventsResponse({
-      events: session.events.slice() // Return a copy of the events array
+      events: session.events.slice(offset, end), // Return a copy of the events array
+      nextPageToken: end < session.events.length ? String(end) : undefined
     });
   }
 
@@ -201,54 +224,51 @@ export class InMemorySessionService extends BaseSessionService {
    * @param session The session to append to
    * @param event The event to append
    * @returns The event that was appended
+   * @throws SessionConflictError if the session was modified since it was loaded
    */
-  override appendEvent(session: Session, event: Event): Event {
-    // Update the in-memory session
-    super.appendEvent(session, event);
-    session.lastUpdateTime = event.getTimestamp();
-
-    // Update the storage session
+  override async appendEvent(session: Session, event: Event): Promise<Event> {
     const appName = session.appName;
     const userId = session.userId;
     const sessionId = session.id;
-    
-    if (!this.sessions[appName]?.[userId]?.[sessionId]) {
+    const storageSession = this.sessions[appName]?.[userId]?.[sessionId];
+
+    if (!storageSession) {
+      // Only update the in-memory session
+      await super.appendEvent(session, event);
+      session.lastUpdateTime = event.getTimestamp();
       return event;
     }
 
-    // Update app and user state if needed
-    if (event.getActions()?.stateDelta) {
-      const stateDelta = event.getActions()?.stateDelta;
-      if (stateDelta) {
-        for (const [key, value] of Object.entries(stateDelta)) {
-          if (key.startsWith(State.APP_PREFIX)) {
-            if (!this.appState[appName]) {
-              this.appState[appName] = {};
-            }
-            
-            const realKey = key.substring(State.APP_PREFIX.length);
-            this.appState[appName][realKey] = value;
-          }
+    if (event.isPartial()) {
+      return event;
+    }
 
-          if (key.startsWith(State.USER_PREFIX)) {
-            if (!this.userState[appName]) {
-              this.userState[appName] = {};
-            }
-            
-            if (!this.userState[appName][userId]) {
-              this.userState[appName][userId] = {};
-            }
-            
-            const realKey = key.substring(State.USER_PREFIX.length);
-            this.userState[appName][userId][realKey] = value;
-          }
-        }
-      }
+    // Check and bump the version before yielding to other appends
+    if (storageSession.version !== session.version) {
+      throw new SessionConflictError(
+        `Session ${sessionId} was modified concurrently: expected version ` +
+        `${session.version}, but the stored version is ${storageSession.version}. ` +
+        'Reload the session and retry.',
+        sessionId,
+        session.version,
+        storageSession.version
+      );
     }
+    storageSession.version += 1;
+    session.version = storageSession.version;
+
+    // Update the in-memory session
+    await super.appendEvent(session, event);
+    session.lastUpdateTime = event.getTimestamp();
+
+    // Split the delta by scope and update app and user state
+    const stateDelta = extractStateDelta(event.getActions()?.stateDelta);
+    this.updateAppState(appName, stateDelta.app);
+    this.updateUserState(appName, userId, stateDelta.user);
 
-    // Update the storage session
-    const storageSession = this.sessions[appName][userId][sessionId];
-    super.appendEvent(storageSession, event);
+    // Update the storage session with the session-scoped state only
+    Object.assign(storageSession.state, stateDelta.session);
+    storageSession.events.push(event);
     storageSession.lastUpdateTime = event.getTimestamp();
 
     return event;
@@ -267,10 +287,44 @@ export class InMemorySessionService extends BaseSessionService {
       userId: session.userId,
       state: JSON.parse(JSON.stringify(session.state)),
       events: session.events.map(event => event), // Events are already immutable
-      lastUpdateTime: session.lastUpdateTime
+      lastUpdateTime: session.lastUpdateTime,
+      version: session.version
     });
   }
 
+  /**
+   * Applies a delta to the app state.
+   * 
+   * @param appName The name of the app
+   * @param delta The app state delta, keyed without prefix
+   */
+  private updateAppState(appName: string, delta: Record<string, unknown>): void {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    this.appState[appName] = { ...this.appState[appName], ...delta };
+  }
+
+  /**
+   * Applies a delta to the user state.
+   * 
+   * @param appName The name of the app
+   * @param userId The id of the user
+   * @param delta The user state delta, keyed without prefix
+   */
+  private updateUserState(appName: string, userId: string, delta: Record<string, unknown>): void {
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    if (!this.userState[appName]) {
+      this.userState[appName] = {};
+    }
+
+    this.userState[appName][userId] = { ...this.userState[appName][userId], ...delta };
+  }
+
   /**
    * Merges app and user state into the session.
    * 
@@ -4,4 +4,5 @@
 export * from './session';
 export * from './state';
 export * from './base_session_service';
-export * from './in_memory_session_service';
\ No newline at end of file
+export * from './in_memory_session_service';
+export * from './database_session_service';
\ No newline at end of file
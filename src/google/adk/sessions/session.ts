@@ -1,7 +1,7 @@
 // Session module for the Google Agent Development Kit (ADK) in TypeScript
 // Mirrors the session functionality from the Python SDK
 
-import { Content } from '../models/base_llm';
+import { Content, LlmUsageMetadata } from '../models/base_llm';
 import { Event } from '../events/event';
 import { EventActions } from '../events/event_actions';
 
@@ -18,6 +18,7 @@ interface RawEventData {
   timestamp?: number;
   partial?: boolean;
   longRunningToolIds?: string[];
+  usageMetadata?: LlmUsageMetadata;
 }
 
 /**
@@ -54,6 +55,12 @@ export class Session {
    */
   lastUpdateTime: number;
 
+  /**
+   * The version of the session, incremented every time an event is appended
+   * through a session service. Used to detect concurrent modifications.
+   */
+  version: number;
+
   /**
    * Creates a new Session.
    * 
@@ -66,6 +73,7 @@ export class Session {
     state?: Record<string, unknown>;
     events?: Event[];
     lastUpdateTime?: number;
+    version?: number;
   }) {
     this.id = data.id;
     this.appName = data.appName;
@@ -73,6 +81,7 @@ export class Session {
     this.state = data.state || {};
     this.events = data.events || [];
     this.lastUpdateTime = data.lastUpdateTime || Date.now();
+    this.version = data.version || 0;
   }
 
   /**
@@ -176,7 +185,8 @@ export class Session {
       userId: this.userId,
       state: this.state,
       events: this.events,
-      lastUpdateTime: this.lastUpdateTime
+      lastUpdateTime: this.lastUpdateTime,
+      version: this.version
     };
   }
 
@@ -201,7 +211,8 @@ export class Session {
         partial: eventData.partial,
         longRunningToolIds: eventData.longRunningToolIds
           ? new Set(eventData.longRunningToolIds)
-          : undefined
+          : undefined,
+        usageMetadata: eventData.usageMetadata
       });
     });
 
@@ -211,7 +222,8 @@ export class Session {
       userId: json.userId as string,
       state: (json.state as Record<string, unknown>) || {},
       events: events,
-      lastUpdateTime: json.lastUpdateTime as number | undefined
+      lastUpdateTime: json.lastUpdateTime as number | undefined,
+      version: json.version as number | undefined
     });
   }
 }
\ No newline at end of file
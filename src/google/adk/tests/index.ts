@@ -1,2 +1,9 @@
-// Placeholder for tests module
-// This directory will contain test implementations for the ADK
+// Tests module for the Google Agent Development Kit (ADK) in TypeScript
+// Provides test doubles for testing agents without a model
+
+export {
+  MockLlm,
+  MockLlmConnection,
+  MockLlmOptions,
+  MockLlmTurn
+} from './mock_llm';
@@ -0,0 +1,273 @@
+// Mock LLM module for the Google Agent Development Kit (ADK) in TypeScript
+// Replays scripted responses so that agents can be tested without a model
+
+import { BaseLlm, Content, LlmRequest, LlmResponse } from '../models/base_llm';
+import { BaseLlmConnection } from '../models/base_llm_connection';
+import { LlmResponse as LiveLlmResponse } from '../models/llm_response';
+import { LlmRegistry } from '../models/registry';
+
+/**
+ * One scripted turn of a MockLlm.
+ *
+ * - A string is replied as a text response.
+ * - A response is replied as is.
+ * - An array of responses is replied chunk by chunk, e.g. partial text
+ *   responses followed by the complete one.
+ * - An Error is thrown instead of replying.
+ */
+export type MockLlmTurn = string | LlmResponse | LlmResponse[] | Error;
+
+/**
+ * Options for the MockLlm.
+ */
+export interface MockLlmOptions {
+  /**
+   * The model name. Names matching `mock` or `mock-.*` resolve to the latest
+   * MockLlm created with that name through the LlmRegistry, so that agents
+   * configured with a model name can be tested, until MockLlm.reset is
+   * called. Defaults to `mock`.
+   */
+  model?: string;
+
+  /**
+   * The turns to reply, in order.
+   */
+  turns?: MockLlmTurn[];
+}
+
+/**
+ * A model that replies with scripted turns and records every request.
+ *
+ * Each call to generateContentAsync, and each content sent to a live
+ * connection, consumes the next turn. Running out of turns is an error, so
+ * that tests notice unexpected model calls.
+ */
+export class MockLlm extends BaseLlm {
+  /**
+   * The MockLlms created last for each model name, resolved by the LlmRegistry.
+   */
+  private static instances = new Map<string, MockLlm>();
+
+  static {
+    for (const pattern of MockLlm.supportedModels()) {
+      LlmRegistry.registerFactory(pattern, options => {
+        return MockLlm.instances.get(options.model) || new MockLlm({ model: options.model });
+      });
+    }
+  }
+
+  /**
+   * The requests the model received, in order. Live connections are
+   * recorded with the request they were opened with.
+   */
+  readonly requests: LlmRequest[] = [];
+
+  /**
+   * The live connections opened to the model.
+   */
+  readonly connections: MockLlmConnection[] = [];
+
+  // The turns left to reply
+  private turns: MockLlmTurn[];
+
+  /**
+   * Creates a new MockLlm.
+   *
+   * @param options Configuration options
+   */
+  constructor(options: MockLlmOptions = {}) {
+    super(options.model || 'mock');
+    this.turns = [...(options.turns || [])];
+    MockLlm.instances.set(this.model, this);
+  }
+
+  /**
+   * Forgets the MockLlms created so far, so that model names resolve to new
+   * MockLlms again. Call it after each test, so that the MockLlms of one
+   * test do not reply in the next.
+   */
+  static reset(): void {
+    MockLlm.instances.clear();
+  }
+
+  /**
+   * Appends turns to the script.
+   *
+   * @param turns The turns to reply after the current ones
+   */
+  addTurns(...turns: MockLlmTurn[]): void {
+    this.turns.push(...turns);
+  }
+
+  /**
+   * The number of scripted turns not replied yet.
+   */
+  get remainingTurns(): number {
+    return this.turns.length;
+  }
+
+  /**
+   * Replies the next turn and returns its last response.
+   *
+   * @param request The request to the model
+   * @returns The last response of the turn
+   */
+  async generateContent(request: LlmRequest): Promise<LlmResponse> {
+    let last: LlmResponse = {};
+    for await (const response of this.generateContentAsync(request)) {
+      last = response;
+    }
+    return last;
+  }
+
+  /**
+   * Replies the next turn.
+   *
+   * @param request The request to the model
+   * @returns An async generator yielding the responses of the turn
+   * @throws Error if no turn is left, or the scripted Error of the turn
+   */
+  async *generateContentAsync(request: LlmRequest): AsyncGenerator<LlmResponse, void, unknown> {
+    this.requests.push(request);
+    yield* this.nextTurn();
+  }
+
+  /**
+   * Opens a live connection, which replies the next turn to every content
+   * it is sent.
+   *
+   * @param request The request the connection is opened with
+   * @returns The connection
+   */
+  async connect(request: LlmRequest): Promise<BaseLlmConnection> {
+    this.requests.push(request);
+    const connection = new MockLlmConnection(this);
+    this.connections.push(connection);
+    return connection;
+  }
+
+  /**
+   * Takes the next turn and returns its responses.
+   *
+   * @throws Error if no turn is left, or the scripted Error of the turn
+   */
+  nextTurn(): LlmResponse[] {
+    const turn = this.turns.shift();
+    if (turn === undefined) {
+      throw new Error(`MockLlm ${this.model} has no scripted turn left`);
+    }
+    if (turn instanceof Error) {
+      throw turn;
+    }
+    if (typeof turn === 'string') {
+      return [{ content: { role: 'model', parts: [{ text: turn }] }, text: turn, turnComplete: true }];
+    }
+    return Array.isArray(turn) ? turn : [turn];
+  }
+
+  /**
+   * Returns a list of supported models in regex format
+   *
+   * @returns Array of regex patterns for supported models
+   */
+  static supportedModels(): string[] {
+    return ['mock(-.*)?'];
+  }
+}
+
+/**
+ * A live connection to a MockLlm that records everything it is sent.
+ */
+export class MockLlmConnection extends BaseLlmConnection {
+  /**
+   * The history sent to the connection.
+   */
+  readonly history: Content[] = [];
+
+  /**
+   * The contents sent to the connection, in order.
+   */
+  readonly sentContents: Content[] = [];
+
+  /**
+   * The realtime data sent to the connection, in order.
+   */
+  readonly sentRealtime: unknown[] = [];
+
+  /**
+   * Whether the connection was closed.
+   */
+  closed = false;
+
+  // The responses not received yet, or the error of a failed turn
+  private pending: Array<LiveLlmResponse | Error> = [];
+
+  // Wakes up a receive waiting for responses
+  private wake: (() => void) | null = null;
+
+  /**
+   * Creates a new MockLlmConnection.
+   *
+   * @param llm The model whose turns are replied
+   */
+  constructor(private readonly llm: MockLlm) {
+    super();
+  }
+
+  async sendHistory(contents: Content[]): Promise<void> {
+    this.history.push(...contents);
+  }
+
+  async sendContent(content: Content): Promise<void> {
+    this.sentContents.push(content);
+    try {
+      this.pending.push(...this.llm.nextTurn().map(response => new LiveLlmResponse({
+        content: response.content,
+        partial: response.partial,
+        turnComplete: response.turnComplete,
+        usageMetadata: response.usageMetadata,
+        finishReason: response.finishReason
+      })));
+    } catch (error) {
+      this.pending.push(error instanceof Error ? error : new Error(String(error)));
+    }
+    this.notify();
+  }
+
+  async sendRealtime(data: unknown): Promise<void> {
+    this.sentRealtime.push(data);
+  }
+
+  /**
+   * Receives the responses of the turns replied so far, waiting for more
+   * until the connection is closed.
+   *
+   * @throws Error if a turn failed
+   */
+  async *receive(): AsyncGenerator<LiveLlmResponse, void, unknown> {
+    while (!this.closed) {
+      const response = this.pending.shift();
+      if (response instanceof Error) {
+        throw response;
+      }
+      if (response) {
+        yield response;
+      } else {
+        await new Promise<void>(resolve => {
+          this.wake = resolve;
+        });
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.notify();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
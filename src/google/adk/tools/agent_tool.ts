@@ -3,12 +3,14 @@
 
 import { BaseTool } from './base_tool';
 import { BaseAgent } from '../agents/base_agent';
+import { LlmAgent } from '../agents/llm_agent';
 import { ToolContext } from './tool_context';
 import { Event } from '../events/event';
 import { InMemoryMemoryService } from '../memory/in_memory_memory_service';
 import { InMemorySessionService } from '../sessions/in_memory_session_service';
 import { Runner } from '../runners';
 import { AdkType as Type, AdkFunctionDeclaration as FunctionDeclaration } from '../models/llm_types';
+import { AgentSchema, parseJsonResponse, toAdkSchema, validateSchema } from '../models/schema_utils';
 
 // Define interfaces to match the @google/genai types
 interface ModelPart {
@@ -30,6 +32,12 @@ interface ModelContent {
  * This tool allows an agent to be called as a tool within a larger application.
  * The agent's input schema is used to define the tool's input parameters, and
  * the agent's output is returned as the tool's result.
+ *
+ * Without an input schema the tool takes a free-text `request`. With one,
+ * the arguments are validated against it, sent to the agent as a JSON
+ * message, and added to the initial state of the agent's session so that
+ * instructions can refer to them. If the agent has an output schema its
+ * parsed response is returned instead of the text.
  */
 export class AgentTool extends BaseTool {
   /**
@@ -56,6 +64,9 @@ export class AgentTool extends BaseTool {
     
     this.agent = agent;
     this.skipSummarization = options.skipSummarization || false;
+
+    // The base constructor declared the tool before the agent was set
+    this.functionDeclarations = [this.getDeclaration()];
   }
 
   /**
@@ -64,6 +75,16 @@ export class AgentTool extends BaseTool {
    * @returns The function declaration
    */
   protected override getDeclaration(): FunctionDeclaration {
+    const inputSchema = this.getInputSchema();
+    if (inputSchema) {
+      // Zod-like schemas cannot be converted, so only declare an object
+      return {
+        name: this.name,
+        description: this.description,
+        parameters: toAdkSchema(inputSchema) || { type: Type.OBJECT }
+      };
+    }
+
     // Default declaration for agents
     return {
       name: this.name,
@@ -97,8 +118,20 @@ export class AgentTool extends BaseTool {
       toolContext.actions.skipSummarization = true;
     }
 
-    // Input value is the request
-    const inputValue = typeof args.request === 'string' ? args.request : '';
+    // Input value is the request, or the validated arguments as JSON
+    const inputSchema = this.getInputSchema();
+    let inputValue = typeof args.request === 'string' ? args.request : '';
+    let inputState: Record<string, unknown> = {};
+    if (inputSchema) {
+      const result = validateSchema(inputSchema, args);
+      if (!result.valid) {
+        return {
+          error: `Invalid arguments for agent ${this.agent.name}:\n${result.errors.join('\n')}`
+        };
+      }
+      inputValue = JSON.stringify(result.value);
+      inputState = result.value as Record<string, unknown>;
+    }
 
     // Create the content to send to the agent
     const content: ModelContent = {
@@ -116,10 +149,13 @@ export class AgentTool extends BaseTool {
     });
 
     // Create a temporary session
-    const session = runner.sessionService.createSession(
+    const parentState = toolContext.state
+      ? (toolContext.state as { toObject?: () => Record<string, unknown> }).toObject?.() || {}
+      : {};
+    const session = await runner.sessionService.createSession(
       this.agent.name,
       'tmp_user',
-      toolContext.state ? (toolContext.state as { toObject?: () => Record<string, unknown> }).toObject?.() || {} : {}
+      { ...parentState, ...inputState }
     );
 
     // Execute the agent and collect events
@@ -148,7 +184,7 @@ export class AgentTool extends BaseTool {
 
       const keys = await artifactKeys;
       for (const artifactName of keys) {
-        const artifact = runner.artifactService.loadArtifact(
+        const artifact = await runner.artifactService.loadArtifact(
           session.appName,
           session.userId,
           session.id,
@@ -171,6 +207,23 @@ export class AgentTool extends BaseTool {
       return '';
     }
 
-    return userContent.parts[0].text;
+    const outputText = userContent.parts[0].text;
+    if (this.agent instanceof LlmAgent && this.agent.outputSchema) {
+      try {
+        return parseJsonResponse(outputText);
+      } catch {
+        return outputText;
+      }
+    }
+    return outputText;
+  }
+
+  /**
+   * Gets the input schema of the wrapped agent.
+   *
+   * @returns The input schema, or null if the agent takes a free-text request
+   */
+  private getInputSchema(): AgentSchema | null {
+    return this.agent instanceof LlmAgent ? this.agent.inputSchema : null;
   }
 }
\ No newline at end of file
@@ -15,6 +15,7 @@
 
 import { AdkFunctionDeclaration, LlmRequest, AdkTool } from '../models/base_llm';
 import { ToolContext } from './tool_context';
+import { ToolConfirmationPredicate } from './tool_confirmation';
 
 /**
  * The base class for all tools in the ADK.
@@ -75,6 +76,12 @@ export abstract class BaseTool implements AdkTool {
    */
   isLongRunning: boolean = false;
 
+  /**
+   * Whether a human has to confirm calls of the tool before they run, or a
+   * function that decides it for each call.
+   */
+  requireConfirmation: boolean | ToolConfirmationPredicate = false;
+
   /**
    * The function declarations of the tool.
    */
@@ -4,6 +4,10 @@
 export * from './base_tool';
 export * from './agent_tool';
 export * from './tool_context';
+export * from './tool_confirmation';
 export * from './function_tool';
 export * from './function_parameter_parse_util';
-export * from './openapi_tool';
\ No newline at end of file
+export * from './openapi_tool';
+export * from './load_memory_tool';
+export * from './preload_memory_tool';
+export * from './transfer_to_agent_tool';
@@ -0,0 +1,80 @@
+// Load memory tool for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the load_memory_tool.py from the Python SDK
+
+import { AdkType as Type, AdkFunctionDeclaration as FunctionDeclaration } from '../models/llm_types';
+import { MemoryResult } from '../memory/base_memory_service';
+import { BaseTool } from './base_tool';
+import { ToolContext } from './tool_context';
+
+/**
+ * Formats memories as plain objects the model can read.
+ *
+ * @param memories The memories to format
+ * @returns One entry per memory with its session, score and conversation text
+ */
+export function formatMemories(memories: MemoryResult[]): Array<{ sessionId: string; score?: number; text: string }> {
+  return memories.map(memory => ({
+    sessionId: memory.sessionId,
+    score: memory.score,
+    text: memory.events
+      .map(event => {
+        const text = (event.getContent()?.parts || [])
+          .filter(part => part.text)
+          .map(part => part.text)
+          .join('\n');
+        return text ? `${event.getAuthor()}: ${text}` : '';
+      })
+      .filter(line => line)
+      .join('\n')
+  }));
+}
+
+/**
+ * A tool that lets the model search the memory of the current user.
+ */
+export class LoadMemoryTool extends BaseTool {
+  /**
+   * Creates a new LoadMemoryTool.
+   */
+  constructor() {
+    super('load_memory', 'Loads the memory for the current user from previous conversations.');
+  }
+
+  protected override getDeclaration(): FunctionDeclaration {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          query: {
+            type: Type.STRING,
+            description: 'What to look for in the memory.'
+          }
+        },
+        required: ['query']
+      }
+    };
+  }
+
+  /**
+   * Searches the memory with the query chosen by the model.
+   *
+   * @param args The arguments, with the query under `query`
+   * @param toolContext The tool context
+   * @returns The matching memories
+   */
+  override async runAsync(args: Record<string, unknown>, toolContext: ToolContext): Promise<unknown> {
+    if (!toolContext.runConfig.loadMemory) {
+      return { memories: [] };
+    }
+
+    const response = await toolContext.searchMemory(String(args.query ?? ''));
+    return { memories: formatMemories(response.memories) };
+  }
+}
+
+/**
+ * Singleton instance of the load memory tool.
+ */
+export const loadMemory = new LoadMemoryTool();
@@ -0,0 +1,65 @@
+// Preload memory tool for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the preload_memory_tool.py from the Python SDK
+
+import { LlmRequest } from '../models/base_llm';
+import { BaseTool } from './base_tool';
+import { formatMemories } from './load_memory_tool';
+import { ToolContext } from './tool_context';
+
+/**
+ * A tool that adds memories relevant to the user's message to the system
+ * instruction before every LLM request.
+ *
+ * The model never calls this tool; it only preprocesses the request.
+ */
+export class PreloadMemoryTool extends BaseTool {
+  /**
+   * Creates a new PreloadMemoryTool.
+   */
+  constructor() {
+    // Name and description are not used because the tool is never declared to the model
+    super('preload_memory', 'preload_memory');
+  }
+
+  /**
+   * Searches the memory with the user's message and adds the results to the
+   * system instruction.
+   *
+   * @param toolContext The tool context
+   * @param llmRequest The LLM request to process
+   */
+  override async processLlmRequest(toolContext: ToolContext, llmRequest: LlmRequest): Promise<void> {
+    if (!toolContext.memoryService || !toolContext.runConfig.loadMemory) {
+      return;
+    }
+
+    const query = (toolContext.userContent?.parts || [])
+      .filter(part => part.text)
+      .map(part => part.text)
+      .join('\n')
+      .trim();
+    if (!query) {
+      return;
+    }
+
+    const response = await toolContext.searchMemory(query);
+    const memories = formatMemories(response.memories).filter(memory => memory.text);
+    if (memories.length === 0) {
+      return;
+    }
+
+    const pastConversations = memories.map(memory => memory.text).join('\n\n');
+    const instruction = 'The following content is from your previous conversations with the user.\n' +
+      'They may be useful for answering the user\'s current query.\n' +
+      `<PAST_CONVERSATIONS>\n${pastConversations}\n</PAST_CONVERSATIONS>`;
+
+    llmRequest.systemInstruction = llmRequest.systemInstruction
+      ? `${llmRequest.systemInstruction}\n\n${instruction}`
+      : instruction;
+  }
+}
+
+/**
+ * Singleton instance of the preload memory tool.
+ */
+export const preloadMemory = new PreloadMemoryTool();
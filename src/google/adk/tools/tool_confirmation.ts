@@ -0,0 +1,37 @@
+// Tool confirmation module for the Google Agent Development Kit (ADK) in TypeScript
+// Lets a human approve, reject or edit a tool call before it runs
+
+import type { ToolContext } from './tool_context';
+
+/**
+ * A request to confirm a tool call, or the decision about it.
+ */
+export interface ToolConfirmation {
+  /**
+   * Explains to the human what they are asked to confirm.
+   */
+  hint?: string;
+
+  /**
+   * Whether the call was approved. Unset while the call waits for a decision.
+   */
+  confirmed?: boolean;
+
+  /**
+   * The arguments the human edited. An approved call runs with them instead
+   * of the arguments chosen by the model.
+   */
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Decides whether a tool call needs to be confirmed before it runs.
+ *
+ * @param args The arguments of the call
+ * @param toolContext The context of the call
+ * @returns True if the call needs to be confirmed
+ */
+export type ToolConfirmationPredicate = (
+  args: Record<string, unknown>,
+  toolContext: ToolContext
+) => boolean | Promise<boolean>;
@@ -7,6 +7,7 @@ import { AuthCredential } from '../auth/auth_credential';
 import { AuthHandler } from '../auth/auth_handler';
 import { SearchMemoryResponse } from '../memory/base_memory_service';
 import { EventActions } from '../events/event_actions';
+import { ToolConfirmation } from './tool_confirmation';
 
 /**
  * The context of the tool.
@@ -24,6 +25,12 @@ export class ToolContext extends CallbackContext {
    */
   functionCallId?: string;
 
+  /**
+   * The decision of the human about the current tool call, if the call had
+   * to be confirmed before it could run.
+   */
+  toolConfirmation?: ToolConfirmation;
+
   /**
    * Creates a new ToolContext.
    * 
@@ -36,6 +43,7 @@ export class ToolContext extends CallbackContext {
     functionCallId?: string,
     eventActions?: Partial<{
       requestedAuthConfigs?: Record<string, unknown>;
+      requestedToolConfirmations?: Record<string, ToolConfirmation>;
       transferToAgent?: string;
       stateDelta?: Record<string, unknown>;
       skipSummarization?: boolean;
@@ -74,6 +82,22 @@ export class ToolContext extends CallbackContext {
       new AuthHandler(authConfig).generateAuthRequest();
   }
 
+  /**
+   * Asks a human to confirm the tool call before it runs.
+   *
+   * Call it from a before tool callback that returns null: the tool does not
+   * run, and the invocation pauses until the call is approved or rejected.
+   *
+   * @param options.hint Explains to the human what they are asked to confirm
+   */
+  requestConfirmation(options: { hint?: string } = {}): void {
+    if (!this.functionCallId) {
+      throw new Error('functionCallId is not set.');
+    }
+
+    this.eventActions.requestedToolConfirmations[this.functionCallId] = { hint: options.hint };
+  }
+
   /**
    * Gets the authentication response for the tool.
    * 
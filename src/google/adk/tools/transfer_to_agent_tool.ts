@@ -0,0 +1,108 @@
+// Transfer to agent tool for the Google Agent Development Kit (ADK) in TypeScript
+// Mirrors the transfer_to_agent_tool.py from the Python SDK
+
+import { BaseAgent } from '../agents/base_agent';
+import { AdkType as Type, AdkFunctionDeclaration as FunctionDeclaration } from '../models/llm_types';
+import { BaseTool } from './base_tool';
+import { ToolContext } from './tool_context';
+
+// Interface for agents that restrict where they can transfer to
+interface AgentWithTransferPolicy extends BaseAgent {
+  disallowTransferToParent?: boolean;
+  disallowTransferToPeers?: boolean;
+}
+
+/**
+ * Gets the agents an agent is allowed to transfer the conversation to.
+ *
+ * An agent can always transfer to its sub-agents. It can also transfer to
+ * its parent and to its peers, the other sub-agents of its parent, unless
+ * `disallowTransferToParent` or `disallowTransferToPeers` is set. Transfers
+ * up the tree are only possible if the parent is an LLM agent, since other
+ * agents run their sub-agents in a fixed order.
+ *
+ * @param agent The agent to get the transfer targets of
+ * @returns The sub-agents, followed by the parent and the peers if allowed
+ */
+export function getTransferTargets(agent: BaseAgent): BaseAgent[] {
+  const targets = [...agent.subAgents];
+
+  const parent = agent.parentAgent;
+  if (!parent || !('canonicalModel' in parent)) {
+    return targets;
+  }
+
+  const policy = agent as AgentWithTransferPolicy;
+  if (!policy.disallowTransferToParent) {
+    targets.push(parent);
+  }
+  if (!policy.disallowTransferToPeers) {
+    targets.push(...parent.subAgents.filter(peer => peer.name !== agent.name));
+  }
+  return targets;
+}
+
+/**
+ * A tool that lets the model hand the conversation over to another agent.
+ *
+ * The transfer itself is carried out by the flow once the function response
+ * event with the transfer action has been yielded.
+ */
+export class TransferToAgentTool extends BaseTool {
+  /**
+   * Creates a new TransferToAgentTool.
+   */
+  constructor() {
+    super('transfer_to_agent', 'Transfers the question to another agent.');
+  }
+
+  protected override getDeclaration(): FunctionDeclaration {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          agent_name: {
+            type: Type.STRING,
+            description: 'The name of the agent to transfer to.'
+          }
+        },
+        required: ['agent_name']
+      }
+    };
+  }
+
+  /**
+   * Records the transfer in the actions of the function response event.
+   *
+   * Transfers to agents that are not among the transfer targets of the
+   * calling agent are refused, so the model can pick another agent.
+   *
+   * @param args The arguments, with the target agent under `agent_name`
+   * @param toolContext The tool context
+   * @returns An empty result, or an error if the transfer is not allowed
+   */
+  override async runAsync(args: Record<string, unknown>, toolContext: ToolContext): Promise<unknown> {
+    const agentName = args.agent_name;
+    if (typeof agentName !== 'string' || !agentName) {
+      return { error: 'agent_name must be a non-empty string' };
+    }
+
+    const targetNames = getTransferTargets(toolContext.invocationContext.agent).map(target => target.name);
+    if (!targetNames.includes(agentName)) {
+      return {
+        error: `Agent ${toolContext.invocationContext.agent.name} cannot transfer to ${agentName}. ` +
+          `Allowed agents: ${targetNames.join(', ') || 'none'}`
+      };
+    }
+
+    toolContext.actions.transferToAgent = agentName;
+    return {};
+  }
+}
+
+/**
+ * Singleton instance of the transfer to agent tool.
+ */
+export const transferToAgent = new TransferToAgentTool();
@@ -23,7 +23,7 @@ export * from './google/adk/tools';
 export * from './google/adk/version';
 
 // Export Runner
-export { Runner } from './google/adk/runners';
+export { Runner, RunResult } from './google/adk/runners';
 
 // Explicit exports
 export {
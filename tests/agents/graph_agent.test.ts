@@ -0,0 +1,169 @@
+// Tests for running agents and functions along the edges of a graph with the GraphAgent
+
+import { GRAPH_END, GraphAgent } from '../../src/google/adk/agents/graph_agent';
+import { Event } from '../../src/google/adk/events/event';
+import { newRunner, run, ScriptedAgent, send } from '../testing_utils';
+
+const textOf = (event: Event) => event.getContent()?.parts?.[0]?.text;
+
+describe('GraphAgent', () => {
+  it('should follow conditional edges around a cycle', async () => {
+    const writer = new ScriptedAgent('writer', run => `draft ${run}`);
+    const graph = new GraphAgent({
+      name: 'pipeline',
+      nodes: [
+        writer,
+        {
+          name: 'review',
+          run: context => {
+            const drafts = ((context.state?.get('drafts') as number | undefined) ?? 0) + 1;
+            context.state?.set('drafts', drafts);
+            return drafts >= 2 ? 'approved' : 'needs work';
+          }
+        }
+      ],
+      edges: [
+        { from: 'writer', to: 'review' },
+        { from: 'review', to: 'writer', condition: (_context, lastEvent) => lastEvent !== null && textOf(lastEvent) === 'needs work' },
+        { from: 'review', to: GRAPH_END, condition: context => context.state?.drafts === 2 }
+      ]
+    });
+
+    const result = await run(graph, 'Write a poem');
+
+    expect(result.events.map(textOf).filter(Boolean)).toEqual(['Write a poem', 'draft 1', 'needs work', 'draft 2', 'approved']);
+    expect(result.stateDelta).toEqual({ drafts: 2, pipeline_checkpoint: null });
+  });
+
+  it('should run the targets of a step in parallel branches and join them', async () => {
+    const research = new ScriptedAgent('research');
+    const summary = new ScriptedAgent('summary');
+    const quotes = new ScriptedAgent('quotes');
+    const report = new ScriptedAgent('report');
+    const graph = new GraphAgent({
+      name: 'pipeline',
+      nodes: [{ name: 'plan', run: () => 'plan done' }, research, summary, quotes, report],
+      edges: [
+        { from: 'plan', to: 'research' },
+        { from: 'plan', to: 'quotes' },
+        { from: 'research', to: 'summary' },
+        { from: ['summary', 'quotes'], to: 'report' }
+      ]
+    });
+
+    const result = await run(graph);
+
+    const contentEvents = result.events.slice(1).filter(event => event.getContent());
+    expect(contentEvents.map(event => [textOf(event), event.getBranch()])).toEqual([
+      ['plan done', null],
+      ['research done', 'pipeline.research'],
+      ['quotes done', 'pipeline.quotes'],
+      ['summary done', null],
+      ['report done', null]
+    ]);
+    expect(report.runs).toBe(1);
+  });
+
+  it('should resume an interrupted run at the node that was running', async () => {
+    const intake = new ScriptedAgent('intake');
+    let attempts = 0;
+    const graph = new GraphAgent({
+      name: 'pipeline',
+      nodes: [
+        intake,
+        {
+          name: 'charge',
+          run: () => {
+            attempts++;
+            if (attempts === 1) {
+              throw new Error('payment service unavailable');
+            }
+            return 'charged';
+          }
+        }
+      ],
+      edges: [{ from: 'intake', to: 'charge' }]
+    });
+    const runner = newRunner(graph);
+
+    await expect(send(runner, 'Order')).rejects.toThrow('payment service unavailable');
+    const session = await runner.sessionService.getSession('app', 'u1', 's1');
+    expect(session?.state.pipeline_checkpoint).toEqual({ nodes: ['charge'], joins: {} });
+
+    const result = await send(runner, 'Retry');
+
+    expect(intake.runs).toBe(1);
+    expect(result.events.map(textOf).filter(Boolean)).toEqual(['Retry', 'charged']);
+    expect(result.stateDelta).toEqual({ pipeline_checkpoint: null });
+  });
+
+  it('should fail when the graph does not finish within the maximum number of steps', async () => {
+    const graph = new GraphAgent({
+      name: 'pipeline',
+      maxSteps: 3,
+      nodes: [new ScriptedAgent('ping'), new ScriptedAgent('pong')],
+      edges: [{ from: 'ping', to: 'pong' }, { from: 'pong', to: 'ping' }]
+    });
+
+    const runner = newRunner(graph);
+
+    await expect(send(runner, 'Go')).rejects.toThrow('Graph agent pipeline did not finish within 3 steps');
+    const session = await runner.sessionService.getSession('app', 'u1', 's1');
+    expect(session?.state.pipeline_checkpoint).toBeNull();
+  });
+
+  it('should start over when the checkpoint refers to unknown nodes', async () => {
+    const graph = new GraphAgent({ name: 'pipeline', nodes: [new ScriptedAgent('intake')], edges: [] });
+    const runner = newRunner(graph);
+    await runner.sessionService.createSession('app', 'u1', { pipeline_checkpoint: { nodes: ['removed'], joins: {} } }, 's1');
+
+    const result = await send(runner, 'Go');
+
+    expect(result.events.map(textOf).filter(Boolean)).toEqual(['Go', 'intake done']);
+    expect(result.stateDelta).toEqual({ pipeline_checkpoint: null });
+  });
+
+  it('should reject edges to unknown nodes', () => {
+    expect(() => new GraphAgent({
+      name: 'pipeline',
+      nodes: [new ScriptedAgent('writer')],
+      edges: [{ from: 'writer', to: 'editor' }]
+    })).toThrow('Edge of graph agent pipeline refers to unknown node editor');
+  });
+
+  it('should describe the graph as Mermaid and DOT', () => {
+    const graph = new GraphAgent({
+      name: 'pipeline',
+      nodes: [new ScriptedAgent('writer'), { name: 'review', run: () => undefined }],
+      edges: [
+        { from: 'writer', to: 'review' },
+        { from: 'review', to: 'writer', condition: () => false, label: 'needs work' },
+        { from: 'review', to: GRAPH_END }
+      ]
+    });
+
+    expect(graph.toMermaid()).toBe([
+      'flowchart TD',
+      '  __start__([__start__])',
+      '  writer[writer]',
+      '  review(review)',
+      '  __end__([__end__])',
+      '  __start__ --> writer',
+      '  writer --> review',
+      '  review -.->|"needs work"| writer',
+      '  review --> __end__'
+    ].join('\n'));
+    expect(graph.toDot()).toBe([
+      'digraph "pipeline" {',
+      '  "__start__" [shape=circle];',
+      '  "writer" [shape=box];',
+      '  "review" [shape=ellipse];',
+      '  "__end__" [shape=doublecircle];',
+      '  "__start__" -> "writer";',
+      '  "writer" -> "review";',
+      '  "review" -> "writer" [style=dashed, label="needs work"];',
+      '  "review" -> "__end__";',
+      '}'
+    ].join('\n'));
+  });
+});
@@ -67,11 +67,11 @@ class MockArtifactService extends BaseArtifactService {
 
 class MockMemoryService extends BaseMemoryService {
   // Implement abstract methods from BaseMemoryService
-  addSessionToMemory(_session: Session): void {
+  async addSessionToMemory(_session: Session): Promise<void> {
     // Placeholder - mock implementation
   }
 
-  searchMemory(_appName: string, _userId: string, _query: string): SearchMemoryResponse {
+  async searchMemory(_appName: string, _userId: string, _query: string): Promise<SearchMemoryResponse> {
     return new SearchMemoryResponse({ memories: [] });
   }
 }
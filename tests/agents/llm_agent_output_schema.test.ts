@@ -0,0 +1,230 @@
+// Tests for validating and saving the output of an LlmAgent with an output schema
+
+import { CallbackContext, InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { LlmAgent } from '../../src/google/adk/agents/llm_agent';
+import { SequentialAgent } from '../../src/google/adk/agents/sequential_agent';
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { Event } from '../../src/google/adk/events/event';
+import { BaseLlmRequestProcessor } from '../../src/google/adk/flows/llm_flows/_base_llm_processor';
+import { BaseLlmFlow } from '../../src/google/adk/flows/llm_flows/base_llm_flow';
+import { requestProcessor as basicRequestProcessor } from '../../src/google/adk/flows/llm_flows/basic';
+import { responseProcessor as nlPlanningResponseProcessor } from '../../src/google/adk/flows/llm_flows/_nl_planning';
+import { LlmRequest } from '../../src/google/adk/models/base_llm';
+import { LlmRequest as LlmRequestClass } from '../../src/google/adk/models/llm_request';
+import { AgentSchema, validateSchema, ZodLikeSchema } from '../../src/google/adk/models/schema_utils';
+import { BasePlanner } from '../../src/google/adk/planners/base_planner';
+import { MockLlm } from '../../src/google/adk/tests';
+import { run } from '../testing_utils';
+
+/**
+ * Sends the session's events of the invocation to the model.
+ */
+class InvocationContentsProcessor extends BaseLlmRequestProcessor {
+  // eslint-disable-next-line require-yield
+  async *runAsync(ctx: InvocationContext, llmRequest: LlmRequest): AsyncGenerator<Event, void, unknown> {
+    llmRequest.contents = ctx.session!.events
+      .filter(event => event.getInvocationId() === ctx.invocationId && event.getContent())
+      .map(event => event.getContent()!);
+  }
+}
+
+class TestFlow extends BaseLlmFlow {
+  constructor() {
+    super();
+    this.requestProcessors = [basicRequestProcessor, new InvocationContentsProcessor()];
+    this.responseProcessors = [nlPlanningResponseProcessor];
+  }
+}
+
+class FlowLlmAgent extends LlmAgent {
+  protected override runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    return new TestFlow().runAsync(ctx);
+  }
+}
+
+/**
+ * A planner that counts the responses it planned in the state.
+ */
+class CountingPlanner extends BasePlanner {
+  buildPlanningInstruction(): string | null {
+    return null;
+  }
+
+  processPlanningResponse(callbackContext: CallbackContext): null {
+    callbackContext.state!.set('planned', 1);
+    return null;
+  }
+}
+
+const invoiceSchema: AgentSchema = {
+  type: 'OBJECT',
+  properties: {
+    vendor: { type: 'STRING' },
+    total: { type: 'NUMBER' },
+    lines: { type: 'ARRAY', items: { type: 'STRING' } }
+  },
+  required: ['vendor', 'total']
+};
+
+describe('LlmAgent output schema', () => {
+  const extract = (agent: BaseAgent) => run(agent, 'Extract the invoice');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    MockLlm.reset();
+  });
+
+  it('should request JSON matching the schema and save the parsed object', async () => {
+    const llm = new MockLlm({ turns: ['```json\n{"vendor": "ACME", "total": 12.5}\n```'] });
+    const agent = new FlowLlmAgent({ name: 'extractor', model: llm, outputSchema: invoiceSchema, outputKey: 'invoice' });
+
+    const result = await extract(agent);
+
+    expect(llm.requests[0].generationConfig).toMatchObject({
+      responseMimeType: 'application/json',
+      responseSchema: { type: 'OBJECT', required: ['vendor', 'total'] }
+    });
+    expect(result.stateDelta).toEqual({ invoice: { vendor: 'ACME', total: 12.5 } });
+  });
+
+  it('should send validation errors back to the model and retry', async () => {
+    const llm = new MockLlm({
+      turns: [
+        'The vendor is ACME',
+        '{"vendor": "ACME", "total": "12.50"}',
+        '{"vendor": "ACME", "total": 12.5, "lines": ["bolts"]}'
+      ]
+    });
+    const agent = new FlowLlmAgent({ name: 'extractor', model: llm, outputSchema: invoiceSchema, outputKey: 'invoice' });
+
+    const result = await extract(agent);
+
+    expect(llm.requests).toHaveLength(3);
+    const repair = llm.requests[2].contents![4].parts![0].text;
+    expect(repair).toContain('does not match the required output schema');
+    expect(repair).toContain('$.total: expected number, got string');
+    expect(result.stateDelta).toEqual({ invoice: { vendor: 'ACME', total: 12.5, lines: ['bolts'] } });
+  });
+
+  it('should fail the run once the retries are used up', async () => {
+    const llm = new MockLlm({ turns: ['{}', '{}'] });
+    const agent = new FlowLlmAgent({
+      name: 'extractor',
+      model: llm,
+      outputSchema: invoiceSchema,
+      outputSchemaMaxRetries: 1
+    });
+
+    await expect(extract(agent)).rejects.toThrow(
+      'Agent extractor did not produce a response matching its output schema after 1 retries: $.vendor: is required'
+    );
+  });
+
+  it('should save the text of agents without a schema under the output key', async () => {
+    const agent = new FlowLlmAgent({ name: 'writer', model: new MockLlm({ turns: ['A short poem'] }), outputKey: 'poem' });
+
+    expect((await extract(agent)).stateDelta).toEqual({ poem: 'A short poem' });
+  });
+
+  it('should not save the output of events without text', async () => {
+    const agent = new FlowLlmAgent({
+      name: 'writer',
+      model: new MockLlm({ turns: ['A short poem'] }),
+      planner: new CountingPlanner(),
+      outputKey: 'poem'
+    });
+
+    const result = await extract(agent);
+
+    expect(result.events.map(event => event.getActions().stateDelta)).toEqual([
+      undefined,
+      { planned: 1 },
+      { poem: 'A short poem' }
+    ]);
+  });
+
+  it('should let later sequential steps read the saved output', async () => {
+    const extractor = new FlowLlmAgent({
+      name: 'extractor',
+      model: new MockLlm({ turns: ['{"vendor": "ACME", "total": 3}'] }),
+      outputSchema: invoiceSchema,
+      outputKey: 'invoice'
+    });
+    class ReaderAgent extends BaseAgent {
+      protected async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+        const invoice = ctx.session!.state.invoice as { vendor: string };
+        yield new Event({
+          invocationId: ctx.invocationId,
+          author: this.name,
+          content: { role: 'model', parts: [{ text: `paying ${invoice.vendor}` }] }
+        });
+      }
+    }
+
+    const result = await extract(new SequentialAgent({
+      name: 'pipeline',
+      subAgents: [extractor, new ReaderAgent({ name: 'reader' })]
+    }));
+
+    expect(result.finalResponseText).toBe('paying ACME');
+  });
+
+  it('should validate with Zod-like schemas and keep their parsed value', async () => {
+    const zodLike: ZodLikeSchema = {
+      safeParse: (data: unknown) => typeof (data as { n?: unknown }).n === 'number'
+        ? { success: true, data: { n: (data as { n: number }).n * 2 } }
+        : { success: false, error: { issues: [{ path: ['n'], message: 'Expected number' }] } }
+    };
+    const llm = new MockLlm({ turns: ['{"n": "x"}', '{"n": 2}'] });
+    const agent = new FlowLlmAgent({ name: 'doubler', model: llm, outputSchema: zodLike, outputKey: 'result' });
+
+    const result = await extract(agent);
+
+    expect(llm.requests[0].generationConfig).toEqual({ responseMimeType: 'application/json' });
+    expect(llm.requests[1].contents![2].parts![0].text).toContain('$.n: Expected number');
+    expect(result.stateDelta).toEqual({ result: { n: 4 } });
+  });
+});
+
+describe('validateSchema', () => {
+  it('should accept JSON Schema style types and report every violation', () => {
+    const schema: AgentSchema = {
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+        note: { type: ['string', 'null'] }
+      },
+      required: ['id'],
+      additionalProperties: false
+    };
+
+    expect(validateSchema(schema, { id: 1, tags: ['a'], note: null })).toEqual({
+      valid: true,
+      value: { id: 1, tags: ['a'], note: null }
+    });
+    expect(validateSchema(schema, { id: 1.5, tags: ['c'], extra: true })).toEqual({
+      valid: false,
+      errors: [
+        '$.id: expected integer, got number',
+        '$.tags[0]: must be one of "a", "b"',
+        '$.extra: is not allowed'
+      ]
+    });
+  });
+
+  it('should send converted schemas with ADK types to the model', () => {
+    const request = new LlmRequestClass();
+
+    request.setOutputSchema({ type: 'object', properties: { note: { type: ['string', 'null'] } } });
+
+    expect(request.generationConfig).toEqual({
+      responseMimeType: 'application/json',
+      responseSchema: { type: 'OBJECT', properties: { note: { type: 'STRING' } } }
+    });
+  });
+});
@@ -0,0 +1,110 @@
+// Tests for the stop conditions of the LoopAgent
+
+import { LoopAgent, LoopStopReason } from '../../src/google/adk/agents/loop_agent';
+import { Event } from '../../src/google/adk/events/event';
+import { newRunner, run, ScriptedAgent } from '../testing_utils';
+
+describe('LoopAgent', () => {
+  it('should stop after the maximum number of iterations', async () => {
+    const writer = new ScriptedAgent('writer', run => `draft ${run}`);
+    const agent = new LoopAgent({ name: 'refine', maxIterations: 3, subAgents: [writer] });
+
+    const result = await run(agent);
+
+    expect(writer.runs).toBe(3);
+    expect(result.stateDelta).toEqual({ refine_stop_reason: LoopStopReason.MAX_ITERATIONS });
+    expect(result.events[result.events.length - 1].getAuthor()).toBe('refine');
+  });
+
+  it('should stop when a sub-agent escalates', async () => {
+    const writer = new ScriptedAgent('writer', run => `draft ${run}`, { escalateOnRun: 2 });
+    const reviewer = new ScriptedAgent('reviewer', () => 'looks fine');
+    const agent = new LoopAgent({ name: 'refine', maxIterations: 5, subAgents: [writer, reviewer] });
+
+    const result = await run(agent);
+
+    expect([writer.runs, reviewer.runs]).toEqual([2, 1]);
+    expect(result.stateDelta).toEqual({ refine_stop_reason: LoopStopReason.ESCALATED });
+  });
+
+  it('should stop once the stop condition holds', async () => {
+    const writer = new ScriptedAgent('writer', run => `draft ${run}`, { countKey: 'drafts' });
+    const agent = new LoopAgent({
+      name: 'refine',
+      maxIterations: 10,
+      subAgents: [writer],
+      stopCondition: context => context.state?.drafts === 2
+    });
+
+    const result = await run(agent);
+
+    expect(writer.runs).toBe(2);
+    expect(result.stateDelta).toEqual({ drafts: 2, refine_stop_reason: LoopStopReason.STOP_CONDITION });
+  });
+
+  it('should stop as soon as the critic approves', async () => {
+    const writer = new ScriptedAgent('writer', run => `draft ${run}`);
+    const critic = new ScriptedAgent('critic', run => (run < 2 ? 'Too vague, add examples.' : 'APPROVED, ship it.'));
+    const publisher = new ScriptedAgent('publisher', () => 'published');
+    const agent = new LoopAgent({
+      name: 'refine',
+      subAgents: [writer, critic, publisher],
+      critic: { agentName: 'critic' }
+    });
+
+    const result = await run(agent);
+
+    expect([writer.runs, critic.runs, publisher.runs]).toEqual([2, 2, 1]);
+    expect(result.stateDelta).toEqual({ refine_stop_reason: LoopStopReason.CRITIC_APPROVED });
+  });
+
+  it('should reject a critic that is not a sub-agent', () => {
+    expect(() => new LoopAgent({
+      name: 'refine',
+      subAgents: [new ScriptedAgent('writer', () => 'draft')],
+      critic: { agentName: 'critic' }
+    })).toThrow('Critic critic is not a sub-agent of loop agent refine');
+  });
+
+  it('should stop when an iteration does not change the state', async () => {
+    const counter = new ScriptedAgent('counter', () => 'counted', { countKey: 'count' });
+    const idle = new ScriptedAgent('idle', () => 'nothing to do');
+    const first = new LoopAgent({ name: 'first', maxIterations: 2, subAgents: [counter] });
+    const second = new LoopAgent({ name: 'second', maxIterations: 5, subAgents: [idle], stopOnNoProgress: true });
+    const agent = new LoopAgent({ name: 'outer', maxIterations: 1, subAgents: [first, second] });
+
+    const result = await run(agent);
+
+    expect(idle.runs).toBe(1);
+    expect(result.stateDelta.second_stop_reason).toBe(LoopStopReason.NO_PROGRESS);
+  });
+
+  it('should not start another sub-agent once the time budget is used up', async () => {
+    let now = 1000;
+    const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const writer = new ScriptedAgent('writer', run => {
+      now += 40;
+      return `draft ${run}`;
+    });
+    const agent = new LoopAgent({ name: 'refine', maxDurationMs: 60, subAgents: [writer] });
+
+    const result = await run(agent);
+    dateNow.mockRestore();
+
+    expect(writer.runs).toBe(2);
+    expect(result.stateDelta).toEqual({ refine_stop_reason: LoopStopReason.TIME_BUDGET });
+  });
+
+  it('should run the same loop in live mode', async () => {
+    const writer = new ScriptedAgent('writer', run => `draft ${run}`);
+    const agent = new LoopAgent({ name: 'refine', maxIterations: 2, subAgents: [writer] });
+
+    const events: Event[] = [];
+    for await (const event of newRunner(agent).runLive({ userId: 'u1', sessionId: 's1' })) {
+      events.push(event);
+    }
+
+    expect(events.map(event => event.getAuthor())).toEqual(['writer', 'writer', 'refine']);
+    expect(events[2].getActions().stateDelta).toEqual({ refine_stop_reason: LoopStopReason.MAX_ITERATIONS });
+  });
+});
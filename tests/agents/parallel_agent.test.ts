@@ -0,0 +1,150 @@
+// Tests for running sub-agents in parallel with the ParallelAgent
+
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { ParallelAgent, ParallelErrorMode } from '../../src/google/adk/agents/parallel_agent';
+import { Event } from '../../src/google/adk/events/event';
+import { run } from '../testing_utils';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * An agent that answers after a delay, or fails if given an error.
+ */
+class DelayedAgent extends BaseAgent {
+  static running = 0;
+  static maxRunning = 0;
+
+  constructor(name: string, private readonly delayMs: number, private readonly error?: string) {
+    super({ name });
+  }
+
+  protected async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    DelayedAgent.running++;
+    DelayedAgent.maxRunning = Math.max(DelayedAgent.maxRunning, DelayedAgent.running);
+    try {
+      await sleep(this.delayMs);
+      if (this.error) {
+        throw new Error(this.error);
+      }
+      yield new Event({
+        invocationId: ctx.invocationId,
+        author: this.name,
+        branch: ctx.branch,
+        content: { role: 'model', parts: [{ text: `${this.name} done` }] }
+      });
+    } finally {
+      DelayedAgent.running--;
+    }
+  }
+}
+
+describe('ParallelAgent', () => {
+  beforeEach(() => {
+    DelayedAgent.running = 0;
+    DelayedAgent.maxRunning = 0;
+  });
+
+  it('should run every sub-agent in its own branch', async () => {
+    const agent = new ParallelAgent({ name: 'fanout', subAgents: [new DelayedAgent('a', 20), new DelayedAgent('b', 5)] });
+
+    const result = await run(agent);
+
+    expect(result.events.slice(1).map(event => [event.getAuthor(), event.getBranch()])).toEqual([
+      ['b', 'fanout.b'],
+      ['a', 'fanout.a']
+    ]);
+  });
+
+  it('should add nested parallel agents to the branch once', async () => {
+    const inner = new ParallelAgent({ name: 'inner', subAgents: [new DelayedAgent('a', 5)] });
+    const agent = new ParallelAgent({ name: 'outer', subAgents: [inner, new DelayedAgent('b', 10)] });
+
+    const result = await run(agent);
+
+    expect(result.events.slice(1).map(event => [event.getAuthor(), event.getBranch()])).toEqual([
+      ['a', 'outer.inner.a'],
+      ['b', 'outer.b']
+    ]);
+  });
+
+  it('should not run more sub-agents at once than allowed', async () => {
+    const agent = new ParallelAgent({
+      name: 'fanout',
+      maxConcurrency: 2,
+      subAgents: [new DelayedAgent('a', 10), new DelayedAgent('b', 10), new DelayedAgent('c', 10), new DelayedAgent('d', 10)]
+    });
+
+    const result = await run(agent);
+
+    expect(DelayedAgent.maxRunning).toBe(2);
+    expect(result.events).toHaveLength(5);
+  });
+
+  it('should save the final response of each sub-agent under the output key', async () => {
+    const agent = new ParallelAgent({
+      name: 'fanout',
+      outputKey: 'findings',
+      subAgents: [new DelayedAgent('a', 10), new DelayedAgent('b', 5)]
+    });
+
+    const result = await run(agent);
+
+    expect(result.stateDelta).toEqual({ findings: { a: 'a done', b: 'b done' } });
+    expect(result.events[result.events.length - 1].getAuthor()).toBe('fanout');
+  });
+
+  it('should stop the other sub-agents when one fails in fail-fast mode', async () => {
+    const agent = new ParallelAgent({
+      name: 'fanout',
+      subAgents: [new DelayedAgent('a', 5, 'quota exceeded'), new DelayedAgent('b', 50)]
+    });
+
+    await expect(run(agent)).rejects.toThrow('Sub-agent a failed: quota exceeded');
+    await sleep(60);
+    expect(DelayedAgent.running).toBe(0);
+  });
+
+  it('should let the other sub-agents finish when errors are collected', async () => {
+    const agent = new ParallelAgent({
+      name: 'fanout',
+      errorMode: ParallelErrorMode.COLLECT_ALL,
+      outputKey: 'findings',
+      subAgents: [new DelayedAgent('a', 5, 'quota exceeded'), new DelayedAgent('b', 15)]
+    });
+
+    const result = await run(agent);
+
+    expect(result.stateDelta).toEqual({
+      findings: { b: 'b done' },
+      fanout_failures: { a: 'Sub-agent a failed: quota exceeded' }
+    });
+  });
+
+  it('should fail when every sub-agent fails', async () => {
+    const agent = new ParallelAgent({
+      name: 'fanout',
+      errorMode: ParallelErrorMode.COLLECT_ALL,
+      subAgents: [new DelayedAgent('a', 5, 'down'), new DelayedAgent('b', 5, 'down')]
+    });
+
+    await expect(run(agent)).rejects.toThrow('All sub-agents of parallel agent fanout failed');
+  });
+
+  it('should count sub-agents that exceed the branch timeout as failed', async () => {
+    const agent = new ParallelAgent({
+      name: 'fanout',
+      errorMode: ParallelErrorMode.COLLECT_ALL,
+      branchTimeoutMs: 20,
+      outputKey: 'findings',
+      subAgents: [new DelayedAgent('slow', 200), new DelayedAgent('fast', 5)]
+    });
+
+    const result = await run(agent);
+
+    expect(result.stateDelta).toEqual({
+      findings: { fast: 'fast done' },
+      fanout_failures: { slow: 'Sub-agent slow failed: timed out after 20 ms' }
+    });
+  });
+});
@@ -80,11 +80,11 @@ class MockMemoryService extends BaseMemoryService {
     // Mock implementation
   }
   
-  addSessionToMemory(_session: Session): void {
+  async addSessionToMemory(_session: Session): Promise<void> {
     // Mock implementation
   }
   
-  searchMemory(_appName: string, _userId: string, _query: string): SearchMemoryResponse {
+  async searchMemory(_appName: string, _userId: string, _query: string): Promise<SearchMemoryResponse> {
     return new SearchMemoryResponse({ memories: [] });
   }
 }
@@ -0,0 +1,167 @@
+// Contract tests shared by the artifact service implementations
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseArtifactService } from '../../src/google/adk/artifacts/base_artifact_service';
+import { InMemoryArtifactService } from '../../src/google/adk/artifacts/in_memory_artifact_service';
+import { FileArtifactService } from '../../src/google/adk/artifacts/file_artifact_service';
+
+const imagePart = (data: string) => ({
+  inlineData: { mimeType: 'image/png', data: Buffer.from(data).toString('base64') }
+});
+
+interface ServiceFactory {
+  create: () => BaseArtifactService;
+  cleanup: () => void;
+}
+
+const factories: Array<[string, () => ServiceFactory]> = [
+  ['InMemoryArtifactService', () => ({
+    create: () => new InMemoryArtifactService(),
+    cleanup: () => undefined
+  })],
+  ['FileArtifactService', () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-artifacts-'));
+    return {
+      create: () => new FileArtifactService(rootDir),
+      cleanup: () => fs.rmSync(rootDir, { recursive: true, force: true })
+    };
+  }]
+];
+
+describe.each(factories)('%s', (_name, makeFactory) => {
+  let factory: ServiceFactory;
+  let service: BaseArtifactService;
+
+  beforeEach(() => {
+    factory = makeFactory();
+    service = factory.create();
+  });
+
+  afterEach(() => {
+    factory.cleanup();
+  });
+
+  it('should number versions from zero and load the latest by default', async () => {
+    expect(await service.saveArtifact('app', 'user1', 's1', 'report.txt', { text: 'v0' })).toBe(0);
+    expect(await service.saveArtifact('app', 'user1', 's1', 'report.txt', { text: 'v1' })).toBe(1);
+
+    expect(await service.loadArtifact('app', 'user1', 's1', 'report.txt')).toEqual({ text: 'v1' });
+    expect(await service.loadArtifact('app', 'user1', 's1', 'report.txt', 0)).toEqual({ text: 'v0' });
+    expect(await service.listVersions('app', 'user1', 's1', 'report.txt')).toEqual([0, 1]);
+  });
+
+  it('should return null for missing artifacts and versions', async () => {
+    expect(await service.loadArtifact('app', 'user1', 's1', 'missing.txt')).toBeNull();
+
+    await service.saveArtifact('app', 'user1', 's1', 'report.txt', { text: 'v0' });
+    expect(await service.loadArtifact('app', 'user1', 's1', 'report.txt', 5)).toBeNull();
+    expect(await service.loadArtifact('app', 'user1', 's1', 'report.txt', -1)).toBeNull();
+    expect(await service.listVersions('app', 'user1', 's1', 'missing.txt')).toEqual([]);
+  });
+
+  it('should round-trip inline data parts', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'image.png', imagePart('png-bytes'));
+
+    expect(await service.loadArtifact('app', 'user1', 's1', 'image.png')).toEqual(imagePart('png-bytes'));
+  });
+
+  it('should keep session artifacts private to their session', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'notes.txt', { text: 'mine' });
+
+    expect(await service.loadArtifact('app', 'user1', 's2', 'notes.txt')).toBeNull();
+    expect(await service.listArtifactKeys('app', 'user1', 's2')).toEqual([]);
+    expect(await service.loadArtifact('app', 'user2', 's1', 'notes.txt')).toBeNull();
+  });
+
+  it('should share user-namespaced artifacts across sessions of a user', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'user:profile.json', { text: 'profile' });
+
+    expect(await service.loadArtifact('app', 'user1', 's2', 'user:profile.json')).toEqual({ text: 'profile' });
+    expect(await service.loadArtifact('app', 'user2', 's1', 'user:profile.json')).toBeNull();
+  });
+
+  it('should list session and user-namespaced keys in sorted order', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'b.txt', { text: 'b' });
+    await service.saveArtifact('app', 'user1', 's1', 'a.txt', { text: 'a' });
+    await service.saveArtifact('app', 'user1', 's2', 'user:c.txt', { text: 'c' });
+
+    expect(await service.listArtifactKeys('app', 'user1', 's1')).toEqual(['a.txt', 'b.txt', 'user:c.txt']);
+  });
+
+  it('should delete all versions of an artifact', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'report.txt', { text: 'v0' });
+    await service.saveArtifact('app', 'user1', 's1', 'report.txt', { text: 'v1' });
+
+    await service.deleteArtifact('app', 'user1', 's1', 'report.txt');
+
+    expect(await service.loadArtifact('app', 'user1', 's1', 'report.txt')).toBeNull();
+    expect(await service.listVersions('app', 'user1', 's1', 'report.txt')).toEqual([]);
+    expect(await service.listArtifactKeys('app', 'user1', 's1')).toEqual([]);
+  });
+});
+
+describe('FileArtifactService storage', () => {
+  let rootDir: string;
+  let service: FileArtifactService;
+
+  const blobCount = () =>
+    fs.existsSync(path.join(rootDir, 'blobs')) ? fs.readdirSync(path.join(rootDir, 'blobs')).length : 0;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-artifacts-'));
+    service = new FileArtifactService(rootDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should persist artifacts across service instances', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'image.png', imagePart('png-bytes'));
+
+    const restored = new FileArtifactService(rootDir);
+    expect(await restored.loadArtifact('app', 'user1', 's1', 'image.png')).toEqual(imagePart('png-bytes'));
+    expect(await restored.listArtifactKeys('app', 'user1', 's1')).toEqual(['image.png']);
+  });
+
+  it('should store identical data once', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'a.png', imagePart('same'));
+    await service.saveArtifact('app', 'user1', 's1', 'a.png', imagePart('same'));
+    await service.saveArtifact('app', 'user2', 's9', 'b.png', imagePart('same'));
+
+    expect(blobCount()).toBe(1);
+    expect(await service.listVersions('app', 'user1', 's1', 'a.png')).toEqual([0, 1]);
+  });
+
+  it('should record MIME type metadata for each version', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'image.png', imagePart('png-bytes'));
+    await service.saveArtifact('app', 'user1', 's1', 'image.png', { text: 'not an image' });
+
+    const first = await service.getArtifactMetadata('app', 'user1', 's1', 'image.png', 0);
+    expect(first).toMatchObject({ version: 0, mimeType: 'image/png', size: 'png-bytes'.length });
+
+    const latest = await service.getArtifactMetadata('app', 'user1', 's1', 'image.png');
+    expect(latest).toMatchObject({ version: 1, mimeType: 'application/json' });
+  });
+
+  it('should only remove blobs that are no longer referenced', async () => {
+    await service.saveArtifact('app', 'user1', 's1', 'a.png', imagePart('shared'));
+    await service.saveArtifact('app', 'user1', 's1', 'b.png', imagePart('shared'));
+    await service.saveArtifact('app', 'user1', 's1', 'c.png', imagePart('unique'));
+
+    await service.deleteArtifact('app', 'user1', 's1', 'a.png');
+    await service.deleteArtifact('app', 'user1', 's1', 'c.png');
+
+    expect(blobCount()).toBe(1);
+    expect(await service.loadArtifact('app', 'user1', 's1', 'b.png')).toEqual(imagePart('shared'));
+  });
+
+  it('should keep filenames with path separators inside the artifact directory', async () => {
+    await service.saveArtifact('app', 'user1', 's1', '../outside/x.txt', { text: 'x' });
+
+    expect(fs.existsSync(path.join(rootDir, 'outside'))).toBe(false);
+    expect(await service.listArtifactKeys('app', 'user1', 's1')).toEqual(['../outside/x.txt']);
+  });
+});
@@ -0,0 +1,204 @@
+// Tests for the HTTP server returned by getFastApiApp
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { Event } from '../../src/google/adk/events/event';
+import { FastApiApp, getFastApiApp } from '../../src/google/adk/cli/fast_api';
+
+class EchoAgent extends BaseAgent {
+  constructor() {
+    super({ name: 'echo' });
+  }
+
+  protected async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    const text = ctx.userContent?.parts?.[0]?.text ?? '';
+    yield new Event({
+      invocationId: ctx.invocationId,
+      author: this.name,
+      content: { role: 'model', parts: [{ text: `echo: ${text}` }] }
+    });
+  }
+}
+
+describe('getFastApiApp', () => {
+  let agentDir: string;
+  let app: FastApiApp;
+  let baseUrl: string;
+
+  const request = (urlPath: string, init?: RequestInit) => fetch(`${baseUrl}${urlPath}`, init);
+  const postJson = (urlPath: string, body: unknown) => request(urlPath, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const runBody = (text: string) => ({
+    appName: 'echo_app',
+    userId: 'u1',
+    sessionId: 's1',
+    newMessage: { role: 'user', parts: [{ text }] }
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    agentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-agents-'));
+    fs.mkdirSync(path.join(agentDir, 'echo_app'));
+    fs.writeFileSync(path.join(agentDir, 'echo_app', 'agent.ts'), '');
+    fs.mkdirSync(path.join(agentDir, 'not_an_agent'));
+
+    app = getFastApiApp({
+      agentDir,
+      web: false,
+      traceToCloud: false,
+      allowOrigins: ['http://localhost:4200'],
+      agentLoader: async () => new EchoAgent()
+    });
+    const address = await app.listen(0);
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await app.close();
+    fs.rmSync(agentDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should list the apps in the agent directory', async () => {
+    const response = await request('/list-apps');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(['echo_app']);
+  });
+
+  it('should create, get, list and delete sessions', async () => {
+    const created = await postJson('/apps/echo_app/users/u1/sessions/s1', { topic: 'cats' });
+    expect(created.status).toBe(200);
+    expect(await created.json()).toMatchObject({ id: 's1', state: { topic: 'cats' }, events: [] });
+
+    const duplicate = await postJson('/apps/echo_app/users/u1/sessions/s1', {});
+    expect(duplicate.status).toBe(400);
+
+    const generated = await request('/apps/echo_app/users/u1/sessions', { method: 'POST' });
+    const generatedId = ((await generated.json()) as { id: string }).id;
+
+    const listed = await (await request('/apps/echo_app/users/u1/sessions')).json() as Array<{ id: string }>;
+    expect(listed.map(s => s.id).sort()).toEqual([generatedId, 's1'].sort());
+
+    expect((await request('/apps/echo_app/users/u1/sessions/s1', { method: 'DELETE' })).status).toBe(200);
+    const missing = await request('/apps/echo_app/users/u1/sessions/s1');
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ detail: 'Session not found' });
+  });
+
+  it('should list and download artifacts', async () => {
+    await app.artifactService.saveArtifact('echo_app', 'u1', 's1', 'notes.txt', { text: 'v0' });
+    await app.artifactService.saveArtifact('echo_app', 'u1', 's1', 'notes.txt', { text: 'v1' });
+    const base = '/apps/echo_app/users/u1/sessions/s1/artifacts';
+
+    expect(await (await request(base)).json()).toEqual(['notes.txt']);
+    expect(await (await request(`${base}/notes.txt`)).json()).toEqual({ text: 'v1' });
+    expect(await (await request(`${base}/notes.txt?version=0`)).json()).toEqual({ text: 'v0' });
+    expect(await (await request(`${base}/notes.txt/versions`)).json()).toEqual([0, 1]);
+    expect(await (await request(`${base}/notes.txt/versions/0`)).json()).toEqual({ text: 'v0' });
+    expect((await request(`${base}/missing.txt`)).status).toBe(404);
+
+    await request(`${base}/notes.txt`, { method: 'DELETE' });
+    expect(await (await request(base)).json()).toEqual([]);
+  });
+
+  it('should run the agent and return all events', async () => {
+    await app.sessionService.createSession('echo_app', 'u1', {}, 's1');
+
+    const response = await postJson('/run', runBody('hi'));
+    const events = await response.json() as Array<{ author: string; content: { parts: Array<{ text: string }> } }>;
+
+    expect(response.status).toBe(200);
+    expect(events.map(e => e.author)).toEqual(['user', 'echo']);
+    expect(events[1].content.parts[0].text).toBe('echo: hi');
+    expect((await app.sessionService.getSession('echo_app', 'u1', 's1'))!.events).toHaveLength(2);
+  });
+
+  it('should stream events as server-sent events', async () => {
+    await app.sessionService.createSession('echo_app', 'u1', {}, 's1');
+
+    const response = await postJson('/run_sse', { ...runBody('hi'), streaming: true });
+    const body = await response.text();
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = body.split('\n\n').filter(chunk => chunk).map(chunk => JSON.parse(chunk.replace(/^data: /, '')));
+    expect(events.map(e => e.author)).toEqual(['user', 'echo']);
+  });
+
+  it('should reject runs for unknown sessions and invalid bodies', async () => {
+    expect((await postJson('/run', runBody('hi'))).status).toBe(404);
+    expect((await postJson('/run', { appName: 'echo_app' })).status).toBe(400);
+    expect((await request('/run', { method: 'POST', body: '{not json' })).status).toBe(400);
+  });
+
+  it('should reject bodies larger than the limit', async () => {
+    await app.close();
+    app = getFastApiApp({ agentDir, web: false, traceToCloud: false, maxBodyBytes: 1024, agentLoader: async () => new EchoAgent() });
+    baseUrl = `http://127.0.0.1:${(await app.listen(0)).port}`;
+    const chunked = new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < 4; i++) {
+          controller.enqueue(new TextEncoder().encode(' '.repeat(512)));
+        }
+        controller.close();
+      }
+    });
+
+    const declared = await postJson('/run', runBody('x'.repeat(2048)));
+    const streamed = await request('/apps/echo_app/users/u1/sessions', { method: 'POST', body: chunked, duplex: 'half' } as RequestInit);
+
+    expect(declared.status).toBe(413);
+    expect(await declared.json()).toEqual({ detail: 'Request body is larger than 1024 bytes' });
+    expect(streamed.status).toBe(413);
+    expect((await postJson('/apps/echo_app/users/u1/sessions', { topic: 'cats' })).status).toBe(200);
+  });
+
+  it('should answer unknown paths and methods', async () => {
+    expect((await request('/nope')).status).toBe(404);
+    expect((await request('/list-apps', { method: 'DELETE' })).status).toBe(405);
+    expect((await request('/apps/%E0/users/u1/sessions')).status).toBe(400);
+  });
+
+  it('should not load apps outside of the agent directory', async () => {
+    for (const appName of ['../secret', 'nested\\app']) {
+      const created = await postJson(`/apps/${encodeURIComponent(appName)}/users/u1/sessions`, {});
+      const sessionId = ((await created.json()) as { id: string }).id;
+      const response = await postJson('/run', { ...runBody('hi'), appName, sessionId });
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ detail: `App not found: ${appName}` });
+    }
+  });
+
+  it('should only allow configured origins', async () => {
+    const preflight = await request('/run', {
+      method: 'OPTIONS',
+      headers: { Origin: 'http://localhost:4200', 'Access-Control-Request-Method': 'POST' }
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('http://localhost:4200');
+
+    const allowed = await request('/health', { headers: { Origin: 'http://localhost:4200' } });
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('http://localhost:4200');
+
+    const denied = await request('/health', { headers: { Origin: 'http://evil.example' } });
+    expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should not allow credentials for any origin', async () => {
+    await app.close();
+    app = getFastApiApp({ agentDir, web: false, traceToCloud: false, allowOrigins: ['*'], agentLoader: async () => new EchoAgent() });
+    baseUrl = `http://127.0.0.1:${(await app.listen(0)).port}`;
+
+    const response = await request('/health', { headers: { Origin: 'http://evil.example' } });
+
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(response.headers.get('access-control-allow-credentials')).toBeNull();
+  });
+});
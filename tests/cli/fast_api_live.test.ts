@@ -0,0 +1,233 @@
+// Tests for the /run_live WebSocket endpoint of getFastApiApp
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { Event } from '../../src/google/adk/events/event';
+import { FastApiApp, getFastApiApp } from '../../src/google/adk/cli/fast_api';
+import { BaseLlmFlow } from '../../src/google/adk/flows/llm_flows/base_llm_flow';
+import { BaseLlm, Content, LlmRequest, LlmResponse as BaseLlmResponse } from '../../src/google/adk/models/base_llm';
+import { BaseLlmConnection } from '../../src/google/adk/models/base_llm_connection';
+import { LlmResponse } from '../../src/google/adk/models/llm_response';
+
+/**
+ * A live connection that answers every content message with a scripted list
+ * of responses and records everything it was sent.
+ */
+class ScriptedLlmConnection extends BaseLlmConnection {
+  sent: Content[] = [];
+  realtime: unknown[] = [];
+  closed = false;
+  private pending: LlmResponse[] = [];
+  private wake: (() => void) | null = null;
+
+  constructor(private readonly script: (content: Content) => LlmResponse[]) {
+    super();
+  }
+
+  async sendHistory(_contents: Content[]): Promise<void> {
+    // History is not used by these tests
+  }
+
+  async sendContent(content: Content): Promise<void> {
+    this.sent.push(content);
+    this.pending.push(...this.script(content));
+    this.notify();
+  }
+
+  async sendRealtime(data: unknown): Promise<void> {
+    this.realtime.push(data);
+  }
+
+  async *receive(): AsyncGenerator<LlmResponse, void, unknown> {
+    while (!this.closed) {
+      const response = this.pending.shift();
+      if (response) {
+        yield response;
+      } else {
+        await new Promise<void>(resolve => {
+          this.wake = resolve;
+        });
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.notify();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
+
+class ScriptedLlm extends BaseLlm {
+  connections: ScriptedLlmConnection[] = [];
+
+  constructor(private readonly script: (content: Content) => LlmResponse[]) {
+    super('scripted-live');
+  }
+
+  async generateContent(_request: LlmRequest): Promise<BaseLlmResponse> {
+    throw new Error('Not used in live mode');
+  }
+
+  generateContentAsync(_request: LlmRequest): AsyncGenerator<BaseLlmResponse, void, unknown> {
+    throw new Error('Not used in live mode');
+  }
+
+  async connect(_request: LlmRequest): Promise<BaseLlmConnection> {
+    const connection = new ScriptedLlmConnection(this.script);
+    this.connections.push(connection);
+    return connection;
+  }
+}
+
+class LiveFlow extends BaseLlmFlow {}
+
+class LiveAgent extends BaseAgent {
+  canonicalTools = [];
+
+  constructor(readonly canonicalModel: ScriptedLlm) {
+    super({ name: 'live_agent' });
+  }
+
+  protected runAsyncImpl(_ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    throw new Error('Only live mode is supported');
+  }
+
+  protected async *runLiveImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    yield* new LiveFlow().runLive(ctx);
+  }
+}
+
+describe('getFastApiApp /run_live', () => {
+  let agentDir: string;
+  let llm: ScriptedLlm;
+  let app: FastApiApp;
+  let baseUrl: string;
+
+  const textOf = (content: Content) => content.parts?.[0]?.text ?? '';
+
+  const connect = (query: string, origin?: string) => new Promise<{ ws: WebSocket; messages: Record<string, unknown>[]; closed: Promise<number> }>(
+    (resolve, reject) => {
+      const ws = new WebSocket(`${baseUrl}/run_live?${query}`, { origin });
+      const messages: Record<string, unknown>[] = [];
+      const closed = new Promise<number>(resolveClose => ws.on('close', code => resolveClose(code)));
+      ws.on('message', data => messages.push(JSON.parse(data.toString())));
+      ws.on('open', () => resolve({ ws, messages, closed }));
+      ws.on('error', reject);
+    }
+  );
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 200 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    agentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-agents-'));
+
+    llm = new ScriptedLlm(content => [
+      new LlmResponse({ content: { role: 'model', parts: [{ text: 'thinking' }] }, partial: true }),
+      new LlmResponse({ content: { role: 'model', parts: [{ text: `heard ${textOf(content)}` }] } }),
+      new LlmResponse({ turnComplete: true })
+    ]);
+    app = getFastApiApp({
+      agentDir,
+      web: false,
+      traceToCloud: false,
+      allowOrigins: ['http://localhost:4200'],
+      agentLoader: async () => new LiveAgent(llm)
+    });
+    const address = await app.listen(0);
+    baseUrl = `ws://127.0.0.1:${address.port}`;
+    await app.sessionService.createSession('live_app', 'u1', {}, 's1');
+  });
+
+  afterEach(async () => {
+    await app.close();
+    // Let live runs of closed sockets wind down before the console is restored
+    await new Promise(resolve => setTimeout(resolve, 50));
+    fs.rmSync(agentDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should forward live requests to the model and stream events back', async () => {
+    const { ws, messages } = await connect('appName=live_app&userId=u1&sessionId=s1');
+
+    ws.send(JSON.stringify({ content: { role: 'user', parts: [{ text: 'hello' }] } }));
+    await waitFor(() => messages.length === 3);
+
+    expect(messages.map(m => m.author)).toEqual(['live_agent', 'live_agent', 'live_agent']);
+    expect(messages[0]).toMatchObject({ partial: true, content: { parts: [{ text: 'thinking' }] } });
+    expect(messages[1]).toMatchObject({ partial: false, content: { parts: [{ text: 'heard hello' }] } });
+    expect(messages[2]).toMatchObject({ content: null, actions: { turnComplete: true } });
+
+    ws.send(JSON.stringify({ blob: { mimeType: 'audio/pcm', data: 'AAAA' } }));
+    ws.send(JSON.stringify({ content: { role: 'user', parts: [{ text: 'again' }] } }));
+    await waitFor(() => messages.length === 6);
+
+    expect(llm.connections[0].sent.map(textOf)).toEqual(['hello', 'again']);
+    expect(llm.connections[0].realtime).toEqual([{ mimeType: 'audio/pcm', data: 'AAAA' }]);
+    ws.close();
+  });
+
+  it('should close the request queue and the model connection when the client disconnects', async () => {
+    const { ws } = await connect('appName=live_app&userId=u1&sessionId=s1');
+    await waitFor(() => llm.connections.length === 1);
+
+    ws.close();
+
+    await waitFor(() => llm.connections[0].closed);
+  });
+
+  it('should end the run and close the socket on a close request', async () => {
+    const { ws, messages, closed } = await connect('appName=live_app&userId=u1&sessionId=s1');
+
+    ws.send(JSON.stringify({ content: { role: 'user', parts: [{ text: 'bye' }] } }));
+    await waitFor(() => messages.length === 3);
+    ws.send(JSON.stringify({ close: true }));
+
+    expect(await closed).toBe(1000);
+    expect(llm.connections[0].closed).toBe(true);
+    const session = await app.sessionService.getSession('live_app', 'u1', 's1');
+    expect(session!.events.map(e => e.getContent()?.parts?.[0]?.text)).toEqual(['heard bye', undefined]);
+  });
+
+  it('should reject unknown sessions', async () => {
+    const { closed } = await connect('appName=live_app&userId=u1&sessionId=missing');
+
+    expect(await closed).toBe(1002);
+    expect(llm.connections).toHaveLength(0);
+  });
+
+  it('should only accept upgrades from allowed origins', async () => {
+    const query = 'appName=live_app&userId=u1&sessionId=s1';
+
+    await expect(connect(query, 'http://evil.example')).rejects.toThrow('socket hang up');
+    expect(llm.connections).toHaveLength(0);
+
+    const { ws } = await connect(query, 'http://localhost:4200');
+    await waitFor(() => llm.connections.length === 1);
+    ws.close();
+  });
+
+  it('should close the socket on malformed requests', async () => {
+    const { ws, closed } = await connect('appName=live_app&userId=u1&sessionId=s1');
+
+    ws.send('{not json');
+
+    expect(await closed).toBe(1007);
+  });
+});
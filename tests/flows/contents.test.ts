@@ -0,0 +1,122 @@
+// Tests for building the LLM request contents from the session history
+
+import { Event } from '../../src/google/adk/events/event';
+import { getContents } from '../../src/google/adk/flows/llm_flows/contents';
+import { Content } from '../../src/google/adk/models/base_llm';
+
+const event = (author: string, content: Content, branch: string | null = null) =>
+  new Event({ invocationId: 'inv', author, branch, content });
+const userText = (text: string) => event('user', { role: 'user', parts: [{ text }] });
+
+describe('getContents', () => {
+  it('should hide the events of sibling branches', () => {
+    const events = [
+      userText('Compare the offers'),
+      event('researcher_a', { role: 'model', parts: [{ text: 'Offer A is cheaper' }] }, 'compare.researcher_a'),
+      event('researcher_b', { role: 'model', parts: [{ text: 'Offer B is faster' }] }, 'compare.researcher_b'),
+      event('compare', { role: 'model', parts: [{ text: 'Started' }] }, 'compare')
+    ];
+
+    const contents = getContents('compare.researcher_a', events, 'researcher_a');
+
+    expect(contents.map(content => content.parts![content.parts!.length - 1].text)).toEqual([
+      'Compare the offers',
+      'Offer A is cheaper',
+      '[compare] said: Started'
+    ]);
+  });
+
+  it('should show every event to agents outside of a branch', () => {
+    const events = [
+      userText('Hi'),
+      event('researcher_a', { role: 'model', parts: [{ text: 'A' }] }, 'compare.researcher_a'),
+      event('researcher_b', { role: 'model', parts: [{ text: 'B' }] }, 'compare.researcher_b')
+    ];
+
+    expect(getContents(null, events, 'summarizer')).toHaveLength(3);
+  });
+
+  it('should pass on the messages and tool use of other agents as context', () => {
+    const events = [
+      userText('Book a flight'),
+      event('planner', {
+        role: 'model',
+        parts: [
+          { text: 'Thinking about it', thought: true },
+          { text: 'Looking up flights' },
+          { functionCall: { id: 'c1', name: 'search', args: { to: 'Oslo' } } }
+        ]
+      }),
+      event('planner', { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'search', response: { flights: 2 } } }] })
+    ];
+
+    const contents = getContents(null, events, 'booker');
+
+    expect(contents[1]).toEqual({
+      role: 'user',
+      parts: [
+        { text: 'For context:' },
+        { text: '[planner] said: Looking up flights' },
+        { text: '[planner] called tool `search` with parameters: {"to":"Oslo"}' }
+      ]
+    });
+    expect(contents[2]).toEqual({
+      role: 'user',
+      parts: [
+        { text: 'For context:' },
+        { text: '[planner] `search` tool returned result: {"flights":2}' }
+      ]
+    });
+  });
+
+  it('should keep the agent\'s own messages unchanged', () => {
+    const reply: Content = { role: 'model', parts: [{ text: 'Hello' }] };
+
+    expect(getContents(null, [userText('Hi'), event('greeter', reply)], 'greeter')[1]).toEqual(reply);
+  });
+
+  it('should drop auth requests and partial events', () => {
+    const events = [
+      userText('Read my mail'),
+      event('mailer', { role: 'model', parts: [{ functionCall: { id: 'a1', name: 'request_euc', args: {} } }] }),
+      event('user', { role: 'user', parts: [{ functionResponse: { id: 'a1', name: 'request_euc', response: {} } }] }),
+      new Event({ invocationId: 'inv', author: 'mailer', partial: true, content: { role: 'model', parts: [{ text: 'You' }] } }),
+      event('mailer', { role: 'model', parts: [{ text: 'You have 3 messages' }] })
+    ];
+
+    expect(getContents(null, events, 'mailer').map(content => content.parts![0].text)).toEqual([
+      'Read my mail',
+      'You have 3 messages'
+    ]);
+  });
+
+  it('should move late responses to long-running calls behind their call', () => {
+    const events = [
+      userText('Approve my expense'),
+      event('clerk', { role: 'model', parts: [{ functionCall: { id: 'c1', name: 'ask_manager', args: {} } }] }),
+      event('clerk', { role: 'model', parts: [{ text: 'Waiting for your manager' }] }),
+      event('user', { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'ask_manager', response: { approved: true } } }] })
+    ];
+
+    const contents = getContents(null, events, 'clerk');
+
+    expect(contents[2].parts![0].functionResponse).toEqual({ id: 'c1', name: 'ask_manager', response: { approved: true } });
+    expect(contents[3].parts![0].text).toBe('Waiting for your manager');
+  });
+
+  it('should only keep the latest response to a long-running call', () => {
+    const events = [
+      userText('Approve my expense'),
+      event('clerk', { role: 'model', parts: [{ functionCall: { id: 'c1', name: 'ask_manager', args: {} } }] }),
+      event('clerk', { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'ask_manager', response: { status: 'pending' } } }] }),
+      event('clerk', { role: 'model', parts: [{ text: 'Waiting for your manager' }] }),
+      event('user', { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'ask_manager', response: { approved: true } } }] })
+    ];
+
+    const contents = getContents(null, events, 'clerk');
+
+    expect(contents).toHaveLength(4);
+    expect(contents[2].parts).toEqual([{ functionResponse: { id: 'c1', name: 'ask_manager', response: { approved: true } } }]);
+    expect(contents[3].parts![0].text).toBe('Waiting for your manager');
+  });
+});
@@ -0,0 +1,75 @@
+// Tests for filling placeholders in instruction templates
+
+import { InvocationContext, ReadonlyContext } from '../../src/google/adk/agents/invocation_context';
+import { LlmAgent } from '../../src/google/adk/agents/llm_agent';
+import { RunConfig } from '../../src/google/adk/agents/run_config';
+import { InMemoryArtifactService } from '../../src/google/adk/artifacts';
+import { injectSessionState, requestProcessor } from '../../src/google/adk/flows/llm_flows/instructions';
+import { LlmRequest } from '../../src/google/adk/models/llm_request';
+import { Session } from '../../src/google/adk/sessions/session';
+
+describe('injectSessionState', () => {
+  const artifactService = new InMemoryArtifactService();
+  const session = new Session({
+    id: 's1',
+    appName: 'app',
+    userId: 'u1',
+    state: { topic: 'cats', 'user:name': 'Ada', 'app:tone': 'friendly', limits: { words: 50 } }
+  });
+  const agent = new LlmAgent({ name: 'writer' });
+  const context = new ReadonlyContext(new InvocationContext({
+    agent,
+    session,
+    artifactService,
+    appName: 'app',
+    userId: 'u1',
+    runConfig: new RunConfig()
+  }));
+
+  beforeAll(async () => {
+    await artifactService.saveArtifact('app', 'u1', 's1', 'style.md', { text: 'Use short sentences.' });
+  });
+
+  it('should replace state placeholders with their values', async () => {
+    await expect(injectSessionState('Write about {topic} for {user:name} in a {app:tone} tone.', context))
+      .resolves.toBe('Write about cats for Ada in a friendly tone.');
+  });
+
+  it('should write objects as JSON', async () => {
+    await expect(injectSessionState('Limits: {limits}', context)).resolves.toBe('Limits: {"words":50}');
+  });
+
+  it('should replace artifact placeholders with the artifact text', async () => {
+    await expect(injectSessionState('Style: {artifact.style.md}', context)).resolves.toBe('Style: Use short sentences.');
+  });
+
+  it('should replace missing optional placeholders with an empty string', async () => {
+    await expect(injectSessionState('[{draft?}][{artifact.notes.md?}]', context)).resolves.toBe('[][]');
+  });
+
+  it('should leave double braces and invalid names unchanged', async () => {
+    await expect(injectSessionState('Return {{"topic": 1}} or { not a key }', context))
+      .resolves.toBe('Return {{"topic": 1}} or { not a key }');
+  });
+
+  it('should name the missing key in the error', async () => {
+    await expect(injectSessionState('Continue {draft}', context))
+      .rejects.toThrow('Context variable not found for instruction placeholder {draft}: draft.');
+    await expect(injectSessionState('{artifact.notes.md}', context))
+      .rejects.toThrow('Artifact not found for instruction placeholder {artifact.notes.md}: notes.md');
+  });
+
+  it('should only fill string instructions of agents', async () => {
+    const templated = new LlmAgent({ name: 'templated', instruction: 'About {topic}.' });
+    const provided = new LlmAgent({ name: 'provided', instruction: () => 'Literal {topic}.' });
+    const requestFor = async (target: LlmAgent) => {
+      const llmRequest = new LlmRequest();
+      const ctx = new InvocationContext({ agent: target, session, runConfig: new RunConfig() });
+      await requestProcessor.runAsync(ctx, llmRequest).next();
+      return llmRequest;
+    };
+
+    expect((await requestFor(templated)).systemInstruction).toBe('About cats.');
+    expect((await requestFor(provided)).systemInstruction).toBe('Literal {topic}.');
+  });
+});
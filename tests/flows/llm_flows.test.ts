@@ -0,0 +1,367 @@
+// Tests for running LlmAgent through SingleFlow and AutoFlow
+
+import { LiveRequestQueue } from '../../src/google/adk/agents/live_request_queue';
+import { LlmAgent } from '../../src/google/adk/agents/llm_agent';
+import { AutoFlow } from '../../src/google/adk/flows/llm_flows/auto_flow';
+import { SingleFlow } from '../../src/google/adk/flows/llm_flows/single_flow';
+import { AdkFunctionDeclaration, AdkType } from '../../src/google/adk/models/base_llm';
+import { LlmResponse } from '../../src/google/adk/models/llm_response';
+import { Runner } from '../../src/google/adk/runners';
+import { MockLlm, MockLlmTurn } from '../../src/google/adk/tests';
+import { BaseTool } from '../../src/google/adk/tools/base_tool';
+import { ToolContext } from '../../src/google/adk/tools/tool_context';
+import { newRunner, run, send } from '../testing_utils';
+
+/**
+ * A tool that adds two numbers and remembers the sum in the state.
+ */
+class AddTool extends BaseTool {
+  constructor() {
+    super('add', 'Adds two numbers.');
+  }
+
+  protected override getDeclaration(): AdkFunctionDeclaration {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: AdkType.OBJECT,
+        properties: { a: { type: AdkType.NUMBER }, b: { type: AdkType.NUMBER } },
+        required: ['a', 'b']
+      }
+    };
+  }
+
+  override async runAsync(args: Record<string, unknown>, toolContext: ToolContext): Promise<unknown> {
+    const sum = Number(args.a) + Number(args.b);
+    toolContext.state!.set('last_sum', sum);
+    return { sum };
+  }
+}
+
+const call = (name: string, args: Record<string, unknown>): MockLlmTurn => ({
+  content: { role: 'model', parts: [{ functionCall: { name, args } }] }
+});
+
+describe('LlmAgent flows', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    MockLlm.reset();
+  });
+
+  it('should send the instructions and the conversation to the model', async () => {
+    const model = new MockLlm({ turns: ['Hi there'] });
+    const agent = new LlmAgent({
+      name: 'greeter',
+      model,
+      instruction: 'Greet the user.',
+      globalInstruction: 'Be polite.'
+    });
+
+    const result = await run(agent, 'Hello');
+
+    expect(result.finalResponseText).toBe('Hi there');
+    expect(model.requests[0].systemInstruction).toBe('Be polite.\n\nGreet the user.');
+    expect(model.requests[0].contents).toEqual([{ role: 'user', parts: [{ text: 'Hello' }] }]);
+  });
+
+  it('should run tools and send their responses back to the model', async () => {
+    const model = new MockLlm({ turns: [call('add', { a: 2, b: 3 }), 'The sum is 5'] });
+    const agent = new LlmAgent({ name: 'calculator', model, tools: [new AddTool()] });
+
+    const result = await run(agent, 'What is 2 + 3?');
+
+    expect(result.finalResponseText).toBe('The sum is 5');
+    expect(result.stateDelta).toEqual({ last_sum: 5 });
+
+    const functionResponse = result.events[2].getFunctionResponses()[0].functionResponse!;
+    expect(result.events[2].getAuthor()).toBe('calculator');
+    expect(functionResponse.name).toBe('add');
+    expect(functionResponse.response).toEqual({ sum: 5 });
+    expect(functionResponse.id).toBe(result.events[1].getFunctionCalls()[0].functionCall!.id);
+
+    expect(model.requests[0].tools![0].functionDeclarations!.map(d => d.name)).toEqual(['add']);
+    expect(model.requests[1].contents!.map(content => content.role)).toEqual(['user', 'model', 'user']);
+  });
+
+  it('should fail when the model calls an unknown tool', async () => {
+    const model = new MockLlm({ turns: [call('missing', {}), 'unused'] });
+    const agent = new LlmAgent({ name: 'calculator', model });
+
+    await expect(run(agent, 'Hi')).rejects.toThrow('missing');
+  });
+
+  it('should let before model callbacks skip the model call', async () => {
+    const model = new MockLlm({ turns: [] });
+    const agent = new LlmAgent({
+      name: 'cached',
+      model,
+      beforeModelCallback: async () => new LlmResponse({ content: { role: 'model', parts: [{ text: 'From cache' }] } })
+    });
+
+    const result = await run(agent, 'Hi');
+
+    expect(result.finalResponseText).toBe('From cache');
+    expect(model.requests).toHaveLength(0);
+  });
+
+  it('should transfer to a sub-agent chosen by the model', async () => {
+    const model = new MockLlm({ turns: [call('transfer_to_agent', { agent_name: 'billing' }), 'Your invoice is paid'] });
+    const billing = new LlmAgent({ name: 'billing', description: 'Answers billing questions.', model });
+    const root = new LlmAgent({ name: 'root', model, subAgents: [billing] });
+
+    const result = await run(root, 'Is my invoice paid?');
+
+    expect(result.events.map(event => event.getAuthor())).toEqual(['user', 'root', 'root', 'billing']);
+    expect(result.events[2].getActions().transferToAgent).toBe('billing');
+    expect(result.finalResponseText).toBe('Your invoice is paid');
+    expect(model.requests[0].systemInstruction).toContain('Agent name: billing');
+    expect(model.requests[0].systemInstruction).toContain('Agent description: Answers billing questions.');
+  });
+
+  it('should use a SingleFlow only when the agent cannot transfer', () => {
+    const isolated = new LlmAgent({ name: 'isolated', disallowTransferToParent: true, disallowTransferToPeers: true });
+    const open = new LlmAgent({ name: 'open' });
+
+    expect(isolated['llmFlow']).toBeInstanceOf(SingleFlow);
+    expect(isolated['llmFlow']).not.toBeInstanceOf(AutoFlow);
+    expect(open['llmFlow']).toBeInstanceOf(AutoFlow);
+  });
+
+  describe('agent transfer', () => {
+    const createTree = (model: MockLlm, options: { disallowTransferToParent?: boolean; disallowTransferToPeers?: boolean } = {}) => {
+      const billing = new LlmAgent({ name: 'billing', description: 'Answers billing questions.', model, ...options });
+      const shipping = new LlmAgent({ name: 'shipping', description: 'Tracks parcels.', model });
+      const root = new LlmAgent({ name: 'root', description: 'Routes questions.', model, subAgents: [billing, shipping] });
+      return { root, billing, shipping };
+    };
+
+    it('should advertise the parent and peers of a sub-agent', async () => {
+      const model = new MockLlm({ turns: ['Done'] });
+      const { billing } = createTree(model);
+
+      await run(billing, 'Hi');
+
+      const instructions = model.requests[0].systemInstruction!;
+      expect(instructions).toContain('Agent name: root');
+      expect(instructions).toContain('Agent name: shipping');
+      expect(instructions).toContain('Your parent agent is root.');
+      expect(instructions).not.toContain('Agent name: billing');
+    });
+
+    it('should leave out the targets an agent is not allowed to transfer to', async () => {
+      const model = new MockLlm({ turns: ['Done'] });
+      const { billing } = createTree(model, { disallowTransferToParent: true, disallowTransferToPeers: true });
+
+      await run(billing, 'Hi');
+
+      expect(model.requests[0].systemInstruction || '').not.toContain('Agent name:');
+      expect(model.requests[0].tools || []).toEqual([]);
+    });
+
+    it('should transfer from a sub-agent to a peer', async () => {
+      const model = new MockLlm({ turns: [
+        call('transfer_to_agent', { agent_name: 'billing' }),
+        call('transfer_to_agent', { agent_name: 'shipping' }),
+        'Your parcel arrives tomorrow'
+      ] });
+      const { root } = createTree(model);
+
+      const result = await run(root, 'Where is my parcel?');
+
+      expect(result.events.map(event => event.getAuthor())).toEqual(['user', 'root', 'root', 'billing', 'billing', 'shipping']);
+      expect(result.finalResponseText).toBe('Your parcel arrives tomorrow');
+    });
+
+    it('should refuse transfers to agents that are not allowed', async () => {
+      const model = new MockLlm({ turns: [call('transfer_to_agent', { agent_name: 'shipping' }), 'I will answer myself'] });
+      const { billing } = createTree(model, { disallowTransferToPeers: true });
+
+      const result = await run(billing, 'Where is my parcel?');
+
+      expect(result.events[2].getActions().transferToAgent).toBeUndefined();
+      expect(result.events[2].getFunctionResponses()[0].functionResponse!.response).toEqual({
+        error: 'Agent billing cannot transfer to shipping. Allowed agents: root'
+      });
+      expect(result.finalResponseText).toBe('I will answer myself');
+    });
+
+    it('should continue with the transferred-to agent on the next turn', async () => {
+      const model = new MockLlm({ turns: [
+        call('transfer_to_agent', { agent_name: 'billing' }),
+        'Which invoice?',
+        'Invoice 42 is paid'
+      ] });
+      const runner = newRunner(createTree(model).root);
+
+      await send(runner, 'Is my invoice paid?');
+      const result = await send(runner, 'Invoice 42');
+
+      expect(result.events.map(event => event.getAuthor())).toEqual(['user', 'billing']);
+      expect(result.finalResponseText).toBe('Invoice 42 is paid');
+    });
+
+    it('should return to the root agent when the last agent cannot transfer back', async () => {
+      const model = new MockLlm({ turns: [
+        call('transfer_to_agent', { agent_name: 'billing' }),
+        'Paid',
+        'Hello again'
+      ] });
+      const runner = newRunner(createTree(model, { disallowTransferToParent: true }).root);
+
+      await send(runner, 'Is my invoice paid?');
+      const result = await send(runner, 'Thanks');
+
+      expect(result.events.map(event => event.getAuthor())).toEqual(['user', 'root']);
+    });
+
+    it('should leave the live request queue to the transferred-to agent', async () => {
+      jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+      const rootModel = new MockLlm({ turns: [call('transfer_to_agent', { agent_name: 'billing' })] });
+      const billingModel = new MockLlm({ turns: ['Which invoice?', 'Invoice 42 is paid'] });
+      const billing = new LlmAgent({ name: 'billing', description: 'Answers billing questions.', model: billingModel });
+      const root = new LlmAgent({ name: 'root', model: rootModel, subAgents: [billing] });
+      const queue = new LiveRequestQueue();
+
+      queue.sendContent({ role: 'user', parts: [{ text: 'Is my invoice paid?' }] });
+      const texts: string[] = [];
+      for await (const event of newRunner(root).runLive({ userId: 'u1', sessionId: 's1', liveRequestQueue: queue })) {
+        const text = event.getContent()?.parts?.[0]?.text;
+        if (event.getActions().transferToAgent) {
+          queue.sendContent({ role: 'user', parts: [{ text: 'Hello?' }] });
+        } else if (text === 'Which invoice?') {
+          queue.sendContent({ role: 'user', parts: [{ text: 'Invoice 42' }] });
+        } else if (text === 'Invoice 42 is paid') {
+          queue.close();
+        }
+        if (text) {
+          texts.push(text);
+        }
+      }
+
+      expect(texts).toEqual(['Which invoice?', 'Invoice 42 is paid']);
+      expect(rootModel.connections[0].closed).toBe(true);
+      expect(rootModel.connections[0].sentContents).toHaveLength(1);
+      expect(billingModel.connections[0].sentContents.map(content => content.parts![0].text)).toEqual(['Hello?', 'Invoice 42']);
+      expect(billingModel.connections[0].closed).toBe(true);
+    });
+  });
+
+  describe('tool confirmation', () => {
+    const startRun = async (agent: LlmAgent) => {
+      const runner = newRunner(agent);
+      const result = await send(runner, 'What is 2 + 3?');
+      const [pendingCall] = await runner.getPendingLongRunningCalls('u1', 's1');
+      return { runner, result, pendingCall };
+    };
+
+    const decide = async (runner: Runner, functionCallId: string, confirmed: boolean, args?: Record<string, unknown>) => {
+      const events = [];
+      for await (const event of runner.confirmToolCall({ userId: 'u1', sessionId: 's1', functionCallId, confirmed, args })) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    it('should pause before a tool that requires confirmation', async () => {
+      const model = new MockLlm({ turns: [call('add', { a: 2, b: 3 })] });
+      const tool = new AddTool();
+      tool.requireConfirmation = true;
+      const agent = new LlmAgent({ name: 'calculator', model, tools: [tool] });
+
+      const { result, pendingCall } = await startRun(agent);
+
+      expect(model.requests).toHaveLength(1);
+      expect(result.events).toHaveLength(3);
+      expect(result.stateDelta.last_sum).toBeUndefined();
+      expect(pendingCall.name).toBe('adk_request_confirmation');
+      expect(pendingCall.args).toEqual({
+        originalFunctionCall: { id: expect.any(String), name: 'add', args: { a: 2, b: 3 } },
+        toolConfirmation: { hint: undefined }
+      });
+    });
+
+    it('should run an approved tool call with the edited arguments', async () => {
+      const model = new MockLlm({ turns: [call('add', { a: 2, b: 3 }), 'The sum is 6'] });
+      const tool = new AddTool();
+      tool.requireConfirmation = args => Number(args.a) > 0;
+      const agent = new LlmAgent({ name: 'calculator', model, tools: [tool] });
+      const { runner, pendingCall } = await startRun(agent);
+
+      const events = await decide(runner, pendingCall.id, true, { a: 2, b: 4 });
+
+      expect(events.map(event => event.getAuthor())).toEqual(['user', 'calculator', 'calculator']);
+      expect(events[1].getFunctionResponses()[0].functionResponse!.response).toEqual({ sum: 6 });
+      expect(events[2].getContent()?.parts?.[0].text).toBe('The sum is 6');
+      expect(await runner.getPendingLongRunningCalls('u1', 's1')).toEqual([]);
+
+      // The model sees the original call and its response, not the confirmation
+      expect(model.requests[1].contents!.map(content => content.parts![0])).toEqual([
+        { text: 'What is 2 + 3?' },
+        { functionCall: { id: expect.any(String), name: 'add', args: { a: 2, b: 3 } } },
+        { functionResponse: { id: expect.any(String), name: 'add', response: { sum: 6 } } }
+      ]);
+    });
+
+    it('should not run an approved tool call again when the approval is repeated', async () => {
+      const model = new MockLlm({ turns: [call('add', { a: 2, b: 3 }), 'The sum is 5', 'Already done'] });
+      const tool = new AddTool();
+      tool.requireConfirmation = true;
+      const runAsync = jest.spyOn(tool, 'runAsync');
+      const agent = new LlmAgent({ name: 'calculator', model, tools: [tool] });
+      const { runner, pendingCall } = await startRun(agent);
+      await decide(runner, pendingCall.id, true);
+
+      const result = await runner.runToCompletion({
+        userId: 'u1',
+        sessionId: 's1',
+        newMessage: {
+          role: 'user',
+          parts: [{ functionResponse: { id: pendingCall.id, name: 'adk_request_confirmation', response: { confirmed: true } } }]
+        }
+      });
+
+      expect(runAsync).toHaveBeenCalledTimes(1);
+      expect(result.events.map(event => event.getAuthor())).toEqual(['user', 'calculator']);
+      expect(result.finalResponseText).toBe('Already done');
+    });
+
+    it('should tell the model that a rejected tool call did not run', async () => {
+      const model = new MockLlm({ turns: [call('add', { a: 2, b: 3 }), 'Okay, I will not add them'] });
+      const tool = new AddTool();
+      tool.requireConfirmation = true;
+      const agent = new LlmAgent({ name: 'calculator', model, tools: [tool] });
+      const { runner, pendingCall } = await startRun(agent);
+
+      const events = await decide(runner, pendingCall.id, false);
+
+      expect(events[0].getFunctionResponses()[0].functionResponse!.response).toEqual({ confirmed: false });
+      expect(events[1].getFunctionResponses()[0].functionResponse!.response).toEqual({
+        error: 'The user rejected this tool call.'
+      });
+      expect(events[1].getActions().stateDelta).toEqual({});
+    });
+
+    it('should let before tool callbacks ask for a confirmation', async () => {
+      const model = new MockLlm({ turns: [call('add', { a: 2, b: 3 }), 'The sum is 5'] });
+      const agent = new LlmAgent({
+        name: 'calculator',
+        model,
+        tools: [new AddTool()],
+        beforeToolCallback: (_tool, _args, toolContext) => {
+          if (!toolContext.toolConfirmation) {
+            toolContext.requestConfirmation({ hint: 'Adding costs one credit.' });
+          }
+          return null;
+        }
+      });
+      const { runner, pendingCall } = await startRun(agent);
+
+      expect((pendingCall.args.toolConfirmation as { hint: string }).hint).toBe('Adding costs one credit.');
+
+      const events = await decide(runner, pendingCall.id, true);
+
+      expect(events[1].getFunctionResponses()[0].functionResponse!.response).toEqual({ sum: 5 });
+    });
+  });
+});
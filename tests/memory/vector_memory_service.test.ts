@@ -0,0 +1,138 @@
+// Tests for the VectorMemoryService implementation
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VectorMemoryService } from '../../src/google/adk/memory/vector_memory_service';
+import { Embedder, HashingEmbedder, cosineSimilarity } from '../../src/google/adk/memory/embedder';
+import { Session } from '../../src/google/adk/sessions/session';
+import { Event } from '../../src/google/adk/events/event';
+
+const textEvent = (author: string, text: string) =>
+  new Event({ author, content: { role: author === 'user' ? 'user' : 'model', parts: [{ text }] } });
+
+const makeSession = (id: string, texts: Array<[string, string]>, userId = 'user1') =>
+  new Session({
+    id,
+    appName: 'app',
+    userId,
+    events: texts.map(([author, text]) => textEvent(author, text))
+  });
+
+const eventTexts = (events: Event[]) => events.map(e => e.getContent()?.parts?.[0]?.text);
+
+describe('HashingEmbedder', () => {
+  it('should produce deterministic normalized vectors', async () => {
+    const embedder = new HashingEmbedder({ dimensions: 64 });
+    const [a] = await embedder.embed(['Deploy the service']);
+    const [b] = await new HashingEmbedder({ dimensions: 64 }).embed(['Deploy the service']);
+
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+  });
+
+  it('should place related wording closer than unrelated text', async () => {
+    const [query, related, unrelated] = await new HashingEmbedder().embed([
+      'when is the deployment',
+      'we deployed the release on friday',
+      'my favourite colour is green'
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('VectorMemoryService', () => {
+  it('should return ranked results with scores for the user only', async () => {
+    const service = new VectorMemoryService();
+    await service.addSessionToMemory(makeSession('travel', [
+      ['user', 'I am flying to Lisbon next month'],
+      ['agent', 'Booked your flights to Lisbon']
+    ]));
+    await service.addSessionToMemory(makeSession('cooking', [['user', 'How long should I bake bread?']]));
+    await service.addSessionToMemory(makeSession('other', [['user', 'Flights to Lisbon please']], 'user2'));
+
+    const response = await service.searchMemory('app', 'user1', 'flight to lisbon');
+
+    expect(response.memories[0].sessionId).toBe('travel');
+    expect(response.memories.map(m => m.sessionId)).not.toContain('other');
+    const scores = response.memories.map(m => m.score!);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(eventTexts(response.memories[0].events)).toEqual([
+      'I am flying to Lisbon next month',
+      'Booked your flights to Lisbon'
+    ]);
+  });
+
+  it('should chunk long sessions into passages of consecutive events', async () => {
+    const service = new VectorMemoryService({ maxPassageChars: 70, minScore: 0 });
+    await service.addSessionToMemory(makeSession('s1', [
+      ['user', 'My dog is called Biscuit'],
+      ['agent', 'Biscuit is a lovely name'],
+      ['user', 'I also own a bicycle'],
+      ['agent', 'Noted your bicycle']
+    ]));
+
+    const response = await service.searchMemory('app', 'user1', 'bicycle');
+
+    expect(response.memories).toHaveLength(2);
+    expect(eventTexts(response.memories[0].events)).toEqual(['I also own a bicycle', 'Noted your bicycle']);
+  });
+
+  it('should replace the passages of a session added again', async () => {
+    const service = new VectorMemoryService();
+    const session = makeSession('s1', [['user', 'my locker code is 4411']]);
+    await service.addSessionToMemory(session);
+    session.events.push(textEvent('agent', 'I will remember the locker code'));
+    await service.addSessionToMemory(session);
+
+    const response = await service.searchMemory('app', 'user1', 'locker code');
+
+    expect(response.memories).toHaveLength(1);
+    expect(response.memories[0].events).toHaveLength(2);
+  });
+
+  it('should honor topK and return nothing for empty queries', async () => {
+    const service = new VectorMemoryService({ topK: 1, minScore: 0 });
+    await service.addSessionToMemory(makeSession('a', [['user', 'tea with milk']]));
+    await service.addSessionToMemory(makeSession('b', [['user', 'tea with lemon']]));
+
+    expect((await service.searchMemory('app', 'user1', 'tea')).memories).toHaveLength(1);
+    expect((await service.searchMemory('app', 'user1', '   ')).memories).toHaveLength(0);
+  });
+
+  it('should use the configured embedder for passages and queries', async () => {
+    const embedder: Embedder = {
+      embed: jest.fn(async (texts: string[]) => texts.map(text => (text.includes('alpha') ? [1, 0] : [0, 1])))
+    };
+    const service = new VectorMemoryService({ embedder });
+    await service.addSessionToMemory(makeSession('s1', [['user', 'alpha']]));
+    await service.addSessionToMemory(makeSession('s2', [['user', 'beta']]));
+
+    const response = await service.searchMemory('app', 'user1', 'alpha?');
+
+    expect(response.memories.map(m => [m.sessionId, m.score])).toEqual([['s1', 1]]);
+    expect(embedder.embed).toHaveBeenCalledWith(['alpha?']);
+  });
+
+  it('should persist its index to a file', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-memory-'));
+    const indexPath = path.join(tmpDir, 'nested', 'memory.json');
+    try {
+      const service = new VectorMemoryService({ indexPath });
+      await service.addSessionToMemory(makeSession('s1', [['user', 'the wifi password is hunter2']]));
+      expect(fs.existsSync(indexPath)).toBe(true);
+
+      const restored = new VectorMemoryService({ indexPath });
+      const response = await restored.searchMemory('app', 'user1', 'wifi password');
+
+      expect(response.memories).toHaveLength(1);
+      expect(response.memories[0].sessionId).toBe('s1');
+      expect(response.memories[0].events[0]).toBeInstanceOf(Event);
+      expect(eventTexts(response.memories[0].events)).toEqual(['the wifi password is hunter2']);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  AnthropicLlm,
+  AnthropicApiError,
+  AnthropicHttpRequest,
+  AnthropicHttpResponse
+} from '../../src/google/adk/models/anthropic_llm';
+import { LlmRegistry } from '../../src/google/adk/models/registry';
+import { LlmRequest, AdkType } from '../../src/google/adk/models/base_llm';
+
+/**
+ * Creates a mocked HTTP response. A string body is returned as is, an array
+ * of strings is streamed chunk by chunk.
+ */
+function mockResponse(
+  status: number,
+  body: string | string[],
+  headers: Record<string, string> = {}
+): AnthropicHttpResponse {
+  const chunks = Array.isArray(body) ? body : [body];
+  return {
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => chunks.join(''),
+    body: (async function* () {
+      for (const chunk of chunks) {
+        yield new TextEncoder().encode(chunk);
+      }
+    })()
+  };
+}
+
+function sse(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+describe('AnthropicLlm', () => {
+  let requests: Array<{ url: string; request: AnthropicHttpRequest }>;
+  let nextResponse: AnthropicHttpResponse;
+  let llm: AnthropicLlm;
+
+  beforeEach(() => {
+    requests = [];
+    llm = new AnthropicLlm({
+      model: 'claude-3-5-sonnet-latest',
+      apiKey: 'test-api-key',
+      transport: async (url, request) => {
+        requests.push({ url, request });
+        return nextResponse;
+      }
+    });
+  });
+
+  it('should map contents, system instruction and tools to a Messages API request', async () => {
+    nextResponse = mockResponse(200, JSON.stringify({
+      content: [{ type: 'text', text: 'It is 18 degrees in Paris.' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 50, output_tokens: 9 }
+    }));
+
+    const request: LlmRequest = {
+      systemInstruction: 'You are a weather assistant.',
+      contents: [
+        { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+        { role: 'model', parts: [{ functionCall: { id: 'toolu_1', name: 'get_weather', args: { city: 'Paris' } } }] },
+        { role: 'user', parts: [{ functionResponse: { id: 'toolu_1', name: 'get_weather', response: { temperature: 18 } } }] }
+      ],
+      tools: [{
+        functionDeclarations: [{
+          name: 'get_weather',
+          description: 'Gets the weather of a city',
+          parameters: { type: AdkType.OBJECT, properties: { city: { type: AdkType.STRING } }, required: ['city'] }
+        }]
+      }],
+      generationConfig: { temperature: 0.2, maxOutputTokens: 512 }
+    };
+
+    const response = await llm.generateContent(request);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('https://api.anthropic.com/v1/messages');
+    expect(requests[0].request.headers['x-api-key']).toBe('test-api-key');
+    expect(requests[0].request.headers['anthropic-version']).toBeDefined();
+    expect(JSON.parse(requests[0].request.body)).toEqual({
+      model: 'claude-3-5-sonnet-latest',
+      system: 'You are a weather assistant.',
+      max_tokens: 512,
+      temperature: 0.2,
+      stream: false,
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"temperature":18}' }] }
+      ],
+      tools: [{
+        name: 'get_weather',
+        description: 'Gets the weather of a city',
+        input_schema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+      }]
+    });
+
+    expect(response.content).toEqual({ role: 'model', parts: [{ text: 'It is 18 degrees in Paris.' }] });
+    expect(response.finishReason).toBe('END_TURN');
+    expect(response.usageMetadata).toEqual({ promptTokenCount: 50, candidatesTokenCount: 9, totalTokenCount: 59 });
+  });
+
+  it('should stream text as partial responses and end with the complete tool calls', async () => {
+    const stream = [
+      sse('message_start', { message: { content: [], usage: { input_tokens: 20, output_tokens: 1 } } }),
+      sse('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+      sse('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'Checking ' } }),
+      sse('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'both.' } }),
+      sse('content_block_stop', { index: 0 }),
+      sse('content_block_start', { index: 1, content_block: { type: 'tool_use', id: 'toolu_paris', name: 'get_weather', input: {} } }),
+      sse('content_block_delta', { index: 1, delta: { type: 'input_json_delta', partial_json: '{"city": "Pa' } }),
+      sse('content_block_delta', { index: 1, delta: { type: 'input_json_delta', partial_json: 'ris"}' } }),
+      sse('content_block_stop', { index: 1 }),
+      sse('content_block_start', { index: 2, content_block: { type: 'tool_use', id: 'toolu_rome', name: 'get_weather', input: {} } }),
+      sse('content_block_delta', { index: 2, delta: { type: 'input_json_delta', partial_json: '{"city": "Rome"}' } }),
+      sse('content_block_stop', { index: 2 }),
+      sse('message_delta', { delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 40 } }),
+      sse('message_stop', {})
+    ].join('');
+    // Split the stream at arbitrary points, as the network would
+    nextResponse = mockResponse(200, [stream.substring(0, 100), stream.substring(100, 457), stream.substring(457)]);
+
+    const responses = [];
+    for await (const response of llm.generateContentAsync({ contents: [{ role: 'user', parts: [{ text: 'Paris and Rome?' }] }] }, true)) {
+      responses.push(response);
+    }
+
+    expect(JSON.parse(requests[0].request.body).stream).toBe(true);
+    expect(responses.filter(response => response.partial).map(response => response.text)).toEqual(['Checking ', 'both.']);
+
+    const final = responses[responses.length - 1];
+    expect(final.partial).toBe(false);
+    expect(final.turnComplete).toBe(true);
+    expect(final.finishReason).toBe('TOOL_USE');
+    expect(final.content).toEqual({
+      role: 'model',
+      parts: [
+        { text: 'Checking both.' },
+        { functionCall: { id: 'toolu_paris', name: 'get_weather', args: { city: 'Paris' } } },
+        { functionCall: { id: 'toolu_rome', name: 'get_weather', args: { city: 'Rome' } } }
+      ]
+    });
+    expect(final.usageMetadata).toEqual({ promptTokenCount: 20, candidatesTokenCount: 40, totalTokenCount: 60 });
+  });
+
+  it('should throw an AnthropicApiError with the retry delay of a failed request', async () => {
+    nextResponse = mockResponse(
+      429,
+      JSON.stringify({ type: 'error', error: { type: 'rate_limit_error', message: 'Too many requests' } }),
+      { 'retry-after': '12' }
+    );
+
+    const error = await llm.generateContent({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AnthropicApiError);
+    expect(error).toMatchObject({ status: 429, errorType: 'rate_limit_error', retryAfter: 12 });
+    expect((error as Error).message).toContain('Too many requests');
+  });
+
+  it('should be registered for claude models', () => {
+    const original = process.env.ANTHROPIC_API_KEY;
+    process.env.ANTHROPIC_API_KEY = 'test-api-key';
+    try {
+      expect(LlmRegistry.resolve('claude-3-5-sonnet-latest')).toBeInstanceOf(AnthropicLlm);
+    } finally {
+      if (original === undefined) {
+        delete process.env.ANTHROPIC_API_KEY;
+      } else {
+        process.env.ANTHROPIC_API_KEY = original;
+      }
+    }
+  });
+});
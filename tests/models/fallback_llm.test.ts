@@ -0,0 +1,144 @@
+import OpenAIApi from 'openai';
+import { LlmAgent } from '../../src/google/adk/agents/llm_agent';
+import { AnthropicApiError } from '../../src/google/adk/models/anthropic_llm';
+import { LlmResponse } from '../../src/google/adk/models/base_llm';
+import { FallbackLlm, classifyLlmError } from '../../src/google/adk/models/fallback_llm';
+import { MockLlm } from '../../src/google/adk/tests';
+import { run } from '../testing_utils';
+
+const rateLimited = (retryAfter?: number) => new AnthropicApiError('Anthropic API returned status 429: Too many requests', {
+  status: 429,
+  errorType: 'rate_limit_error',
+  retryAfter
+});
+
+const openAiError = (status: number, message: string) => new OpenAIApi.APIError(status, { message }, message, {});
+
+describe('FallbackLlm', () => {
+  let delays: () => number[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    delays = () => setTimeoutSpy.mock.calls.map(([, ms]) => ms ?? 0);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    MockLlm.reset();
+  });
+
+  // Runs the fake timers of the backoff until the model finished
+  const collect = async (llm: FallbackLlm) => {
+    const responses: LlmResponse[] = [];
+    let finished = false;
+    const generation = (async () => {
+      try {
+        for await (const response of llm.generateContentAsync({ contents: [] })) {
+          responses.push(response);
+        }
+      } finally {
+        finished = true;
+      }
+    })();
+    generation.catch(() => undefined);
+
+    while (!finished) {
+      await jest.advanceTimersByTimeAsync(1000);
+    }
+    await generation;
+    return responses;
+  };
+
+  it('should retry with exponential backoff and honor retry-after', async () => {
+    const primary = new MockLlm({
+      model: 'mock-primary',
+      turns: [openAiError(503, 'Service unavailable'), rateLimited(5), 'Hello']
+    });
+    const llm = new FallbackLlm({ models: [primary, 'mock-secondary'], baseDelayMs: 100 });
+
+    const responses = await collect(llm);
+
+    expect(delays()).toEqual([100, 5000]);
+    expect(responses.map(response => response.text)).toEqual(['Hello']);
+    expect(llm.model).toBe('mock-primary');
+  });
+
+  it('should fall back to the next model and report the switch', async () => {
+    const primary = new MockLlm({
+      model: 'mock-primary',
+      turns: [openAiError(500, 'Internal error'), openAiError(502, 'Bad gateway'), openAiError(503, 'Service unavailable')]
+    });
+    const secondary = new MockLlm({ model: 'mock-secondary', turns: ['From the secondary model'] });
+    const llm = new FallbackLlm({ models: [primary, secondary], baseDelayMs: 10 });
+
+    const responses = await collect(llm);
+
+    expect(delays()).toEqual([10, 20]);
+    expect(responses).toEqual([
+      { modelSwitch: { fromModel: 'mock-primary', toModel: 'mock-secondary', reason: expect.stringContaining('Service unavailable') } },
+      expect.objectContaining({ text: 'From the secondary model' })
+    ]);
+    expect(secondary.requests[0].model).toBe('mock-secondary');
+  });
+
+  it('should skip models that cannot recover by retrying', async () => {
+    const badRequest = new MockLlm({ model: 'mock-primary', turns: [openAiError(400, 'Invalid request')] });
+    const waitLong = new MockLlm({ model: 'mock-secondary', turns: [rateLimited(120)] });
+    const limited = new MockLlm({ model: 'mock-tertiary', turns: [rateLimited()] });
+    const llm = new FallbackLlm({ models: [badRequest, waitLong, limited], maxRetries: 0 });
+
+    await expect(collect(llm)).rejects.toThrow('Too many requests');
+    expect(delays()).toEqual([]);
+    expect(waitLong.requests).toHaveLength(1);
+    expect(limited.requests).toHaveLength(1);
+  });
+
+  it('should classify the errors of each provider', () => {
+    const gemini = new Error(
+      'Gemini API request failed: got status: 429 Too Many Requests. ' +
+      '{"error":{"status":"RESOURCE_EXHAUSTED","details":[{"retryDelay":"12s"}]}}'
+    );
+    const quota = new OpenAIApi.APIError(429, { code: 'insufficient_quota' }, 'Quota exceeded', {});
+
+    expect(classifyLlmError(gemini, 'gemini-2.0-flash')).toMatchObject({ _tag: 'LlmRateLimitError', retryAfter: 12 });
+    expect(classifyLlmError(new Error('Gemini API request failed: got status: 503 UNAVAILABLE'), 'gemini-2.0-flash'))
+      .toMatchObject({ _tag: 'LlmModelError', modelName: 'gemini-2.0-flash' });
+    expect(classifyLlmError(openAiError(429, 'Slow down'), 'gpt-4o')).toMatchObject({ _tag: 'LlmRateLimitError' });
+    expect(classifyLlmError(quota, 'gpt-4o')).toMatchObject({ _tag: 'LlmError' });
+    expect(classifyLlmError(new AnthropicApiError('Overloaded', { errorType: 'overloaded_error' }), 'claude-3-5-haiku'))
+      .toMatchObject({ _tag: 'LlmModelError' });
+  });
+
+  it('should record model switches as events of the agent', async () => {
+    const primary = new MockLlm({ model: 'mock-primary', turns: [openAiError(401, 'Invalid API key')] });
+    const secondary = new MockLlm({ model: 'mock-secondary', turns: ['Hi there'] });
+    const agent = new LlmAgent({ name: 'assistant', model: new FallbackLlm({ models: [primary, secondary] }) });
+
+    const result = await run(agent, 'Hello');
+
+    expect(result.finalResponseText).toBe('Hi there');
+    const switchEvent = result.events[1];
+    expect(switchEvent.getAuthor()).toBe('assistant');
+    expect(switchEvent.getContent()).toBeNull();
+    expect(switchEvent.getActions().modelSwitch).toEqual({
+      fromModel: 'mock-primary',
+      toModel: 'mock-secondary',
+      reason: expect.stringContaining('Invalid API key')
+    });
+    expect(switchEvent.isFinalResponse()).toBe(false);
+  });
+
+  it('should only save the response of the model that answered under the output key', async () => {
+    const primary = new MockLlm({ model: 'mock-primary', turns: [openAiError(401, 'Invalid API key')] });
+    const secondary = new MockLlm({ model: 'mock-secondary', turns: ['42'] });
+    const agent = new LlmAgent({ name: 'assistant', model: new FallbackLlm({ models: [primary, secondary] }), outputKey: 'result' });
+
+    const result = await run(agent, 'Answer');
+
+    expect(result.events.map(event => event.getActions().stateDelta)).toEqual([undefined, undefined, { result: '42' }]);
+    expect(result.stateDelta).toEqual({ result: '42' });
+  });
+});
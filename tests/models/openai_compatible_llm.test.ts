@@ -0,0 +1,143 @@
+import { OpenAiCompatibleLlm } from '../../src/google/adk/models/openai_compatible_llm';
+import { LlmRegistry } from '../../src/google/adk/models/registry';
+import { LlmRequest, AdkType } from '../../src/google/adk/models/base_llm';
+
+interface MockParams {
+  model: string;
+  messages: Array<{ role: string; content: unknown }>;
+  tools?: unknown[];
+  response_format?: unknown;
+}
+
+const mockClientOptions: Array<{ baseURL?: string }> = [];
+let mockReply = '';
+
+const mockCreate = jest.fn((params: MockParams) => {
+  return Promise.resolve({
+    model: params.model,
+    choices: [{ message: { content: mockReply, role: 'assistant' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  });
+});
+
+// Mock the OpenAI API client
+jest.mock('openai', () => {
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation((options: { baseURL?: string }) => {
+      mockClientOptions.push(options);
+      return { chat: { completions: { create: mockCreate } } };
+    }),
+  };
+});
+
+const weatherTool = {
+  functionDeclarations: [{
+    name: 'get_weather',
+    description: 'Gets the weather of a city',
+    parameters: { type: AdkType.OBJECT, properties: { city: { type: AdkType.STRING } } }
+  }]
+};
+
+describe('OpenAiCompatibleLlm', () => {
+  beforeAll(() => {
+    OpenAiCompatibleLlm.registerProvider({
+      prefix: 'ollama',
+      baseUrl: 'http://localhost:11434/v1',
+      models: {
+        'llava.*': { vision: true },
+        'qwen.*': { tools: true }
+      }
+    });
+  });
+
+  beforeEach(() => {
+    mockClientOptions.length = 0;
+    mockCreate.mockClear();
+    mockReply = '';
+  });
+
+  function lastParams(): MockParams {
+    return mockCreate.mock.calls[mockCreate.mock.calls.length - 1][0];
+  }
+
+  it('should route prefixed model names to the provider', async () => {
+    const llm = LlmRegistry.resolve('ollama/llama3');
+    mockReply = 'Hello!';
+
+    expect(llm).toBeInstanceOf(OpenAiCompatibleLlm);
+    expect(llm.model).toBe('llama3');
+    expect(mockClientOptions[0].baseURL).toBe('http://localhost:11434/v1');
+
+    const response = await llm.generateContent({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] });
+
+    expect(lastParams().model).toBe('llama3');
+    expect(response.text).toBe('Hello!');
+  });
+
+  it('should emulate function calling through the prompt for models without tool support', async () => {
+    const llm = LlmRegistry.resolve('ollama/llama3');
+    mockReply = '```json\n{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Rome"}}]}\n```';
+
+    const request: LlmRequest = {
+      systemInstruction: 'You are a weather assistant.',
+      contents: [
+        { role: 'user', parts: [{ text: 'Weather in Paris and Rome?' }] },
+        { role: 'model', parts: [{ functionCall: { id: 'call_1', name: 'get_weather', args: { city: 'Paris' } } }] },
+        { role: 'user', parts: [{ functionResponse: { id: 'call_1', name: 'get_weather', response: { temperature: 18 } } }] }
+      ],
+      tools: [weatherTool]
+    };
+
+    const response = await llm.generateContent(request);
+
+    const params = lastParams();
+    expect(params.tools).toBeUndefined();
+    expect(params.messages[0].role).toBe('system');
+    expect(params.messages[0].content as string).toContain('You are a weather assistant.');
+    expect(params.messages[0].content as string).toContain('- get_weather: Gets the weather of a city');
+    expect(params.messages.slice(1)).toEqual([
+      { role: 'user', content: 'Weather in Paris and Rome?' },
+      { role: 'assistant', content: '{"tool_calls":[{"name":"get_weather","arguments":{"city":"Paris"}}]}' },
+      { role: 'user', content: 'Result of tool get_weather: {"temperature":18}' }
+    ]);
+
+    expect(response.functionCalls).toEqual([{ name: 'get_weather', args: { city: 'Rome' } }]);
+    expect(response.content).toEqual({
+      role: 'model',
+      parts: [{ functionCall: { name: 'get_weather', args: { city: 'Rome' } } }]
+    });
+  });
+
+  it('should send native tools to models that support them', async () => {
+    const llm = LlmRegistry.resolve('ollama/qwen2.5');
+    mockReply = 'No tool needed.';
+
+    const response = await llm.generateContent({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }], tools: [weatherTool] });
+
+    expect(lastParams().tools).toHaveLength(1);
+    expect(response.text).toBe('No tool needed.');
+  });
+
+  it('should use the JSON mode and vision capabilities of the model', async () => {
+    const image = { inlineData: { mimeType: 'image/jpeg', data: 'aGVsbG8=' } };
+    const request: LlmRequest = {
+      contents: [{ role: 'user', parts: [{ text: 'Describe this image as JSON' }, image] }],
+      generationConfig: { responseMimeType: 'application/json' }
+    };
+
+    await LlmRegistry.resolve('ollama/llava').generateContent(request);
+
+    expect(lastParams().response_format).toEqual({ type: 'json_object' });
+    expect(lastParams().messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Describe this image as JSON' },
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,aGVsbG8=' } }
+      ]
+    }]);
+
+    await expect(LlmRegistry.resolve('ollama/llama3').generateContent(request))
+      .rejects.toThrow('Model llama3 does not support image inputs');
+  });
+});
@@ -5,6 +5,38 @@ import { LlmRequest, AdkPart } from '../../src/google/adk/models/base_llm';
 const originalApiKey = process.env.OPENAI_API_KEY;
 process.env.OPENAI_API_KEY = 'test-api-key';
 
+// A recorded stream of a reply with text followed by two parallel tool calls,
+// whose arguments are split across chunks
+const mockRecordedStream = [
+  { choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: { content: 'Checking ' }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: { content: 'both cities.' }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_paris', type: 'function', function: { name: 'get_weather', arguments: '' } }] }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: { tool_calls: [{ index: 1, id: 'call_rome', type: 'function', function: { name: 'get_weather', arguments: '{"ci' } }] }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: ' "Paris"}' } }] }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: { tool_calls: [{ index: 1, function: { arguments: 'ty": "Rome"}' } }] }, finish_reason: null }], usage: null },
+  { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }], usage: null },
+  { choices: [], usage: { prompt_tokens: 12, completion_tokens: 34, total_tokens: 46 } },
+];
+
+const mockCreate = jest.fn((params: any) => {
+  if (params.stream) {
+    // Replay the recorded streaming response
+    return Promise.resolve((async function* () {
+      for (const chunk of mockRecordedStream) {
+        yield chunk;
+      }
+    })());
+  } else {
+    // Mock non-streaming response
+    return Promise.resolve({
+      choices: [{ message: { content: 'HardcodedTestString', role: 'assistant' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+    });
+  }
+});
+
 // Mock the OpenAI API client
 jest.mock('openai', () => {
   return {
@@ -12,21 +44,7 @@ jest.mock('openai', () => {
     default: jest.fn().mockImplementation(() => ({
       chat: {
         completions: {
-          create: jest.fn((params: any) => {
-            if (params.stream) {
-              // Mock streaming response
-              return (async function* () {
-                yield { choices: [{ delta: { content: 'HardcodedStreamChunk1' }, finish_reason: null }] };
-                yield { choices: [{ delta: { content: 'HardcodedStreamChunk2' }, finish_reason: 'stop' }] };
-              })();
-            } else {
-              // Mock non-streaming response
-              return Promise.resolve({
-                choices: [{ message: { content: 'HardcodedTestString', role: 'assistant' }, finish_reason: 'stop' }],
-                usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
-              });
-            }
-          }),
+          create: mockCreate,
         },
       },
     })),
@@ -79,42 +97,82 @@ describe('OpenAiLlm', () => {
     expect(response.usageMetadata?.totalTokenCount).toBe(30);
   });
 
-  it('should handle streaming content generation', async () => {
+  it('should accumulate streamed tool calls into one final response', async () => {
     const request: LlmRequest = {
-      contents: [{ parts: [{ text: 'Stream hello' }], role: 'user' }],
+      contents: [{ parts: [{ text: 'Weather in Paris and Rome?' }], role: 'user' }],
       name: 'test-stream-request' // Added name
     };
 
-    let firstChunk = true;
-    let accumulatedText = '';
-
-    for await (const chunk of openaiLlm.generateContentAsync(request, true)) {
-      expect(chunk.candidates).toBeDefined();
-      expect(chunk.candidates!.length).toBeGreaterThan(0);
-      const candidate = chunk.candidates![0];
-      expect(candidate.content).toBeDefined();
-      expect(candidate.content.role).toBe('model');
-      expect(candidate.content.parts).toBeDefined();
-      if (candidate.content.parts) {
-        expect(candidate.content.parts.length).toBeGreaterThan(0);
-        
-        // Accumulate text from parts
-        candidate.content.parts.forEach((part: AdkPart) => {
-          if (part.text) {
-            accumulatedText += part.text;
-          }
-        });
-      }
-      if (firstChunk) {
-        // For this mock, the first chunk contains the whole message.
-        // More sophisticated mocks might break it into smaller pieces.
-        expect(accumulatedText).toBe('HardcodedStreamChunk1');
-        firstChunk = false;
-      }
-      // Potentially check finishReason on the last chunk if the mock provides it
+    const responses = [];
+    for await (const response of openaiLlm.generateContentAsync(request, true)) {
+      responses.push(response);
     }
-    expect(firstChunk).toBe(false); // Ensure the loop ran
-    expect(accumulatedText).toBe('HardcodedStreamChunk1HardcodedStreamChunk2'); // Verify full content
+
+    expect(mockCreate.mock.calls[mockCreate.mock.calls.length - 1][0].stream_options).toEqual({ include_usage: true });
+
+    const partials = responses.filter(response => response.partial);
+    expect(partials.map(response => response.content?.parts?.[0].text)).toEqual(['Checking ', 'both cities.']);
+    expect(partials.every(response => !response.functionCalls)).toBe(true);
+
+    const finals = responses.filter(response => !response.partial);
+    expect(finals).toHaveLength(1);
+    const final = finals[0];
+    expect(final.turnComplete).toBe(true);
+    expect(final.finishReason).toBe('TOOL_CALLS');
+    expect(final.text).toBe('Checking both cities.');
+    expect(final.functionCalls).toEqual([
+      { id: 'call_paris', name: 'get_weather', args: { city: 'Paris' } },
+      { id: 'call_rome', name: 'get_weather', args: { city: 'Rome' } },
+    ]);
+    expect(final.content).toEqual({
+      role: 'model',
+      parts: [
+        { text: 'Checking both cities.' },
+        { functionCall: { id: 'call_paris', name: 'get_weather', args: { city: 'Paris' } } },
+        { functionCall: { id: 'call_rome', name: 'get_weather', args: { city: 'Rome' } } },
+      ],
+    });
+    expect(final.usageMetadata).toEqual({ promptTokenCount: 12, candidatesTokenCount: 34, totalTokenCount: 46 });
+  });
+
+  it('should send tool calls and their responses with matching IDs', async () => {
+    const request: LlmRequest = {
+      contents: [
+        { parts: [{ text: 'Weather in Paris and Rome?' }], role: 'user' },
+        {
+          parts: [
+            { functionCall: { id: 'call_paris', name: 'get_weather', args: { city: 'Paris' } } },
+            { functionCall: { id: 'call_rome', name: 'get_weather', args: { city: 'Rome' } } },
+          ],
+          role: 'model'
+        },
+        {
+          parts: [
+            { functionResponse: { id: 'call_paris', name: 'get_weather', response: { temperature: 18 } } },
+            { functionResponse: { id: 'call_rome', name: 'get_weather', response: { temperature: 24 } } },
+          ],
+          role: 'user'
+        },
+      ],
+      name: 'test-tool-request'
+    };
+
+    await openaiLlm.generateContent(request);
+
+    const messages = mockCreate.mock.calls[mockCreate.mock.calls.length - 1][0].messages;
+    expect(messages).toEqual([
+      { role: 'user', content: 'Weather in Paris and Rome?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_paris', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+          { id: 'call_rome', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_paris', content: '{"temperature":18}' },
+      { role: 'tool', tool_call_id: 'call_rome', content: '{"temperature":24}' },
+    ]);
   });
 
 });
\ No newline at end of file
@@ -0,0 +1,118 @@
+// Tests for how the Runner saves sessions to the memory service
+
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { MemoryTrigger, RunConfig } from '../../src/google/adk/agents/run_config';
+import { Event } from '../../src/google/adk/events/event';
+import { InMemoryMemoryService } from '../../src/google/adk/memory/in_memory_memory_service';
+import { Runner } from '../../src/google/adk/runners';
+import { InMemorySessionService } from '../../src/google/adk/sessions/in_memory_session_service';
+
+class EchoAgent extends BaseAgent {
+  constructor() {
+    super({ name: 'echo' });
+  }
+
+  protected async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    const text = ctx.userContent?.parts?.[0]?.text ?? '';
+    yield new Event({
+      invocationId: ctx.invocationId,
+      author: this.name,
+      content: { role: 'model', parts: [{ text: `echo: ${text}` }] }
+    });
+  }
+}
+
+describe('Runner memory', () => {
+  let memoryService: InMemoryMemoryService;
+  let runner: Runner;
+
+  const run = async (text: string, runConfig?: RunConfig) => {
+    const events: Event[] = [];
+    for await (const event of runner.runAsync({
+      userId: 'user1',
+      sessionId: 's1',
+      newMessage: { role: 'user', parts: [{ text }] },
+      runConfig
+    })) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  beforeEach(() => {
+    memoryService = new InMemoryMemoryService();
+    runner = new Runner({
+      appName: 'app',
+      agent: new EchoAgent(),
+      sessionService: new InMemorySessionService(),
+      memoryService
+    });
+  });
+
+  it('should save the session to memory when a run completes', async () => {
+    const addSpy = jest.spyOn(memoryService, 'addSessionToMemory');
+
+    await run('remember pineapples');
+
+    expect(addSpy).toHaveBeenCalledTimes(1);
+    const response = await memoryService.searchMemory('app', 'user1', 'pineapples');
+    expect(response.memories[0].events).toHaveLength(2);
+  });
+
+  it('should not save to memory when saveMemory is false', async () => {
+    const addSpy = jest.spyOn(memoryService, 'addSessionToMemory');
+
+    await run('hello', new RunConfig({ saveMemory: false }));
+
+    expect(addSpy).not.toHaveBeenCalled();
+  });
+
+  it('should save every N user turns', async () => {
+    const addSpy = jest.spyOn(memoryService, 'addSessionToMemory');
+    const runConfig = new RunConfig({ memoryTrigger: MemoryTrigger.EVERY_N_TURNS, memoryTurnInterval: 2 });
+
+    await run('one', runConfig);
+    expect(addSpy).not.toHaveBeenCalled();
+    await run('two', runConfig);
+    expect(addSpy).toHaveBeenCalledTimes(1);
+    await run('three', runConfig);
+    expect(addSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save on session close for the SESSION_CLOSE trigger', async () => {
+    const addSpy = jest.spyOn(memoryService, 'addSessionToMemory');
+    const runConfig = new RunConfig({ memoryTrigger: MemoryTrigger.SESSION_CLOSE });
+
+    await run('hello', runConfig);
+    expect(addSpy).not.toHaveBeenCalled();
+
+    await runner.closeSession('s1', 'user1', runConfig);
+    expect(addSpy).toHaveBeenCalledTimes(1);
+    expect(addSpy.mock.calls[0][0].events).toHaveLength(2);
+  });
+
+  it('should not save again on session close for the other triggers', async () => {
+    const addSpy = jest.spyOn(memoryService, 'addSessionToMemory');
+    const runConfig = new RunConfig({ memoryTrigger: MemoryTrigger.EVERY_N_TURNS, memoryTurnInterval: 2 });
+
+    await run('hello', runConfig);
+    await runner.closeSession('s1', 'user1', runConfig);
+    await runner.closeSession('s1', 'user1');
+
+    expect(addSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not fail the run when saving to memory fails', async () => {
+    jest.spyOn(memoryService, 'addSessionToMemory').mockRejectedValue(new Error('disk full'));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(run('hello')).resolves.toHaveLength(2);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should reject a non-positive memoryTurnInterval', () => {
+    expect(() => new RunConfig({ memoryTurnInterval: 0 })).toThrow('memoryTurnInterval');
+  });
+});
@@ -0,0 +1,133 @@
+// Tests for resuming invocations that wait on long-running function calls
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { Event } from '../../src/google/adk/events/event';
+import { PENDING_LONG_RUNNING_CALLS_KEY } from '../../src/google/adk/flows/llm_flows/functions';
+import { Runner } from '../../src/google/adk/runners';
+import { BaseSessionService } from '../../src/google/adk/sessions/base_session_service';
+import { DatabaseSessionService } from '../../src/google/adk/sessions/database_session_service';
+import { InMemorySessionService } from '../../src/google/adk/sessions/in_memory_session_service';
+
+/**
+ * An agent that asks for an approval through a long-running tool and reports
+ * the decision once the tool's response arrives.
+ */
+class ApprovalAgent extends BaseAgent {
+  constructor() {
+    super({ name: 'approver' });
+  }
+
+  protected async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    const functionResponse = ctx.userContent?.parts?.[0]?.functionResponse;
+    if (functionResponse) {
+      yield new Event({
+        invocationId: ctx.invocationId,
+        author: this.name,
+        content: { role: 'model', parts: [{ text: `decision: ${functionResponse.response?.status}` }] }
+      });
+      return;
+    }
+
+    const callId = `call-${ctx.session!.events.length}`;
+    yield new Event({
+      invocationId: ctx.invocationId,
+      author: this.name,
+      content: { role: 'model', parts: [{ functionCall: { id: callId, name: 'ask_manager', args: { amount: 100 } } }] },
+      longRunningToolIds: new Set([callId])
+    });
+  }
+}
+
+describe('Runner.resumeAsync', () => {
+  const newMessage = { role: 'user', parts: [{ text: 'reimburse me' }] };
+  let sessionService: BaseSessionService;
+  let runner: Runner;
+
+  beforeEach(() => {
+    sessionService = new InMemorySessionService();
+    runner = new Runner({ appName: 'app', agent: new ApprovalAgent(), sessionService });
+  });
+
+  it('should record long-running calls as pending in the session', async () => {
+    const result = await runner.runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+
+    expect(await runner.getPendingLongRunningCalls('u1', 's1')).toEqual([{
+      id: 'call-1',
+      name: 'ask_manager',
+      args: { amount: 100 },
+      invocationId: result.events[1].getInvocationId(),
+      author: 'approver'
+    }]);
+  });
+
+  it('should deliver the response and continue the original invocation', async () => {
+    const first = await runner.runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+
+    const resumed = await runner.resumeToCompletion({
+      userId: 'u1',
+      sessionId: 's1',
+      functionCallId: 'call-1',
+      response: { status: 'approved' }
+    });
+
+    expect(resumed.events[0].getContent()?.parts?.[0]?.functionResponse).toEqual({
+      id: 'call-1',
+      name: 'ask_manager',
+      response: { status: 'approved' }
+    });
+    expect(resumed.finalResponseText).toBe('decision: approved');
+    expect(resumed.events.every(e => e.getInvocationId() === first.events[0].getInvocationId())).toBe(true);
+    expect(await runner.getPendingLongRunningCalls('u1', 's1')).toEqual([]);
+
+    const session = await sessionService.getSession('app', 'u1', 's1');
+    expect(session!.events).toHaveLength(4);
+    expect(session!.state[PENDING_LONG_RUNNING_CALLS_KEY]).toEqual({});
+  });
+
+  it('should only resolve the answered call', async () => {
+    await runner.runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+    await runner.runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+
+    await runner.resumeToCompletion({ userId: 'u1', sessionId: 's1', functionCallId: 'call-3', response: { status: 'denied' } });
+
+    expect((await runner.getPendingLongRunningCalls('u1', 's1')).map(call => call.id)).toEqual(['call-1']);
+  });
+
+  it('should reject unknown call IDs and sessions', async () => {
+    await runner.runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+
+    await expect(runner.resumeToCompletion({ userId: 'u1', sessionId: 's1', functionCallId: 'nope', response: {} }))
+      .rejects.toThrow('No pending long-running function call with ID nope');
+    await expect(runner.resumeToCompletion({ userId: 'u1', sessionId: 'missing', functionCallId: 'call-1', response: {} }))
+      .rejects.toThrow('Session not found: missing');
+  });
+
+  it('should resume calls made before a restart', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-resume-'));
+    const dbUrl = `sqlite:///${path.join(tmpDir, 'sessions.db')}`;
+    try {
+      const firstService = new DatabaseSessionService(dbUrl);
+      await new Runner({ appName: 'app', agent: new ApprovalAgent(), sessionService: firstService })
+        .runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+      firstService.close();
+
+      const secondService = new DatabaseSessionService(dbUrl);
+      const restarted = new Runner({ appName: 'app', agent: new ApprovalAgent(), sessionService: secondService });
+      const resumed = await restarted.resumeToCompletion({
+        userId: 'u1',
+        sessionId: 's1',
+        functionCallId: 'call-1',
+        response: { status: 'approved' }
+      });
+      expect(resumed.finalResponseText).toBe('decision: approved');
+      expect(await restarted.getPendingLongRunningCalls('u1', 's1')).toEqual([]);
+      secondService.close();
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+// Tests for Runner.runToCompletion and Runner.run
+
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { Event } from '../../src/google/adk/events/event';
+import { EventActions } from '../../src/google/adk/events/event_actions';
+import { newRunner } from '../testing_utils';
+
+/**
+ * An agent that streams its answer in two chunks after a tool round trip.
+ */
+class CountingAgent extends BaseAgent {
+  constructor() {
+    super({ name: 'counter' });
+  }
+
+  protected async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    const text = ctx.userContent?.parts?.[0]?.text ?? '';
+    const base = { invocationId: ctx.invocationId, author: this.name };
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    yield new Event({
+      ...base,
+      content: { role: 'model', parts: [{ functionCall: { name: 'count', args: { text } } }] },
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2, totalTokenCount: 12 }
+    });
+    yield new Event({
+      ...base,
+      content: { role: 'user', parts: [{ functionResponse: { name: 'count', response: { length: text.length } } }] },
+      actions: new EventActions({ stateDelta: { length: text.length, step: 'counted' } })
+    });
+    yield new Event({
+      ...base,
+      partial: true,
+      content: { role: 'model', parts: [{ text: `${text} has ` }] },
+      usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 1, totalTokenCount: 21 }
+    });
+    yield new Event({
+      ...base,
+      content: { role: 'model', parts: [{ text: `${text} has ` }, { text: `${text.length} letters` }] },
+      actions: new EventActions({ stateDelta: { step: 'answered' } }),
+      usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 4, totalTokenCount: 24 }
+    });
+  }
+}
+
+class FailingAgent extends BaseAgent {
+  constructor() {
+    super({ name: 'failing' });
+  }
+
+  protected runAsyncImpl(_ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    throw new Error('model unavailable');
+  }
+}
+
+describe('Runner.runToCompletion', () => {
+  const newMessage = { role: 'user', parts: [{ text: 'apple' }] };
+
+  it('should resolve with all events once the run has finished', async () => {
+    const result = await newRunner(new CountingAgent()).runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+
+    expect(result.events.map(e => e.getAuthor())).toEqual(['user', 'counter', 'counter', 'counter', 'counter']);
+    expect(result.finalResponseText).toBe('apple has 5 letters');
+  });
+
+  it('should sum the usage of complete model responses', async () => {
+    const result = await newRunner(new CountingAgent()).runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+
+    expect(result.usage).toEqual({ promptTokenCount: 30, candidatesTokenCount: 6, totalTokenCount: 36 });
+  });
+
+  it('should merge the state deltas of the run in order', async () => {
+    const runner = newRunner(new CountingAgent());
+
+    const result = await runner.runToCompletion({ userId: 'u1', sessionId: 's1', newMessage });
+
+    expect(result.stateDelta).toEqual({ length: 5, step: 'answered' });
+    const session = await runner.sessionService.getSession('app', 'u1', 's1');
+    expect(session!.state).toEqual({ length: 5, step: 'answered' });
+  });
+
+  it('should reject when the agent fails', async () => {
+    await expect(newRunner(new FailingAgent()).runToCompletion({ userId: 'u1', sessionId: 's1', newMessage }))
+      .rejects.toThrow('model unavailable');
+  });
+
+  it('should make run resolve with the complete list of events', async () => {
+    const events = await newRunner(new CountingAgent()).run({ userId: 'u1', sessionId: 's1', newMessage });
+
+    expect(events).toHaveLength(5);
+  });
+});
@@ -0,0 +1,116 @@
+// Tests for the DatabaseSessionService implementation
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseSessionService } from '../../src/google/adk/sessions/database_session_service';
+import { GetSessionConfig, SessionConflictError } from '../../src/google/adk/sessions/base_session_service';
+import { Event } from '../../src/google/adk/events/event';
+import { EventActions } from '../../src/google/adk/events/event_actions';
+
+describe('DatabaseSessionService', () => {
+  let tmpDir: string;
+  let dbUrl: string;
+  let service: DatabaseSessionService;
+
+  const textEvent = (author: string, text: string, timestamp: number, stateDelta?: Record<string, unknown>) =>
+    new Event({
+      author,
+      timestamp,
+      content: { role: author === 'user' ? 'user' : 'model', parts: [{ text }] },
+      actions: new EventActions({ stateDelta })
+    });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adk-db-session-'));
+    dbUrl = `sqlite:///${path.join(tmpDir, 'sessions.db')}`;
+    service = new DatabaseSessionService(dbUrl);
+  });
+
+  afterEach(() => {
+    service.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should reject non-SQLite URLs', () => {
+    expect(() => new DatabaseSessionService('postgresql://localhost/db')).toThrow('Unsupported database URL');
+  });
+
+  it('should persist sessions, events and state across service instances', async () => {
+    const session = await service.createSession('app', 'user1', { counter: 1, 'temp:scratch': true }, 'session1');
+    await service.appendEvent(session, textEvent('user', 'hello', session.lastUpdateTime + 1));
+    await service.appendEvent(session, textEvent('agent', 'hi', session.lastUpdateTime + 1, { counter: 2 }));
+    service.close();
+
+    service = new DatabaseSessionService(dbUrl);
+    const restored = await service.getSession('app', 'user1', 'session1');
+
+    expect(restored).not.toBeNull();
+    expect(restored!.state).toEqual({ counter: 2 });
+    expect(restored!.events.map(e => e.getContent()?.parts?.[0]?.text)).toEqual(['hello', 'hi']);
+    expect(restored!.events[1].getActions().stateDelta).toEqual({ counter: 2 });
+  });
+
+  it('should share app state across users and user state across sessions', async () => {
+    const first = await service.createSession('app', 'user1', {}, 's1');
+    await service.appendEvent(first, textEvent('agent', 'x', first.lastUpdateTime + 1, {
+      'app:theme': 'dark',
+      'user:name': 'Ada'
+    }));
+
+    const second = await service.createSession('app', 'user1', {}, 's2');
+    expect(second.state).toEqual({ 'app:theme': 'dark', 'user:name': 'Ada' });
+
+    const otherUser = await service.createSession('app', 'user2', {}, 's3');
+    expect(otherUser.state).toEqual({ 'app:theme': 'dark' });
+  });
+
+  it('should honor numRecentEvents and afterTimestamp', async () => {
+    const session = await service.createSession('app', 'user1', {}, 's1');
+    const base = session.lastUpdateTime;
+    for (let i = 1; i <= 5; i++) {
+      await service.appendEvent(session, textEvent('user', `m${i}`, base + i));
+    }
+
+    const recent = await service.getSession('app', 'user1', 's1', new GetSessionConfig({ numRecentEvents: 2 }));
+    expect(recent!.events.map(e => e.getContent()?.parts?.[0]?.text)).toEqual(['m4', 'm5']);
+
+    const after = await service.getSession('app', 'user1', 's1', new GetSessionConfig({ afterTimestamp: base + 3 }));
+    expect(after!.events.map(e => e.getContent()?.parts?.[0]?.text)).toEqual(['m4', 'm5']);
+  });
+
+  it('should page events with nextPageToken', async () => {
+    const session = await service.createSession('app', 'user1', {}, 's1');
+    for (let i = 1; i <= 5; i++) {
+      await service.appendEvent(session, textEvent('user', `m${i}`, session.lastUpdateTime + 1));
+    }
+
+    const first = await service.listEvents('app', 'user1', 's1', 2);
+    expect(first.events).toHaveLength(2);
+    expect(first.nextPageToken).toBeDefined();
+
+    const second = await service.listEvents('app', 'user1', 's1', 2, first.nextPageToken);
+    const third = await service.listEvents('app', 'user1', 's1', 2, second.nextPageToken);
+    expect(third.events.map(e => e.getContent()?.parts?.[0]?.text)).toEqual(['m5']);
+    expect(third.nextPageToken).toBeUndefined();
+  });
+
+  it('should list and delete sessions', async () => {
+    await service.createSession('app', 'user1', {}, 's1');
+    await service.createSession('app', 'user1', {}, 's2');
+    expect((await service.listSessions('app', 'user1')).sessions.map(s => s.id)).toEqual(['s1', 's2']);
+
+    await service.deleteSession('app', 'user1', 's1');
+    expect(await service.getSession('app', 'user1', 's1')).toBeNull();
+    expect((await service.listSessions('app', 'user1')).sessions.map(s => s.id)).toEqual(['s2']);
+  });
+
+  it('should reject appends from a stale session object', async () => {
+    const session = await service.createSession('app', 'user1', {}, 's1');
+    const stale = (await service.getSession('app', 'user1', 's1'))!;
+    await service.appendEvent(session, textEvent('user', 'first', session.lastUpdateTime + 10));
+
+    await expect(service.appendEvent(stale, textEvent('user', 'second', stale.lastUpdateTime + 20)))
+      .rejects.toBeInstanceOf(SessionConflictError);
+  });
+});
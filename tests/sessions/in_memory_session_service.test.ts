@@ -0,0 +1,130 @@
+// Tests for the InMemorySessionService implementation
+
+import { InMemorySessionService } from '../../src/google/adk/sessions/in_memory_session_service';
+import { SessionConflictError } from '../../src/google/adk/sessions/base_session_service';
+import { Event } from '../../src/google/adk/events/event';
+import { EventActions } from '../../src/google/adk/events/event_actions';
+
+describe('InMemorySessionService', () => {
+  let service: InMemorySessionService;
+
+  const stateEvent = (stateDelta: Record<string, unknown>) =>
+    new Event({
+      author: 'agent',
+      content: { role: 'model', parts: [{ text: 'ok' }] },
+      actions: new EventActions({ stateDelta })
+    });
+
+  beforeEach(() => {
+    service = new InMemorySessionService();
+  });
+
+  describe('appendEvent', () => {
+    it('should increment the session version on every append', async () => {
+      const session = await service.createSession('app', 'user1', {}, 's1');
+      expect(session.version).toBe(0);
+
+      await service.appendEvent(session, stateEvent({ a: 1 }));
+      await service.appendEvent(session, stateEvent({ b: 2 }));
+
+      expect(session.version).toBe(2);
+      const stored = await service.getSession('app', 'user1', 's1');
+      expect(stored!.version).toBe(2);
+      expect(stored!.events).toHaveLength(2);
+    });
+
+    it('should not change the version for partial events', async () => {
+      const session = await service.createSession('app', 'user1', {}, 's1');
+      await service.appendEvent(session, new Event({ author: 'agent', partial: true }));
+
+      expect(session.version).toBe(0);
+      expect((await service.getSession('app', 'user1', 's1'))!.events).toHaveLength(0);
+    });
+
+    it('should reject concurrent appends from copies of the same session', async () => {
+      await service.createSession('app', 'user1', {}, 's1');
+      const first = (await service.getSession('app', 'user1', 's1'))!;
+      const second = (await service.getSession('app', 'user1', 's1'))!;
+
+      const results = await Promise.allSettled([
+        service.appendEvent(first, stateEvent({ owner: 'first' })),
+        service.appendEvent(second, stateEvent({ owner: 'second' }))
+      ]);
+
+      expect(results[0].status).toBe('fulfilled');
+      expect(results[1].status).toBe('rejected');
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(SessionConflictError);
+
+      const stored = (await service.getSession('app', 'user1', 's1'))!;
+      expect(stored.state).toEqual({ owner: 'first' });
+      expect(stored.events).toHaveLength(1);
+    });
+
+    it('should accept appends after reloading a stale session', async () => {
+      const session = await service.createSession('app', 'user1', {}, 's1');
+      const stale = (await service.getSession('app', 'user1', 's1'))!;
+      await service.appendEvent(session, stateEvent({ a: 1 }));
+
+      await expect(service.appendEvent(stale, stateEvent({ b: 2 }))).rejects.toThrow(SessionConflictError);
+
+      const reloaded = (await service.getSession('app', 'user1', 's1'))!;
+      await service.appendEvent(reloaded, stateEvent({ b: 2 }));
+      expect((await service.getSession('app', 'user1', 's1'))!.state).toEqual({ a: 1, b: 2 });
+    });
+  });
+
+  describe('scoped state', () => {
+    it('should share user state across sessions of the same user', async () => {
+      const first = await service.createSession('app', 'user1', {}, 's1');
+      await service.appendEvent(first, stateEvent({ 'user:name': 'Ada', topic: 'math' }));
+
+      const second = await service.createSession('app', 'user1', {}, 's2');
+      expect(second.state).toEqual({ 'user:name': 'Ada' });
+
+      const otherUser = await service.createSession('app', 'user2', {}, 's3');
+      expect(otherUser.state).toEqual({});
+    });
+
+    it('should share app state across users', async () => {
+      const session = await service.createSession('app', 'user1', {}, 's1');
+      await service.appendEvent(session, stateEvent({ 'app:theme': 'dark' }));
+
+      const otherUser = await service.createSession('app', 'user2', {}, 's2');
+      expect(otherUser.state).toEqual({ 'app:theme': 'dark' });
+
+      const otherApp = await service.createSession('other', 'user1', {}, 's3');
+      expect(otherApp.state).toEqual({});
+    });
+
+    it('should split the initial state of a new session by scope', async () => {
+      const session = await service.createSession('app', 'user1', {
+        'app:version': 2,
+        'user:locale': 'en',
+        'temp:scratch': true,
+        step: 1
+      }, 's1');
+      expect(session.state).toEqual({ 'app:version': 2, 'user:locale': 'en', step: 1 });
+
+      const sibling = await service.createSession('app', 'user1', {}, 's2');
+      expect(sibling.state).toEqual({ 'app:version': 2, 'user:locale': 'en' });
+    });
+
+    it('should merge the latest shared state when a session is reloaded', async () => {
+      const first = await service.createSession('app', 'user1', { step: 1 }, 's1');
+      const second = await service.createSession('app', 'user1', {}, 's2');
+
+      await service.appendEvent(second, stateEvent({ 'user:name': 'Ada', 'app:theme': 'light' }));
+
+      const reloaded = (await service.getSession('app', 'user1', first.id))!;
+      expect(reloaded.state).toEqual({ step: 1, 'user:name': 'Ada', 'app:theme': 'light' });
+    });
+
+    it('should not persist temporary state', async () => {
+      const session = await service.createSession('app', 'user1', {}, 's1');
+      await service.appendEvent(session, stateEvent({ 'temp:draft': 'x', kept: true }));
+
+      expect(session.state).toEqual({ kept: true });
+      expect((await service.getSession('app', 'user1', 's1'))!.state).toEqual({ kept: true });
+    });
+  });
+});
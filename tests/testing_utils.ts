@@ -0,0 +1,65 @@
+// Shared fixtures for the tests of agents, flows and runners
+
+import { BaseAgent } from '../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../src/google/adk/agents/invocation_context';
+import { Event } from '../src/google/adk/events/event';
+import { EventActions } from '../src/google/adk/events/event_actions';
+import { Runner } from '../src/google/adk/runners';
+import { InMemorySessionService } from '../src/google/adk/sessions/in_memory_session_service';
+
+/**
+ * An agent that replies with a text that depends on how often it ran, and
+ * optionally counts its runs in the state or escalates.
+ */
+export class ScriptedAgent extends BaseAgent {
+  runs = 0;
+
+  constructor(
+    name: string,
+    private readonly reply: (run: number) => string = () => `${name} done`,
+    private readonly options: { countKey?: string; escalateOnRun?: number } = {}
+  ) {
+    super({ name });
+  }
+
+  protected async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    yield* this.respond(ctx);
+  }
+
+  protected async *runLiveImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    yield* this.respond(ctx);
+  }
+
+  private async *respond(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    this.runs++;
+    const stateDelta: Record<string, unknown> = {};
+    if (this.options.countKey) {
+      stateDelta[this.options.countKey] = this.runs;
+    }
+    yield new Event({
+      invocationId: ctx.invocationId,
+      author: this.name,
+      branch: ctx.branch,
+      content: { role: 'model', parts: [{ text: this.reply(this.runs) }] },
+      actions: new EventActions({ stateDelta, escalate: this.options.escalateOnRun === this.runs })
+    });
+  }
+}
+
+/**
+ * Creates a runner for an agent with an in-memory session service.
+ */
+export const newRunner = (agent: BaseAgent) =>
+  new Runner({ appName: 'app', agent, sessionService: new InMemorySessionService() });
+
+/**
+ * Sends a user message to the session `s1` of the user `u1` and runs the
+ * invocation to completion.
+ */
+export const send = (runner: Runner, text: string) =>
+  runner.runToCompletion({ userId: 'u1', sessionId: 's1', newMessage: { role: 'user', parts: [{ text }] } });
+
+/**
+ * Runs an agent in a new session.
+ */
+export const run = (agent: BaseAgent, text: string = 'Go') => send(newRunner(agent), text);
@@ -0,0 +1,124 @@
+import { LlmAgent } from '../../src/google/adk/agents/llm_agent';
+import { LiveRequestQueue } from '../../src/google/adk/agents/live_request_queue';
+import { Event } from '../../src/google/adk/events/event';
+import { AdkFunctionDeclaration, AdkType, Content } from '../../src/google/adk/models/base_llm';
+import { LlmRegistry } from '../../src/google/adk/models/registry';
+import { MockLlm } from '../../src/google/adk/tests';
+import { BaseTool } from '../../src/google/adk/tools/base_tool';
+import { newRunner, run } from '../testing_utils';
+
+const call = (name: string, args: Record<string, unknown>) => ({
+  content: { role: 'model', parts: [{ functionCall: { name, args } }] } as Content
+});
+
+/**
+ * A tool that adds two numbers.
+ */
+class AddTool extends BaseTool {
+  constructor() {
+    super('add', 'Adds two numbers.');
+  }
+
+  protected override getDeclaration(): AdkFunctionDeclaration {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: AdkType.OBJECT,
+        properties: { a: { type: AdkType.NUMBER }, b: { type: AdkType.NUMBER } },
+        required: ['a', 'b']
+      }
+    };
+  }
+
+  override async runAsync(args: Record<string, unknown>): Promise<unknown> {
+    return { sum: Number(args.a) + Number(args.b) };
+  }
+}
+
+describe('MockLlm', () => {
+  afterEach(() => {
+    MockLlm.reset();
+  });
+
+  it('should be resolved by model name and replay its turns in order', async () => {
+    const model = new MockLlm({ model: 'mock-calculator', turns: [call('add', { a: 2, b: 3 }), 'The sum is 5'] });
+    const agent = new LlmAgent({ name: 'calculator', model: 'mock-calculator', tools: [new AddTool()] });
+
+    const result = await run(agent, 'What is 2 + 3?');
+
+    expect(LlmRegistry.resolve('mock-calculator')).toBe(model);
+    expect(result.finalResponseText).toBe('The sum is 5');
+    expect(model.remainingTurns).toBe(0);
+    expect(model.requests).toHaveLength(2);
+    expect(model.requests[0].contents).toEqual([{ role: 'user', parts: [{ text: 'What is 2 + 3?' }] }]);
+    expect(model.requests[1].contents![2].parts![0].functionResponse).toMatchObject({
+      name: 'add',
+      response: { sum: 5 }
+    });
+  });
+
+  it('should resolve model names to new MockLlms after a reset', () => {
+    const model = new MockLlm({ model: 'mock-calculator', turns: ['Hello'] });
+
+    MockLlm.reset();
+    const resolved = LlmRegistry.resolve('mock-calculator');
+
+    expect(resolved).toBeInstanceOf(MockLlm);
+    expect(resolved).not.toBe(model);
+    expect((resolved as MockLlm).remainingTurns).toBe(0);
+  });
+
+  it('should replay partial chunks and scripted errors', async () => {
+    const model = new MockLlm({
+      turns: [
+        [
+          { content: { role: 'model', parts: [{ text: 'Hel' }] }, partial: true },
+          { content: { role: 'model', parts: [{ text: 'Hello' }] }, turnComplete: true }
+        ],
+        new Error('Quota exceeded')
+      ]
+    });
+
+    const responses = [];
+    for await (const response of model.generateContentAsync({ contents: [] })) {
+      responses.push(response);
+    }
+
+    expect(responses.map(response => response.partial)).toEqual([true, undefined]);
+    await expect(model.generateContent({ contents: [] })).rejects.toThrow('Quota exceeded');
+    await expect(model.generateContent({ contents: [] })).rejects.toThrow('MockLlm mock has no scripted turn left');
+    expect(model.requests).toHaveLength(3);
+  });
+
+  it('should fail the run of an agent when the model runs out of turns', async () => {
+    const model = new MockLlm({ turns: [call('add', { a: 1, b: 1 })] });
+    const agent = new LlmAgent({ name: 'calculator', model, tools: [new AddTool()] });
+
+    await expect(run(agent, 'What is 1 + 1?')).rejects.toThrow('no scripted turn left');
+  });
+
+  it('should reply to the contents sent to a live connection', async () => {
+    const model = new MockLlm({ model: 'mock-live', turns: [call('add', { a: 4, b: 5 }), 'The sum is 9'] });
+    const agent = new LlmAgent({ name: 'calculator', model: 'mock-live', tools: [new AddTool()] });
+    const queue = new LiveRequestQueue();
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    queue.sendContent({ role: 'user', parts: [{ text: 'What is 4 + 5?' }] });
+    const events: Event[] = [];
+    for await (const event of newRunner(agent).runLive({ userId: 'u1', sessionId: 's1', liveRequestQueue: queue })) {
+      events.push(event);
+      if (event.getContent()?.parts?.[0]?.text === 'The sum is 9') {
+        queue.close();
+      }
+    }
+
+    const connection = model.connections[0];
+    expect(connection.closed).toBe(true);
+    expect(connection.sentContents).toHaveLength(2);
+    expect(connection.sentContents[0]).toEqual({ role: 'user', parts: [{ text: 'What is 4 + 5?' }] });
+    expect(connection.sentContents[1].parts![0].functionResponse).toMatchObject({ name: 'add', response: { sum: 9 } });
+    expect(events[events.length - 1].getContent()?.parts?.[0]?.text).toBe('The sum is 9');
+  });
+});
@@ -0,0 +1,127 @@
+// Tests for wrapping agents as tools with AgentTool
+
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { LlmAgent } from '../../src/google/adk/agents/llm_agent';
+import { RunConfig } from '../../src/google/adk/agents/run_config';
+import { Event } from '../../src/google/adk/events/event';
+import { ZodLikeSchema } from '../../src/google/adk/models/schema_utils';
+import { Session } from '../../src/google/adk/sessions/session';
+import { AgentTool } from '../../src/google/adk/tools/agent_tool';
+import { ToolContext } from '../../src/google/adk/tools/tool_context';
+
+/**
+ * An agent that reports the message and state it was started with.
+ */
+class ReportingAgent extends LlmAgent {
+  protected override async *runAsyncImpl(ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    const report = {
+      message: ctx.userContent?.parts?.[0]?.text,
+      state: ctx.session!.state
+    };
+    yield new Event({
+      invocationId: ctx.invocationId,
+      author: this.name,
+      content: { role: 'model', parts: [{ text: JSON.stringify(report) }] }
+    });
+  }
+}
+
+class NoopAgent extends BaseAgent {
+  protected async *runAsyncImpl(_ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    // Only used as the calling agent
+  }
+}
+
+describe('AgentTool', () => {
+  const toolContext = () => new ToolContext(new InvocationContext({
+    agent: new NoopAgent({ name: 'orchestrator' }),
+    runConfig: new RunConfig(),
+    session: new Session({ id: 's1', appName: 'app', userId: 'u1', state: { tone: 'formal' } })
+  }));
+
+  const flightSchema = {
+    type: 'object',
+    properties: {
+      origin: { type: 'string', description: 'IATA code of the origin' },
+      passengers: { type: 'integer' }
+    },
+    required: ['origin', 'passengers']
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should take a free-text request without an input schema', async () => {
+    const tool = new AgentTool(new ReportingAgent({ name: 'helper', description: 'Helps' }));
+
+    expect(tool.functionDeclarations[0].parameters?.required).toEqual(['request']);
+    const result = await tool.runAsync({ request: 'hi' }, toolContext());
+
+    expect(JSON.parse(result as string).message).toBe('hi');
+  });
+
+  it('should declare the parameters of the input schema', () => {
+    const tool = new AgentTool(new ReportingAgent({ name: 'flights', description: 'Books flights', inputSchema: flightSchema }));
+
+    expect(tool.functionDeclarations[0]).toEqual({
+      name: 'flights',
+      description: 'Books flights',
+      parameters: {
+        type: 'OBJECT',
+        properties: {
+          origin: { type: 'STRING', description: 'IATA code of the origin' },
+          passengers: { type: 'INTEGER' }
+        },
+        required: ['origin', 'passengers']
+      }
+    });
+  });
+
+  it('should send validated arguments as the first message and state', async () => {
+    const tool = new AgentTool(new ReportingAgent({ name: 'flights', inputSchema: flightSchema }));
+
+    const result = await tool.runAsync({ origin: 'ZRH', passengers: 2 }, toolContext());
+
+    expect(JSON.parse(result as string)).toEqual({
+      message: '{"origin":"ZRH","passengers":2}',
+      state: { tone: 'formal', origin: 'ZRH', passengers: 2 }
+    });
+  });
+
+  it('should reject arguments that do not match the input schema', async () => {
+    const agent = new ReportingAgent({ name: 'flights', inputSchema: flightSchema });
+    const runSpy = jest.spyOn(agent, 'runAsync');
+    const tool = new AgentTool(agent);
+
+    const result = await tool.runAsync({ origin: 'ZRH', passengers: 'two' }, toolContext());
+
+    expect(result).toEqual({ error: 'Invalid arguments for agent flights:\n$.passengers: expected integer, got string' });
+    expect(runSpy).not.toHaveBeenCalled();
+  });
+
+  it('should use the parsed value of Zod-like input schemas', async () => {
+    const schema: ZodLikeSchema = {
+      safeParse: (data: unknown) => ({ success: true, data: { ...(data as object), normalized: true } })
+    };
+    const tool = new AgentTool(new ReportingAgent({ name: 'normalizer', inputSchema: schema }));
+
+    expect(tool.functionDeclarations[0].parameters).toEqual({ type: 'OBJECT' });
+    const result = await tool.runAsync({ value: 1 }, toolContext());
+
+    expect(JSON.parse(result as string).message).toBe('{"value":1,"normalized":true}');
+  });
+
+  it('should return the parsed response of agents with an output schema', async () => {
+    const tool = new AgentTool(new ReportingAgent({ name: 'reporter', outputSchema: { type: 'object' } }));
+
+    const result = await tool.runAsync({ request: 'hi' }, toolContext());
+
+    expect(result).toEqual({ message: 'hi', state: { tone: 'formal' } });
+  });
+});
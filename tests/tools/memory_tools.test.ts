@@ -0,0 +1,86 @@
+// Tests for the load_memory and preload_memory tools
+
+import { BaseAgent } from '../../src/google/adk/agents/base_agent';
+import { InvocationContext } from '../../src/google/adk/agents/invocation_context';
+import { RunConfig } from '../../src/google/adk/agents/run_config';
+import { Event } from '../../src/google/adk/events/event';
+import { InMemoryMemoryService } from '../../src/google/adk/memory/in_memory_memory_service';
+import { LlmRequest } from '../../src/google/adk/models/llm_request';
+import { Session } from '../../src/google/adk/sessions/session';
+import { loadMemory } from '../../src/google/adk/tools/load_memory_tool';
+import { preloadMemory } from '../../src/google/adk/tools/preload_memory_tool';
+import { ToolContext } from '../../src/google/adk/tools/tool_context';
+
+class NoopAgent extends BaseAgent {
+  protected async *runAsyncImpl(_ctx: InvocationContext): AsyncGenerator<Event, void, unknown> {
+    // Not run by these tests
+  }
+}
+
+describe('memory tools', () => {
+  let memoryService: InMemoryMemoryService;
+
+  const toolContext = (userText: string, runConfig = new RunConfig()) =>
+    new ToolContext(new InvocationContext({
+      agent: new NoopAgent({ name: 'agent' }),
+      runConfig,
+      memoryService,
+      appName: 'app',
+      userId: 'user1',
+      userContent: { role: 'user', parts: [{ text: userText }] }
+    }));
+
+  beforeEach(async () => {
+    memoryService = new InMemoryMemoryService();
+    await memoryService.addSessionToMemory(new Session({
+      id: 'past',
+      appName: 'app',
+      userId: 'user1',
+      events: [
+        new Event({ author: 'user', content: { role: 'user', parts: [{ text: 'my cat is named Miso' }] } }),
+        new Event({ author: 'agent', content: { role: 'model', parts: [{ text: 'Miso is a great name' }] } })
+      ]
+    }));
+  });
+
+  describe('load_memory', () => {
+    it('should declare a query parameter', () => {
+      expect(loadMemory.functionDeclarations[0].name).toBe('load_memory');
+      expect(loadMemory.functionDeclarations[0].parameters?.required).toEqual(['query']);
+    });
+
+    it('should return the memories matching the query', async () => {
+      const result = await loadMemory.runAsync({ query: 'miso' }, toolContext('what is my cat called?'));
+
+      expect(result).toEqual({
+        memories: [{ sessionId: 'past', score: undefined, text: 'user: my cat is named Miso\nagent: Miso is a great name' }]
+      });
+    });
+
+    it('should return no memories when loadMemory is disabled', async () => {
+      const result = await loadMemory.runAsync({ query: 'miso' }, toolContext('', new RunConfig({ loadMemory: false })));
+
+      expect(result).toEqual({ memories: [] });
+    });
+  });
+
+  describe('preload_memory', () => {
+    it('should add memories matching the user message to the system instruction', async () => {
+      const llmRequest = new LlmRequest({ systemInstruction: 'Be helpful.' });
+
+      await preloadMemory.processLlmRequest(toolContext('Miso'), llmRequest);
+
+      expect(llmRequest.systemInstruction).toContain('Be helpful.\n\n');
+      expect(llmRequest.systemInstruction).toContain('<PAST_CONVERSATIONS>\nuser: my cat is named Miso');
+      expect(llmRequest.tools).toBeUndefined();
+    });
+
+    it('should leave the request unchanged when nothing matches', async () => {
+      const llmRequest = new LlmRequest({ systemInstruction: 'Be helpful.' });
+
+      await preloadMemory.processLlmRequest(toolContext('zebra'), llmRequest);
+
+      expect(llmRequest.systemInstruction).toBe('Be helpful.');
+    });
+  });
+});